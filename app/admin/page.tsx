@@ -39,15 +39,40 @@ interface RoleAssignment {
     is_active: boolean
 }
 
+interface WebhookSubscription {
+    id: string
+    url: string
+    events: string[]
+    is_active: boolean
+}
+
+interface WebhookLogEntry {
+    log_id: string
+    timestamp: string
+    level: string
+    action?: string
+    message: string
+    correlation_id?: string
+}
+
+interface Webhooks {
+    subscriptions: WebhookSubscription[]
+    deliveries: WebhookLogEntry[]
+    deadLetters: WebhookLogEntry[]
+}
+
 export default function AdminPage() {
     const { user, loading: authLoading } = useAuth()
     const router = useRouter()
     const [users, setUsers] = useState<User[]>([])
+    const [usersCursor, setUsersCursor] = useState<string | null>(null)
+    const [loadingMore, setLoadingMore] = useState(false)
     const [roles, setRoles] = useState<Role[]>([])
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [selectedUser, setSelectedUser] = useState<User | null>(null)
     const [userRoles, setUserRoles] = useState<RoleAssignment[]>([])
+    const [webhooks, setWebhooks] = useState<Webhooks | null>(null)
 
     useEffect(() => {
         if (!authLoading && !user) {
@@ -84,6 +109,7 @@ export default function AdminPage() {
 
                 const usersData = await usersRes.json()
                 setUsers(usersData.users)
+                setUsersCursor(usersData.nextCursor)
 
                 // Fetch roles
                 const rolesRes = await fetch('/api/admin/roles', {
@@ -97,6 +123,15 @@ export default function AdminPage() {
                 const rolesData = await rolesRes.json()
                 setRoles(rolesData.roles)
 
+                // Fetch webhook deliveries (the panel is hidden if this fails)
+                const webhooksRes = await fetch('/api/admin/webhooks', {
+                    headers: { 'Authorization': `Bearer ${token}` },
+                })
+
+                if (webhooksRes.ok) {
+                    setWebhooks(await webhooksRes.json())
+                }
+
             } catch (err: any) {
                 setError(err.message)
             } finally {
@@ -107,6 +142,37 @@ export default function AdminPage() {
         fetchData()
     }, [user])
 
+    const handleLoadMoreUsers = async () => {
+        if (!usersCursor) return
+
+        setLoadingMore(true)
+        try {
+            const { getFirebaseAuth } = await import('@/lib/auth/providers/firebase-client')
+            const auth = getFirebaseAuth()
+            const firebaseUser = auth.currentUser
+
+            if (!firebaseUser) return
+
+            const token = await firebaseUser.getIdToken()
+
+            const res = await fetch(`/api/admin/users?cursor=${encodeURIComponent(usersCursor)}`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            })
+
+            if (!res.ok) {
+                throw new Error('Failed to fetch users')
+            }
+
+            const data = await res.json()
+            setUsers(prev => [...prev, ...data.users])
+            setUsersCursor(data.nextCursor)
+        } catch (err) {
+            alert(`Error: ${err instanceof Error ? err.message : String(err)}`)
+        } finally {
+            setLoadingMore(false)
+        }
+    }
+
     const handleAssignRole = async (userId: string, roleId: string) => {
         try {
             const { getFirebaseAuth } = await import('@/lib/auth/providers/firebase-client')
@@ -141,6 +207,36 @@ export default function AdminPage() {
         }
     }
 
+    const handleRedeliver = async (deliveryId: string) => {
+        try {
+            const { getFirebaseAuth } = await import('@/lib/auth/providers/firebase-client')
+            const auth = getFirebaseAuth()
+            const firebaseUser = auth.currentUser
+
+            if (!firebaseUser) return
+
+            const token = await firebaseUser.getIdToken()
+
+            const res = await fetch('/api/admin/webhooks', {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ deliveryId }),
+            })
+
+            if (!res.ok) {
+                throw new Error('Failed to redeliver webhook')
+            }
+
+            alert('Redelivery queued')
+            window.location.reload()
+        } catch (err) {
+            alert(`Error: ${err instanceof Error ? err.message : String(err)}`)
+        }
+    }
+
     if (authLoading || loading) {
         return (
             <div className="min-h-screen flex items-center justify-center bg-gray-50">
@@ -188,7 +284,9 @@ export default function AdminPage() {
                         <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
                             <div className="px-6 py-4 border-b border-gray-200">
                                 <h2 className="text-lg font-semibold text-gray-900">Users</h2>
-                                <p className="text-sm text-gray-500 mt-0.5">{users.length} total users</p>
+                                <p className="text-sm text-gray-500 mt-0.5">
+                                    {usersCursor ? `Showing ${users.length} users` : `${users.length} total users`}
+                                </p>
                             </div>
 
                             <div className="divide-y divide-gray-200">
@@ -228,6 +326,18 @@ export default function AdminPage() {
                                     </div>
                                 ))}
                             </div>
+
+                            {usersCursor && (
+                                <div className="px-6 py-4 border-t border-gray-200">
+                                    <button
+                                        onClick={handleLoadMoreUsers}
+                                        disabled={loadingMore}
+                                        className="w-full px-4 py-2 text-sm font-medium text-indigo-600 border border-indigo-200 rounded-lg hover:bg-indigo-50 disabled:opacity-50 transition-colors"
+                                    >
+                                        {loadingMore ? 'Loading...' : 'Load more users'}
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -282,6 +392,64 @@ export default function AdminPage() {
                     </div>
                 </div>
 
+                {/* Webhooks */}
+                {webhooks && (
+                    <div className="mt-6 bg-white rounded-lg border border-gray-200 shadow-sm">
+                        <div className="px-6 py-4 border-b border-gray-200">
+                            <h2 className="text-lg font-semibold text-gray-900">Webhooks</h2>
+                            <p className="text-sm text-gray-500 mt-0.5">
+                                {webhooks.subscriptions.length} subscriptions, {webhooks.deadLetters.length} dead letters
+                            </p>
+                        </div>
+
+                        <div className="divide-y divide-gray-200">
+                            {webhooks.subscriptions.map((subscription) => (
+                                <div key={subscription.id} className="px-6 py-3 flex items-center justify-between gap-4">
+                                    <div className="min-w-0">
+                                        <p className="text-sm font-medium text-gray-900">{subscription.id}</p>
+                                        <p className="text-xs text-gray-500 truncate">{subscription.url}</p>
+                                    </div>
+                                    <span className="text-xs text-gray-600">{subscription.events.join(', ')}</span>
+                                </div>
+                            ))}
+
+                            {webhooks.deadLetters.map((entry) => (
+                                <div key={entry.log_id} className="px-6 py-3 flex items-center justify-between gap-4 bg-red-50">
+                                    <div className="min-w-0">
+                                        <p className="text-sm text-red-800">{entry.message}</p>
+                                        <p className="text-xs text-gray-500">{entry.timestamp} · {entry.correlation_id}</p>
+                                    </div>
+                                    <button
+                                        onClick={() => entry.correlation_id && handleRedeliver(entry.correlation_id)}
+                                        className="px-3 py-1.5 bg-indigo-600 text-white text-xs font-medium rounded hover:bg-indigo-700 transition-colors whitespace-nowrap"
+                                    >
+                                        Redeliver
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="px-6 py-4 border-t border-gray-200 max-h-80 overflow-y-auto">
+                            <h3 className="text-sm font-medium text-gray-900 mb-2">Delivery log</h3>
+                            {webhooks.deliveries.length === 0 ? (
+                                <p className="text-sm text-gray-500">No deliveries yet</p>
+                            ) : (
+                                <ul className="space-y-1">
+                                    {webhooks.deliveries.map((entry) => (
+                                        <li key={entry.log_id} className="text-xs text-gray-700">
+                                            <span className="text-gray-500">{entry.timestamp}</span>{' '}
+                                            <span className={entry.level === 'INFO' ? 'text-green-700' : entry.level === 'WARN' ? 'text-amber-700' : 'text-red-700'}>
+                                                {entry.level}
+                                            </span>{' '}
+                                            {entry.message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Back Button */}
                 <div className="mt-6">
                     <button
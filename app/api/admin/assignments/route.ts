@@ -0,0 +1,43 @@
+/**
+ * Admin API - Role Assignments
+ * GET /api/admin/assignments - List role assignments (paged)
+ *   ?userId= &roleId= &siteCode= &active=true|false
+ *   &sort=assigned_at &order=asc|desc &limit=50 &cursor=<nextCursor>
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { ROLE_ASSIGNMENT_QUERY, booleanParam, pageParams, stringParam } from '@/lib/data/query'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const params = req.nextUrl.searchParams
+        const page = await dataService.queryRoleAssignments({
+            filter: {
+                userId: stringParam(params, 'userId'),
+                roleId: stringParam(params, 'roleId'),
+                siteCode: stringParam(params, 'siteCode'),
+                isActive: booleanParam(params, 'active'),
+            },
+            ...pageParams(params, ROLE_ASSIGNMENT_QUERY.sortFields),
+        })
+
+        return NextResponse.json({ assignments: page.items, nextCursor: page.nextCursor })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
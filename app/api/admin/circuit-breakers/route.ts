@@ -0,0 +1,78 @@
+/**
+ * Admin API - Sheets Circuit Breakers
+ * GET /api/admin/circuit-breakers - Retry/breaker policy, state and counters per operation
+ * POST /api/admin/circuit-breakers { operation? } - Close one operation's circuit
+ *   (read, write, append, batch), or all of them when omitted
+ *
+ * Breakers live in each server process: a reset applies to the server that
+ * handles the request. Policies are configured with SHEETS_POLICIES (see
+ * lib/sheets/config.ts).
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { httpStatusFor } from '@/lib/data'
+import { getSheetsClient } from '@/lib/sheets/client'
+import { SHEETS_OPERATIONS, type SheetsOperation } from '@/lib/sheets/config'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const client = getSheetsClient()
+
+        return NextResponse.json({
+            policies: client.getPolicies(),
+            circuitBreakers: client.getCircuitBreakerMetrics(),
+        })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const POST = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        // The body is optional: no operation resets every breaker
+        const { operation } = await req.json().catch(() => ({}))
+
+        if (operation !== undefined && !SHEETS_OPERATIONS.includes(operation)) {
+            return NextResponse.json(
+                { error: `operation must be one of: ${SHEETS_OPERATIONS.join(', ')}` },
+                { status: 400 }
+            )
+        }
+
+        const client = getSheetsClient()
+        client.resetCircuitBreakers(operation as SheetsOperation | undefined)
+
+        return NextResponse.json({
+            success: true,
+            circuitBreakers: client.getCircuitBreakerMetrics(),
+        })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -0,0 +1,38 @@
+/**
+ * Admin API - Health
+ * GET /api/admin/health - Full readiness report: each dependency's latency and
+ *   error, Sheets circuit breakers and quota buckets, cache sizes, build and uptime
+ *
+ * Same probes as the public /api/ready (which shows only up/down per dependency).
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { httpStatusFor } from '@/lib/data'
+import { checkReadiness, getUptimeSeconds } from '@/lib/health'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const report = await checkReadiness()
+
+        return NextResponse.json(
+            { ...report, uptimeSeconds: getUptimeSeconds() },
+            { headers: { 'Cache-Control': 'no-store' } }
+        )
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
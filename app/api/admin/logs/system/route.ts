@@ -0,0 +1,45 @@
+/**
+ * Admin API - System Log
+ * GET /api/admin/logs/system - List system logs (paged, newest first)
+ *   ?level=ERROR|WARN|INFO|DEBUG &userId= &module= &correlationId= &from=<ISO> &to=<ISO>
+ *   &sort=timestamp &order=asc|desc &limit=50 &cursor=<nextCursor>
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { SYSTEM_LOG_QUERY, enumParam, pageParams, stringParam, timestampParam } from '@/lib/data/query'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const params = req.nextUrl.searchParams
+        const page = await dataService.querySystemLogs({
+            filter: {
+                level: enumParam(params, 'level', ['ERROR', 'WARN', 'INFO', 'DEBUG'] as const),
+                userId: stringParam(params, 'userId'),
+                moduleCode: stringParam(params, 'module'),
+                correlationId: stringParam(params, 'correlationId'),
+                after: timestampParam(params, 'from'),
+                before: timestampParam(params, 'to'),
+            },
+            ...pageParams(params, SYSTEM_LOG_QUERY.sortFields),
+        })
+
+        return NextResponse.json({ logs: page.items, nextCursor: page.nextCursor })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
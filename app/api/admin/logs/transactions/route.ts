@@ -0,0 +1,45 @@
+/**
+ * Admin API - Transaction Log
+ * GET /api/admin/logs/transactions - List transaction logs (paged, newest first)
+ *   ?userId= &module= &action= &status=PENDING|SUCCESS|FAILED &from=<ISO> &to=<ISO>
+ *   &sort=started_at &order=asc|desc &limit=50 &cursor=<nextCursor>
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { TRANSACTION_LOG_QUERY, enumParam, pageParams, stringParam, timestampParam } from '@/lib/data/query'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const params = req.nextUrl.searchParams
+        const page = await dataService.queryTransactionLogs({
+            filter: {
+                userId: stringParam(params, 'userId'),
+                moduleCode: stringParam(params, 'module'),
+                action: stringParam(params, 'action'),
+                status: enumParam(params, 'status', ['PENDING', 'SUCCESS', 'FAILED'] as const),
+                startedAfter: timestampParam(params, 'from'),
+                startedBefore: timestampParam(params, 'to'),
+            },
+            ...pageParams(params, TRANSACTION_LOG_QUERY.sortFields),
+        })
+
+        return NextResponse.json({ logs: page.items, nextCursor: page.nextCursor })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -0,0 +1,68 @@
+/**
+ * Admin API - Single Module
+ * PATCH /api/admin/modules/[moduleId] - Update module fields
+ * DELETE /api/admin/modules/[moduleId] - Deactivate module (hidden from navigation)
+ *
+ * Unknown module → 404; taken module_code, or renaming a code that active
+ * permissions still grant → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { pick } from '@/lib/utils'
+
+const EDITABLE_FIELDS = [
+    'module_code', 'module_name', 'description', 'icon', 'route', 'sort_order', 'is_active',
+] as const
+
+// .../modules/[moduleId]
+function moduleIdFrom(url: string): string {
+    return new URL(url).pathname.split('/').pop() || ''
+}
+
+export const PATCH = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const body = await req.json()
+        const updatedModule = await dataService.updateModule(moduleIdFrom(req.url), pick(body, EDITABLE_FIELDS))
+
+        return NextResponse.json({ module: updatedModule })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const DELETE = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const updatedModule = await dataService.deactivateModule(moduleIdFrom(req.url))
+
+        return NextResponse.json({ module: updatedModule })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -0,0 +1,69 @@
+/**
+ * Admin API - Module Management
+ * GET /api/admin/modules - List all modules (inactive included)
+ * POST /api/admin/modules - Create module
+ *   { module_code, module_name, description?, icon, route, sort_order?, is_active? }
+ * PATCH/DELETE /api/admin/modules/[moduleId] - Update / deactivate module
+ *
+ * Taken module_code → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const modules = await dataService.getModules()
+
+        return NextResponse.json({ modules })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const POST = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const body = await req.json()
+        const { module_code, module_name, description, icon, route, sort_order, is_active } = body
+
+        const newModule = await dataService.createModule({
+            module_code,
+            module_name,
+            description: description || '',
+            icon,
+            route,
+            sort_order: sort_order ?? 0,
+            is_active: is_active ?? true,
+        })
+
+        return NextResponse.json({ module: newModule })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -0,0 +1,65 @@
+/**
+ * Admin API - Single Permission
+ * PATCH /api/admin/permissions/[permissionId] - Update role_id, module_code, action, resource, conditions, is_active
+ * DELETE /api/admin/permissions/[permissionId] - Deactivate permission
+ *
+ * Unknown permission/role/module → 404; inactive role or duplicate grant → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { pick } from '@/lib/utils'
+
+const EDITABLE_FIELDS = ['role_id', 'module_code', 'action', 'resource', 'conditions', 'is_active'] as const
+
+// .../permissions/[permissionId]
+function permissionIdFrom(url: string): string {
+    return new URL(url).pathname.split('/').pop() || ''
+}
+
+export const PATCH = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const body = await req.json()
+        const permission = await dataService.updatePermission(permissionIdFrom(req.url), pick(body, EDITABLE_FIELDS))
+
+        return NextResponse.json({ permission })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const DELETE = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const permission = await dataService.deactivatePermission(permissionIdFrom(req.url))
+
+        return NextResponse.json({ permission })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
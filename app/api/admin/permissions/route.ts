@@ -0,0 +1,72 @@
+/**
+ * Admin API - Permission Management
+ * GET /api/admin/permissions - List active permissions (?roleId= for one role)
+ * POST /api/admin/permissions - Grant a permission
+ *   { role_id, module_code, action, resource?, conditions? }
+ * PATCH/DELETE /api/admin/permissions/[permissionId] - Update / deactivate permission
+ *
+ * Unknown role/module → 404; inactive role or duplicate grant → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { stringParam } from '@/lib/data/query'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const roleId = stringParam(req.nextUrl.searchParams, 'roleId')
+        const permissions = roleId
+            ? await dataService.getPermissions(roleId)
+            : await dataService.getAllPermissions()
+
+        return NextResponse.json({ permissions })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const POST = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const body = await req.json()
+        const { role_id, module_code, action, resource, conditions } = body
+
+        const permission = await dataService.createPermission({
+            role_id,
+            module_code,
+            action,
+            resource: resource || '*',
+            conditions,
+            is_active: true,
+        })
+
+        return NextResponse.json({ permission })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -0,0 +1,81 @@
+/**
+ * Admin API - Single Role
+ * PATCH /api/admin/roles/[roleId] - Update role_code, role_name, description, is_active
+ * DELETE /api/admin/roles/[roleId] - Deactivate role (assignments and permissions are kept)
+ * Both are recorded in TRANSACTION_LOG (module ADMIN).
+ *
+ * Unknown role → 404; taken role_code → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { withTransaction } from '@/lib/data/transaction'
+import { pick } from '@/lib/utils'
+
+const EDITABLE_FIELDS = ['role_code', 'role_name', 'description', 'is_active'] as const
+
+// .../roles/[roleId]
+function roleIdFrom(url: string): string {
+    return new URL(url).pathname.split('/').pop() || ''
+}
+
+export const PATCH = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const roleId = roleIdFrom(req.url)
+        const updates = pick(await req.json(), EDITABLE_FIELDS)
+        const role = await withTransaction(
+            user.id,
+            'ADMIN',
+            'update_role',
+            { type: 'role', id: roleId, payload: updates },
+            () => dataService.updateRole(roleId, updates)
+        )
+
+        return NextResponse.json({ role })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const DELETE = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const roleId = roleIdFrom(req.url)
+        const role = await withTransaction(
+            user.id,
+            'ADMIN',
+            'deactivate_role',
+            { type: 'role', id: roleId },
+            () => dataService.deactivateRole(roleId)
+        )
+
+        return NextResponse.json({ role })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
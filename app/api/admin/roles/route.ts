@@ -1,15 +1,23 @@
 /**
  * Admin API - Role Management
  * GET /api/admin/roles - List all roles
- * POST /api/admin/roles/assign - Assign role to user
- * DELETE /api/admin/roles/revoke - Revoke role from user
+ * POST /api/admin/roles { action: 'create', role_code, role_name, description } - Create role
+ * POST /api/admin/roles { action: 'assign', userId, roleId, siteCode?, expiresAt? } - Assign role to user
+ * POST /api/admin/roles { action: 'revoke', assignmentId } - Revoke role from user
+ * PATCH/DELETE /api/admin/roles/[roleId] - Update / deactivate role
+ *
+ * Writes are recorded in TRANSACTION_LOG (module ADMIN).
+ *
+ * Unknown user/role/assignment → 404; inactive user/role, duplicate assignment
+ * or taken role_code → 409; invalid fields → 400
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth/session'
 import { isAdmin } from '@/lib/rbac/permissions'
 import { assignRole, revokeRole } from '@/lib/rbac/roles'
-import { dataService } from '@/lib/data'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { withTransaction } from '@/lib/data/transaction'
 
 export const GET = requireAuth(async (req, user) => {
     try {
@@ -47,14 +55,50 @@ export const POST = requireAuth(async (req, user) => {
         const body = await req.json()
         const { action, userId, roleId, siteCode, expiresAt } = body
 
+        if (action === 'create') {
+            const { role_code, role_name, description } = body
+            const role = await withTransaction(
+                user.id,
+                'ADMIN',
+                'create_role',
+                { type: 'role', payload: { role_code, role_name, description } },
+                async tx => {
+                    const created = await dataService.createRole({
+                        role_code,
+                        role_name,
+                        description: description || '',
+                        is_active: true,
+                    })
+                    tx.setEntityId(created.role_id)
+                    return created
+                }
+            )
+            return NextResponse.json({ role })
+        }
+
         if (action === 'assign') {
-            await assignRole(userId, roleId, user.id, siteCode, expiresAt)
+            await withTransaction(
+                user.id,
+                'ADMIN',
+                'assign_role',
+                { type: 'role_assignment', payload: { userId, roleId, siteCode, expiresAt } },
+                async tx => {
+                    const assignment = await assignRole(userId, roleId, user.id, siteCode, expiresAt)
+                    tx.setEntityId(assignment.assignment_id)
+                }
+            )
             return NextResponse.json({ success: true })
         }
 
         if (action === 'revoke') {
             const { assignmentId } = body
-            await revokeRole(assignmentId, userId)
+            await withTransaction(
+                user.id,
+                'ADMIN',
+                'revoke_role',
+                { type: 'role_assignment', id: assignmentId },
+                () => revokeRole(assignmentId)
+            )
             return NextResponse.json({ success: true })
         }
 
@@ -65,7 +109,7 @@ export const POST = requireAuth(async (req, user) => {
     } catch (error: any) {
         return NextResponse.json(
             { error: error.message },
-            { status: 500 }
+            { status: httpStatusFor(error) }
         )
     }
 })
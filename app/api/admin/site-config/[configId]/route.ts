@@ -0,0 +1,67 @@
+/**
+ * Admin API - Single Site Config Entry
+ * PATCH /api/admin/site-config/[configId] - Update site_code, config_key, config_value, data_type, description, is_active
+ * DELETE /api/admin/site-config/[configId] - Deactivate entry
+ *
+ * Unknown entry → 404; active entry with the same site_code and config_key → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { pick } from '@/lib/utils'
+
+const EDITABLE_FIELDS = [
+    'site_code', 'config_key', 'config_value', 'data_type', 'description', 'is_active',
+] as const
+
+// .../site-config/[configId]
+function configIdFrom(url: string): string {
+    return new URL(url).pathname.split('/').pop() || ''
+}
+
+export const PATCH = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const body = await req.json()
+        const entry = await dataService.updateSiteConfig(configIdFrom(req.url), pick(body, EDITABLE_FIELDS))
+
+        return NextResponse.json({ entry })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const DELETE = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const entry = await dataService.deactivateSiteConfig(configIdFrom(req.url))
+
+        return NextResponse.json({ entry })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
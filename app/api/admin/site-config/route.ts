@@ -0,0 +1,72 @@
+/**
+ * Admin API - Site Configuration
+ * GET /api/admin/site-config - List every site's entries, inactive included (?site= for one site's active entries)
+ * POST /api/admin/site-config - Create entry
+ *   { site_code, config_key, config_value, data_type?, description? }
+ * PATCH/DELETE /api/admin/site-config/[configId] - Update / deactivate entry
+ *
+ * Active entry with the same site_code and config_key → 409; invalid fields → 400
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { stringParam } from '@/lib/data/query'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const siteCode = stringParam(req.nextUrl.searchParams, 'site')
+        const config = siteCode
+            ? await dataService.getSiteConfig(siteCode)
+            : await dataService.getAllSiteConfig()
+
+        return NextResponse.json({ config })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const POST = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const body = await req.json()
+        const { site_code, config_key, config_value, data_type, description } = body
+
+        const entry = await dataService.createSiteConfig({
+            site_code,
+            config_key,
+            config_value,
+            data_type: data_type || 'string',
+            description: description || '',
+            is_active: true,
+        })
+
+        return NextResponse.json({ entry })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -1,14 +1,23 @@
 /**
  * Admin API - User Management
- * GET /api/admin/users - List all users
- * POST /api/admin/users - Create user
+ * GET /api/admin/users - List users (paged)
+ *   ?active=true|false &email=<contains> &provider=google|email|sso
+ *   &sort=created_at|email|name &order=asc|desc &limit=50 &cursor=<nextCursor>
+ * POST /api/admin/users - Create user { email, name, auth_provider?, role_id?, site_code? }
+ *   With role_id the user is created and assigned the role as one transaction:
+ *   if the assignment fails the new user is deactivated again (409/404 as for assignments)
  * PATCH /api/admin/users/[id] - Update user
+ *
+ * Writes are recorded in TRANSACTION_LOG (module ADMIN).
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth/session'
 import { isAdmin } from '@/lib/rbac/permissions'
-import { dataService } from '@/lib/data'
+import { assignRole, revokeRole } from '@/lib/rbac/roles'
+import { dataService, httpStatusFor } from '@/lib/data'
+import { withTransaction } from '@/lib/data/transaction'
+import { USER_QUERY, booleanParam, enumParam, pageParams, stringParam } from '@/lib/data/query'
 
 export const GET = requireAuth(async (req, user) => {
     try {
@@ -22,13 +31,21 @@ export const GET = requireAuth(async (req, user) => {
             )
         }
 
-        const users = await dataService.getUsers()
+        const params = req.nextUrl.searchParams
+        const page = await dataService.queryUsers({
+            filter: {
+                isActive: booleanParam(params, 'active'),
+                emailContains: stringParam(params, 'email'),
+                authProvider: enumParam(params, 'provider', ['google', 'email', 'sso'] as const),
+            },
+            ...pageParams(params, USER_QUERY.sortFields),
+        })
 
-        return NextResponse.json({ users })
+        return NextResponse.json({ users: page.items, nextCursor: page.nextCursor })
     } catch (error: any) {
         return NextResponse.json(
             { error: error.message },
-            { status: 500 }
+            { status: httpStatusFor(error) }
         )
     }
 })
@@ -46,21 +63,43 @@ export const POST = requireAuth(async (req, user) => {
         }
 
         const body = await req.json()
-        const { email, name, auth_provider } = body
+        const { email, name, auth_provider, role_id, site_code } = body
 
-        // Create user
-        const newUser = await dataService.createUser({
-            email,
-            name,
-            auth_provider: auth_provider || 'email',
-            is_active: true,
-        })
+        // Create user, then assign the initial role; a failed assignment deactivates the new user
+        const newUser = await withTransaction(
+            user.id,
+            'ADMIN',
+            'create_user',
+            { type: 'user', payload: { email, name, auth_provider, role_id, site_code } },
+            async tx => {
+                const created = await tx.step(
+                    'create_user',
+                    () => dataService.createUser({
+                        email,
+                        name,
+                        auth_provider: auth_provider || 'email',
+                        is_active: true,
+                    }),
+                    createdUser => dataService.updateUser(createdUser.user_id, { is_active: false })
+                )
+                tx.setEntityId(created.user_id)
+
+                if (role_id) {
+                    await tx.step(
+                        'assign_role',
+                        () => assignRole(created.user_id, role_id, user.id, site_code),
+                        assignment => revokeRole(assignment.assignment_id)
+                    )
+                }
+                return created
+            }
+        )
 
         return NextResponse.json({ user: newUser })
     } catch (error: any) {
         return NextResponse.json(
             { error: error.message },
-            { status: 500 }
+            { status: httpStatusFor(error) }
         )
     }
 })
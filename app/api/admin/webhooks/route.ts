@@ -0,0 +1,73 @@
+/**
+ * Admin API - Webhooks
+ * GET /api/admin/webhooks - Subscriptions (without secrets), recent delivery
+ *   attempts and undelivered dead letters ?limit=200
+ * POST /api/admin/webhooks { deliveryId } - Redeliver a dead letter (202; 404 if unknown)
+ *
+ * Subscriptions are configured with WEBHOOK_SUBSCRIPTIONS (see lib/webhooks/config.ts).
+ */
+
+import { NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth/session'
+import { isAdmin } from '@/lib/rbac/permissions'
+import { httpStatusFor } from '@/lib/data'
+import { pageParams } from '@/lib/data/query'
+import { webhookDispatcher } from '@/lib/webhooks'
+
+export const GET = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const { limit } = pageParams(req.nextUrl.searchParams, [])
+        const log = await webhookDispatcher.getDeliveryLog(limit)
+
+        return NextResponse.json({
+            subscriptions: webhookDispatcher.getSubscriptions(),
+            deliveries: log.deliveries,
+            deadLetters: log.deadLetters,
+        })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
+
+export const POST = requireAuth(async (req, user) => {
+    try {
+        const userIsAdmin = await isAdmin(user.id)
+
+        if (!userIsAdmin) {
+            return NextResponse.json(
+                { error: 'Forbidden - Admin access required' },
+                { status: 403 }
+            )
+        }
+
+        const { deliveryId } = await req.json()
+
+        if (!deliveryId) {
+            return NextResponse.json(
+                { error: 'deliveryId is required' },
+                { status: 400 }
+            )
+        }
+
+        await webhookDispatcher.redeliver(deliveryId)
+
+        return NextResponse.json({ success: true }, { status: 202 })
+    } catch (error) {
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : String(error) },
+            { status: httpStatusFor(error) }
+        )
+    }
+})
@@ -28,7 +28,7 @@ export async function POST(req: NextRequest) {
                     name: user.name,
                     auth_provider: 'google',
                     is_active: true,
-                } as any) // Type assertion needed since we're passing user_id
+                })
             } else {
                 // Update last login
                 await dataService.updateUser(dbUser.user_id, {
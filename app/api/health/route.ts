@@ -0,0 +1,19 @@
+/**
+ * Liveness
+ * GET /api/health - 200 while the process serves requests (no dependency checks)
+ *
+ * Public, for load balancers and uptime checks. Use /api/ready for dependencies;
+ * the build version is in /api/admin/health.
+ */
+
+import { NextResponse } from 'next/server'
+import { getUptimeSeconds } from '@/lib/health'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+    return NextResponse.json(
+        { status: 'ok', uptimeSeconds: getUptimeSeconds() },
+        { headers: { 'Cache-Control': 'no-store' } }
+    )
+}
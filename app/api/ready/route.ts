@@ -0,0 +1,24 @@
+/**
+ * Readiness
+ * GET /api/ready - { ready, checks: { <dependency>: { status } } } for the data
+ *   store (Sheets or Postgres) and Firebase Admin
+ *
+ * 200 when every critical dependency is up, 503 otherwise (same body).
+ * Public, for load balancers and uptime checks; probes are reused for
+ * READINESS_CACHE_MS. Admins get latencies, errors, circuit breakers, cache
+ * sizes and the build from /api/admin/health.
+ */
+
+import { NextResponse } from 'next/server'
+import { checkReadiness, toPublicReadiness } from '@/lib/health'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+    const report = await checkReadiness()
+
+    return NextResponse.json(toPublicReadiness(report), {
+        status: report.ready ? 200 : 503,
+        headers: { 'Cache-Control': 'no-store' },
+    })
+}
@@ -11,6 +11,10 @@
  * 4. Run: setupCrystalCoreSchema()
  * 
  * Safe to re-run (idempotent)
+ *
+ * Superseded by `npm run sheets:setup` (lib/sheets/setup.ts), which builds the
+ * same schema from SHEETS_CONFIG without clearing existing sheets and applies
+ * schema migrations. Kept for reference.
  */
 
 // ============================================================================
@@ -0,0 +1,38 @@
+/**
+ * Server startup hook (Next.js instrumentation)
+ *
+ * - Installs the shutdown path when NEXT_MANUAL_SIG_HANDLE=true (Next then
+ *   leaves SIGINT/SIGTERM to the app): buffered Sheets appends are flushed,
+ *   for at most SHEETS_SHUTDOWN_FLUSH_MS, before the process exits
+ * - Resumes the webhook deliveries the previous server process left pending
+ *   (see WebhookDispatcher.resumePending)
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+    if (process.env.NEXT_MANUAL_SIG_HANDLE === 'true') {
+        const { appendQueue } = await import('./lib/sheets/append-queue')
+
+        for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+            process.once(signal, () => {
+                appendQueue.flushBeforeExit().finally(() => process.exit(0))
+            })
+        }
+    }
+
+    const { webhookDispatcher } = await import('./lib/webhooks')
+    if (webhookDispatcher.getSubscriptions().length === 0) return
+
+    // Attaches the dispatcher to dataService
+    await import('./lib/data')
+
+    try {
+        const resumed = await webhookDispatcher.resumePending()
+        if (resumed > 0) {
+            console.log(`📨 Resumed ${resumed} pending webhook deliveries`)
+        }
+    } catch (error) {
+        console.error('❌ Failed to resume pending webhook deliveries:', error)
+    }
+}
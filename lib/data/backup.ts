@@ -0,0 +1,268 @@
+/**
+ * Backup & Restore
+ *
+ * Exports DataService tables to a versioned bundle and loads a bundle into
+ * any adapter, so data can be restored per table or moved between environments.
+ *
+ * Bundle layouts:
+ * - json: one file, { manifest, data }
+ * - csv:  a directory with manifest.json and one <TABLE>.csv per table
+ *
+ * The manifest records each table's row count and checksum (see checksumRows),
+ * checked when a bundle is read. Rows are validated with the entity schemas.
+ *
+ * Restore modes:
+ * - merge:   upsert by primary key (importTable); other rows are kept
+ * - replace: the table ends up holding exactly the bundle's rows (replaceTable)
+ */
+
+import { existsSync } from 'fs'
+import { mkdir, readFile, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import { now } from '../utils'
+import { ValidationError } from './errors'
+import { checksumRows } from './migration'
+import { parseEntity } from './schemas'
+import { TABLE_COLUMNS, TABLE_NAMES } from './tables'
+import type { DataService, DataTables, TableName } from './types'
+
+export const BACKUP_FORMAT = 'crystal-core-backup'
+export const BACKUP_VERSION = 1
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BackupLayout = 'json' | 'csv'
+export type RestoreMode = 'merge' | 'replace'
+
+export interface BackupManifest {
+    format: typeof BACKUP_FORMAT
+    version: number
+    createdAt: string
+    source: string // Adapter the rows were exported from
+    tables: { [T in TableName]?: { rows: number; checksum: string } }
+}
+
+export interface BackupBundle {
+    manifest: BackupManifest
+    data: Partial<DataTables>
+}
+
+export interface BackupOptions {
+    source: string
+    tables?: TableName[]
+}
+
+export interface RestoreOptions {
+    mode: RestoreMode
+    tables?: TableName[]
+}
+
+export interface TableRestoreReport {
+    table: TableName
+    rows: number
+    // replace only: target checksum matches the manifest afterwards
+    verified?: boolean
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function toCsvCell(value: unknown): string {
+    if (value === undefined || value === null) return ''
+    const text = typeof value === 'boolean' ? (value ? 'TRUE' : 'FALSE') : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(columns: string[], rows: readonly object[]): string {
+    const lines = [columns.join(',')]
+    for (const row of rows as Record<string, unknown>[]) {
+        lines.push(columns.map(column => toCsvCell(row[column])).join(','))
+    }
+    return lines.join('\n') + '\n'
+}
+
+/**
+ * RFC 4180 parser: quoted cells may hold commas, quotes ("") and newlines
+ */
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                cell += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                cell += char
+            }
+        } else if (char === '"') {
+            quoted = true
+        } else if (char === ',') {
+            row.push(cell)
+            cell = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(cell)
+            rows.push(row)
+            row = []
+            cell = ''
+        } else {
+            cell += char
+        }
+    }
+
+    if (cell || row.length > 0) {
+        row.push(cell)
+        rows.push(row)
+    }
+    return rows
+}
+
+function csvRecords(text: string): Record<string, string>[] {
+    const [header = [], ...rows] = parseCsv(text)
+    return rows.map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])))
+}
+
+// ============================================================================
+// BUNDLES
+// ============================================================================
+
+/**
+ * Export tables from `service` (after flushing buffered writes)
+ */
+export async function createBackup(service: DataService, options: BackupOptions): Promise<BackupBundle> {
+    await service.flush()
+
+    const manifest: BackupManifest = {
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        createdAt: now(),
+        source: options.source,
+        tables: {},
+    }
+    const data: Partial<DataTables> = {}
+
+    for (const table of options.tables ?? TABLE_NAMES) {
+        const rows = await service.exportTable(table)
+        Object.assign(data, { [table]: rows })
+        manifest.tables[table] = { rows: rows.length, checksum: checksumRows(table, rows) }
+    }
+
+    return { manifest, data }
+}
+
+export async function writeBackup(bundle: BackupBundle, target: string, layout: BackupLayout): Promise<void> {
+    if (layout === 'json') {
+        await mkdir(path.dirname(target), { recursive: true })
+        await writeFile(target, JSON.stringify(bundle, null, 2))
+        return
+    }
+
+    await mkdir(target, { recursive: true })
+    for (const [table, rows] of Object.entries(bundle.data) as [TableName, object[]][]) {
+        await writeFile(path.join(target, `${table}.csv`), toCsv(TABLE_COLUMNS[table] as string[], rows))
+    }
+    await writeFile(path.join(target, 'manifest.json'), JSON.stringify(bundle.manifest, null, 2))
+}
+
+/**
+ * Typed rows of one table; throws ValidationError naming the first bad rows
+ */
+function parseRows<T extends TableName>(table: T, input: unknown[]): DataTables[T] {
+    const rows: DataTables[T][number][] = []
+    const issues: string[] = []
+
+    input.forEach((record, index) => {
+        const result = parseEntity(table, record)
+        if (result.ok) {
+            rows.push(result.value)
+        } else if (issues.length < 10) {
+            issues.push(`row ${index + 1}: ${result.issues.join(', ')}`)
+        }
+    })
+
+    if (issues.length > 0) {
+        throw new ValidationError(table, issues)
+    }
+    return rows as DataTables[T]
+}
+
+/**
+ * Read a bundle (json file or csv directory) and check it against its manifest
+ */
+export async function readBackup(source: string): Promise<BackupBundle> {
+    const isDirectory = (await stat(source)).isDirectory()
+    const raw = isDirectory
+        ? { manifest: JSON.parse(await readFile(path.join(source, 'manifest.json'), 'utf8')), data: {} }
+        : JSON.parse(await readFile(source, 'utf8'))
+    const manifest = raw.manifest as BackupManifest
+
+    if (manifest?.format !== BACKUP_FORMAT) {
+        throw new Error(`${source} is not a ${BACKUP_FORMAT} bundle`)
+    }
+    if (manifest.version > BACKUP_VERSION) {
+        throw new Error(`Backup version ${manifest.version} is newer than this code supports (${BACKUP_VERSION})`)
+    }
+
+    const data: Partial<DataTables> = {}
+    for (const [table, expected] of Object.entries(manifest.tables) as [TableName, { rows: number; checksum: string }][]) {
+        const file = path.join(source, `${table}.csv`)
+        if (isDirectory && !existsSync(file)) {
+            throw new Error(`Backup is missing ${table}.csv`)
+        }
+
+        const records: unknown[] = isDirectory ? csvRecords(await readFile(file, 'utf8')) : raw.data?.[table] ?? []
+        const rows = parseRows(table, records)
+
+        if (rows.length !== expected.rows || checksumRows(table, rows) !== expected.checksum) {
+            throw new Error(`Backup ${table} does not match its manifest (${rows.length}/${expected.rows} rows, checksum differs)`)
+        }
+        Object.assign(data, { [table]: rows })
+    }
+
+    return { manifest, data }
+}
+
+/**
+ * Load a bundle's tables into `target`
+ */
+export async function restoreBackup(
+    target: DataService,
+    bundle: BackupBundle,
+    options: RestoreOptions
+): Promise<TableRestoreReport[]> {
+    const available = Object.keys(bundle.data) as TableName[]
+    const tables = options.tables ?? available
+    const missing = tables.filter(table => !available.includes(table))
+
+    if (missing.length > 0) {
+        throw new Error(`Backup has no data for: ${missing.join(', ')}`)
+    }
+
+    const report: TableRestoreReport[] = []
+    for (const table of tables) {
+        const rows = bundle.data[table] as DataTables[typeof table]
+
+        if (options.mode === 'replace') {
+            await target.replaceTable(table, rows)
+            const restored = await target.exportTable(table)
+            report.push({ table, rows: rows.length, verified: checksumRows(table, restored) === bundle.manifest.tables[table]?.checksum })
+        } else {
+            await target.importTable(table, rows)
+            report.push({ table, rows: rows.length })
+        }
+    }
+
+    await target.flush()
+    return report
+}
@@ -0,0 +1,46 @@
+/**
+ * Data Layer Configuration
+ *
+ * DATA_ADAPTER selects the storage backend behind dataService.
+ * CACHE_BACKEND selects where server caches live (see ./session-cache).
+ */
+
+export const DATA_ADAPTERS = ['sheets', 'postgres', 'memory'] as const
+
+export type DataAdapterName = (typeof DATA_ADAPTERS)[number]
+
+export const CACHE_BACKENDS = ['local', 'session'] as const
+
+export type CacheBackend = (typeof CACHE_BACKENDS)[number]
+
+export const DATA_CONFIG = {
+    adapter: (process.env.DATA_ADAPTER || 'sheets') as DataAdapterName,
+
+    // DATA_ADAPTER=memory
+    memory: {
+        seedFile: process.env.MEMORY_SEED_FILE || undefined,
+        sqlitePath: process.env.MEMORY_SQLITE_PATH || undefined,
+    },
+
+    // local = per process, session = shared SESSION_CACHE table
+    cacheBackend: (process.env.CACHE_BACKEND || 'local') as CacheBackend,
+
+    // How often expired SESSION_CACHE entries are removed (0 disables the sweeper)
+    cacheSweepMs: parseInt(process.env.SESSION_CACHE_SWEEP_MS || '300000'),
+} as const
+
+/**
+ * Validate the configured adapter and cache backend names
+ */
+export function assertDataConfig(): void {
+    if (!DATA_ADAPTERS.includes(DATA_CONFIG.adapter)) {
+        throw new Error(
+            `Unknown DATA_ADAPTER "${DATA_CONFIG.adapter}" (expected one of: ${DATA_ADAPTERS.join(', ')})`
+        )
+    }
+    if (!CACHE_BACKENDS.includes(DATA_CONFIG.cacheBackend)) {
+        throw new Error(
+            `Unknown CACHE_BACKEND "${DATA_CONFIG.cacheBackend}" (expected one of: ${CACHE_BACKENDS.join(', ')})`
+        )
+    }
+}
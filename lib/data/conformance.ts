@@ -0,0 +1,1108 @@
+/**
+ * DataService Conformance Suite
+ *
+ * Behavior every DataService adapter must share with sheetsAdapter.
+ * Run it against an adapter factory that returns a service seeded with the
+ * given rows; each case passes its own fixture and uses fresh IDs, so the
+ * factory may reuse one backing store.
+ *
+ * Usage: npm test (runs against the memory adapter, then the Sheets adapter
+ * on the emulator)
+ */
+
+import assert from 'assert/strict'
+import { mkdtemp, rm } from 'fs/promises'
+import { createServer } from 'http'
+import type { AddressInfo } from 'net'
+import { tmpdir } from 'os'
+import path from 'path'
+import { generateId, now } from '../utils'
+import { createBackup, readBackup, restoreBackup, writeBackup } from './backup'
+import { ConflictError, DuplicateError, NotFoundError, ValidationError } from './errors'
+import { DomainEventBus, runWithActor, withDomainEvents, type DomainEvent, type DomainEventType } from './events'
+import { DEFAULT_GRANTS, DEFAULT_MODULES, DEFAULT_ROLES, SUPER_ADMIN_ROLE, seedPlatform } from './seed'
+import { withTransaction } from './transaction'
+import type { DataService, DataTables, Module, Permission, Role, RoleAssignment, TransactionLog, User } from './types'
+import { WebhookDispatcher, type WebhookPayload } from '../webhooks/dispatcher'
+import { verifyWebhookSignature } from '../webhooks/signature'
+
+export type AdapterFactory = (seed: Partial<DataTables>) => Promise<DataService>
+
+export interface ConformanceCase {
+    name: string
+    run(createAdapter: AdapterFactory): Promise<void>
+}
+
+export interface ConformanceResult {
+    passed: string[]
+    failed: { name: string; error: unknown }[]
+}
+
+// ============================================================================
+// FIXTURE HELPERS
+// ============================================================================
+
+function userRow(overrides: Partial<User>): User {
+    const id = generateId()
+    return {
+        user_id: id,
+        email: `${id}@example.com`,
+        name: id,
+        auth_provider: 'google',
+        is_active: true,
+        created_at: now(),
+        updated_at: now(),
+        ...overrides,
+    }
+}
+
+function transactionLogRow(overrides: Partial<TransactionLog>): TransactionLog {
+    return {
+        tx_id: generateId(),
+        user_id: generateId(),
+        module_code: 'ADMIN',
+        action: 'assign_role',
+        entity_type: 'role_assignment',
+        status: 'SUCCESS',
+        started_at: now(),
+        ...overrides,
+    }
+}
+
+function assignmentRow(overrides: Partial<RoleAssignment>): RoleAssignment {
+    return {
+        assignment_id: generateId(),
+        user_id: generateId(),
+        role_id: generateId(),
+        assigned_by: 'SYSTEM',
+        assigned_at: now(),
+        is_active: true,
+        ...overrides,
+    }
+}
+
+function roleRow(overrides: Partial<Role>): Role {
+    const code = `ROLE_${generateId().slice(0, 8)}`
+    return {
+        role_id: generateId(),
+        role_code: code,
+        role_name: code,
+        description: '',
+        is_active: true,
+        created_at: now(),
+        updated_at: now(),
+        ...overrides,
+    }
+}
+
+function permissionRow(overrides: Partial<Permission>): Permission {
+    return {
+        permission_id: generateId(),
+        role_id: generateId(),
+        module_code: 'DASHBOARD',
+        action: 'read',
+        resource: '*',
+        is_active: true,
+        created_at: now(),
+        updated_at: now(),
+        ...overrides,
+    }
+}
+
+function moduleRow(overrides: Partial<Module>): Module {
+    const code = `MOD_${generateId().slice(0, 8)}`
+    return {
+        module_id: generateId(),
+        module_code: code,
+        module_name: code,
+        description: '',
+        icon: 'box',
+        route: `/modules/${code.toLowerCase()}`,
+        is_active: true,
+        sort_order: 0,
+        created_at: now(),
+        updated_at: now(),
+        ...overrides,
+    }
+}
+
+// ============================================================================
+// CASES
+// ============================================================================
+
+export const conformanceCases: ConformanceCase[] = [
+    {
+        name: 'createUser keeps a provided user_id',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const userId = `uid-${generateId()}`
+
+            const created = await service.createUser({
+                user_id: userId,
+                email: `${userId}@example.com`,
+                name: 'Provided Id',
+                auth_provider: 'google',
+                is_active: true,
+            })
+
+            assert.equal(created.user_id, userId)
+            assert.ok(created.created_at, 'created_at is set')
+            assert.ok(created.updated_at, 'updated_at is set')
+
+            const fetched = await service.getUserById(userId)
+            assert.equal(fetched?.user_id, userId)
+            assert.equal(fetched?.email, created.email)
+        },
+    },
+    {
+        name: 'createUser rejects a user failing its schema with ValidationError',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const email = `${generateId()}@example.com`
+
+            await assert.rejects(
+                service.createUser({
+                    email,
+                    name: 'Invalid Provider',
+                    auth_provider: 'carrier-pigeon' as User['auth_provider'],
+                    is_active: true,
+                }),
+                ValidationError
+            )
+            assert.equal(await service.getUserByEmail(email), null)
+        },
+    },
+    {
+        name: 'createUser generates a user_id when none is given',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+
+            const created = await service.createUser({
+                email: `${generateId()}@example.com`,
+                name: 'Generated Id',
+                auth_provider: 'email',
+                is_active: true,
+            })
+
+            assert.ok(created.user_id, 'user_id is generated')
+            assert.equal((await service.getUserById(created.user_id))?.email, created.email)
+        },
+    },
+    {
+        name: 'concurrent partial updateUser calls keep each other\'s changes',
+        async run(createAdapter) {
+            const user = userRow({})
+            const service = await createAdapter({ USERS: [user] })
+            const loginAt = now()
+            // Pooled adapters: open the connections first, so both reads run before either write
+            await Promise.all([service.getUserById(user.user_id), service.getUserById(user.user_id)])
+
+            // A login's update racing an admin's deactivation
+            await Promise.all([
+                service.updateUser(user.user_id, { last_login_at: loginAt }),
+                service.updateUser(user.user_id, { is_active: false }),
+            ])
+
+            const stored = await service.getUserById(user.user_id)
+            assert.equal(stored?.is_active, false)
+            assert.equal(stored?.last_login_at, loginAt)
+        },
+    },
+    {
+        name: 'getUserByEmail matches case-insensitively',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const local = `Mixed.Case.${generateId()}`
+
+            const created = await service.createUser({
+                email: `${local}@Example.com`,
+                name: 'Mixed Case',
+                auth_provider: 'google',
+                is_active: true,
+            })
+
+            const lower = await service.getUserByEmail(`${local}@example.com`.toLowerCase())
+            const upper = await service.getUserByEmail(`${local}@example.com`.toUpperCase())
+
+            assert.equal(lower?.user_id, created.user_id)
+            assert.equal(upper?.user_id, created.user_id)
+            assert.equal(await service.getUserByEmail(`missing-${generateId()}@example.com`), null)
+        },
+    },
+    {
+        name: 'getRoleAssignments returns only the user\'s active rows',
+        async run(createAdapter) {
+            const userId = generateId()
+            const active = assignmentRow({ user_id: userId })
+            const inactive = assignmentRow({ user_id: userId, is_active: false })
+            const otherUser = assignmentRow({})
+
+            const service = await createAdapter({
+                ROLE_ASSIGNMENTS: [active, inactive, otherUser],
+            })
+
+            const assignments = await service.getRoleAssignments(userId)
+            assert.deepEqual(assignments.map(a => a.assignment_id), [active.assignment_id])
+        },
+    },
+    {
+        name: 'getUserAccess returns active assignments, their roles and active permissions',
+        async run(createAdapter) {
+            const userId = generateId()
+            const role = roleRow({})
+            const otherRole = roleRow({})
+            const active = assignmentRow({ user_id: userId, role_id: role.role_id })
+            const inactive = assignmentRow({ user_id: userId, role_id: otherRole.role_id, is_active: false })
+            const granted = permissionRow({ role_id: role.role_id })
+            const disabled = permissionRow({ role_id: role.role_id, is_active: false })
+            const unrelated = permissionRow({ role_id: otherRole.role_id })
+
+            const service = await createAdapter({
+                ROLES: [role, otherRole],
+                ROLE_ASSIGNMENTS: [active, inactive],
+                PERMISSIONS: [granted, disabled, unrelated],
+            })
+
+            const access = await service.getUserAccess(userId)
+            assert.deepEqual(access.assignments.map(a => a.assignment_id), [active.assignment_id])
+            assert.deepEqual(access.roles.map(r => r.role_id), [role.role_id])
+            assert.deepEqual(access.permissions.map(p => p.permission_id), [granted.permission_id])
+
+            const none = await service.getUserAccess(`missing-${generateId()}`)
+            assert.deepEqual(none, { assignments: [], roles: [], permissions: [] })
+        },
+    },
+    {
+        name: 'revokeRole deactivates the assignment',
+        async run(createAdapter) {
+            const user = userRow({})
+            const role = roleRow({})
+            const service = await createAdapter({ USERS: [user], ROLES: [role] })
+            const userId = user.user_id
+
+            const assignment = await service.assignRole({
+                user_id: userId,
+                role_id: role.role_id,
+                assigned_by: 'SYSTEM',
+                is_active: true,
+            })
+            assert.equal((await service.getRoleAssignments(userId)).length, 1)
+
+            await service.revokeRole(assignment.assignment_id)
+            assert.deepEqual(await service.getRoleAssignments(userId), [])
+        },
+    },
+    {
+        name: 'revokeRole throws NotFoundError for an unknown assignment',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            await assert.rejects(service.revokeRole(`missing-${generateId()}`), NotFoundError)
+        },
+    },
+    {
+        name: 'assignRole requires an existing, active user and role',
+        async run(createAdapter) {
+            const user = userRow({})
+            const inactiveUser = userRow({ is_active: false })
+            const role = roleRow({})
+            const inactiveRole = roleRow({ is_active: false })
+            const service = await createAdapter({ USERS: [user, inactiveUser], ROLES: [role, inactiveRole] })
+
+            const assign = (userId: string, roleId: string) => service.assignRole({
+                user_id: userId,
+                role_id: roleId,
+                assigned_by: 'SYSTEM',
+                is_active: true,
+            })
+
+            await assert.rejects(assign(`missing-${generateId()}`, role.role_id), NotFoundError)
+            await assert.rejects(assign(user.user_id, `missing-${generateId()}`), NotFoundError)
+            await assert.rejects(assign(inactiveUser.user_id, role.role_id), ConflictError)
+            await assert.rejects(assign(user.user_id, inactiveRole.role_id), ConflictError)
+            assert.deepEqual(await service.getRoleAssignments(user.user_id), [])
+        },
+    },
+    {
+        name: 'assignRole rejects a duplicate active assignment per site',
+        async run(createAdapter) {
+            const user = userRow({})
+            const role = roleRow({})
+            const service = await createAdapter({ USERS: [user], ROLES: [role] })
+            const assignment = { user_id: user.user_id, role_id: role.role_id, assigned_by: 'SYSTEM', is_active: true }
+
+            const first = await service.assignRole(assignment)
+            await assert.rejects(service.assignRole(assignment), DuplicateError)
+
+            // Another site is a different assignment
+            await service.assignRole({ ...assignment, site_code: 'SITE_B' })
+
+            // Revoked assignments don't block a new one
+            await service.revokeRole(first.assignment_id)
+            await service.assignRole(assignment)
+            assert.equal((await service.getRoleAssignments(user.user_id)).length, 2)
+        },
+    },
+    {
+        name: 'createPermission requires an active role and a known module, once per grant',
+        async run(createAdapter) {
+            const role = roleRow({})
+            const mod = moduleRow({})
+            const service = await createAdapter({ ROLES: [role], MODULES: [mod] })
+            const grant = {
+                role_id: role.role_id,
+                module_code: mod.module_code,
+                action: 'read',
+                resource: '*',
+                is_active: true,
+            }
+
+            const created = await service.createPermission(grant)
+            assert.ok(created.permission_id, 'permission_id is generated')
+            assert.deepEqual((await service.getPermissions(role.role_id)).map(p => p.permission_id), [created.permission_id])
+
+            await assert.rejects(service.createPermission(grant), DuplicateError)
+            await assert.rejects(service.createPermission({ ...grant, role_id: `missing-${generateId()}` }), NotFoundError)
+            await assert.rejects(service.createPermission({ ...grant, module_code: `MISSING_${generateId()}` }), NotFoundError)
+
+            // Wildcard module needs no MODULES row
+            await service.createPermission({ ...grant, module_code: '*' })
+        },
+    },
+    {
+        name: 'getActiveModules drops inactive modules and sorts by sort_order',
+        async run(createAdapter) {
+            const third = moduleRow({ sort_order: 30 })
+            const first = moduleRow({ sort_order: 10 })
+            const hidden = moduleRow({ sort_order: 5, is_active: false })
+            const second = moduleRow({ sort_order: 20 })
+
+            const service = await createAdapter({
+                MODULES: [third, first, hidden, second],
+            })
+
+            const seeded = new Set([third, first, hidden, second].map(m => m.module_code))
+            const codes = (await service.getActiveModules())
+                .map(m => m.module_code)
+                .filter(code => seeded.has(code))
+
+            assert.deepEqual(codes, [first.module_code, second.module_code, third.module_code])
+        },
+    },
+    {
+        name: 'by-id getters find inactive rows too and return null for unknown IDs',
+        async run(createAdapter) {
+            const hidden = moduleRow({ is_active: false })
+            const permission = permissionRow({ is_active: false })
+            const assignment = assignmentRow({ is_active: false })
+            const service = await createAdapter({
+                MODULES: [hidden],
+                PERMISSIONS: [permission],
+                ROLE_ASSIGNMENTS: [assignment],
+            })
+            const config = await service.createSiteConfig({
+                site_code: `SITE_${generateId().slice(0, 8)}`,
+                config_key: 'locale',
+                config_value: 'en',
+                data_type: 'string',
+                description: '',
+                is_active: true,
+            })
+            await service.deactivateSiteConfig(config.config_id)
+
+            assert.equal((await service.getModuleById(hidden.module_id))?.module_code, hidden.module_code)
+            assert.equal((await service.getPermissionById(permission.permission_id))?.is_active, false)
+            assert.equal((await service.getRoleAssignmentById(assignment.assignment_id))?.user_id, assignment.user_id)
+            assert.equal((await service.getSiteConfigById(config.config_id))?.is_active, false)
+
+            const unknown = `missing-${generateId()}`
+            assert.equal(await service.getModuleById(unknown), null)
+            assert.equal(await service.getPermissionById(unknown), null)
+            assert.equal(await service.getRoleAssignmentById(unknown), null)
+            assert.equal(await service.getSiteConfigById(unknown), null)
+        },
+    },
+    {
+        name: 'updateTransactionLog merges updates into the stored row',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+
+            const log = await service.createTransactionLog({
+                user_id: generateId(),
+                module_code: 'ADMIN',
+                action: 'assign_role',
+                entity_type: 'role_assignment',
+                status: 'PENDING',
+                payload: '{"roleId":"r1"}',
+            })
+            assert.ok(log.tx_id, 'tx_id is generated')
+            assert.ok(log.started_at, 'started_at is set')
+
+            const completedAt = now()
+            await service.updateTransactionLog(log.tx_id, {
+                status: 'FAILED',
+                error_message: 'boom',
+                completed_at: completedAt,
+                duration_ms: 42,
+            })
+
+            const updated = await service.getTransactionLog(log.tx_id)
+            assert.equal(updated?.status, 'FAILED')
+            assert.equal(updated?.error_message, 'boom')
+            assert.equal(updated?.duration_ms, 42)
+            assert.equal(updated?.payload, log.payload)
+            assert.equal(updated?.started_at, log.started_at)
+            assert.equal(
+                new Date(updated?.completed_at ?? '').getTime(),
+                new Date(completedAt).getTime()
+            )
+        },
+    },
+    {
+        name: 'updateTransactionLog throws for an unknown tx_id',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            await assert.rejects(service.updateTransactionLog(`missing-${generateId()}`, { status: 'SUCCESS' }))
+        },
+    },
+    {
+        name: 'withTransaction never starts the work when its PENDING row is not stored',
+        async run(createAdapter) {
+            const adapter = await createAdapter({})
+            const service: DataService = { ...adapter, flush: () => Promise.reject(new Error('flush failed')) }
+            let started = false
+
+            await assert.rejects(
+                withTransaction(generateId(), 'ADMIN', 'create_role', { type: 'role' }, async () => {
+                    started = true
+                }, service),
+                /flush failed/
+            )
+            assert.equal(started, false)
+        },
+    },
+    {
+        name: 'withTransaction marks its log SUCCESS or FAILED and passes the outcome through',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const userId = generateId()
+            const entityId = generateId()
+            let txId = ''
+
+            const result = await withTransaction(userId, 'ADMIN', 'create_role', { type: 'role', payload: { a: 1 } }, async tx => {
+                txId = tx.txId
+                assert.equal((await service.getTransactionLog(tx.txId))?.status, 'PENDING')
+                tx.setEntityId(entityId)
+                return 'done'
+            }, service)
+
+            assert.equal(result, 'done')
+            const success = await service.getTransactionLog(txId)
+            assert.equal(success?.status, 'SUCCESS')
+            assert.equal(success?.entity_id, entityId)
+            assert.equal(success?.payload, '{"a":1}')
+            assert.ok(success?.completed_at)
+            assert.ok((success?.duration_ms ?? -1) >= 0)
+
+            const failure = new Error('boom')
+            await assert.rejects(
+                withTransaction(userId, 'ADMIN', 'revoke_role', { type: 'role_assignment', id: entityId }, async tx => {
+                    txId = tx.txId
+                    throw failure
+                }, service),
+                error => error === failure
+            )
+
+            const failed = await service.getTransactionLog(txId)
+            assert.equal(failed?.status, 'FAILED')
+            assert.equal(failed?.error_message, 'boom')
+            assert.equal(failed?.entity_id, entityId)
+        },
+    },
+    {
+        name: 'withTransaction undoes completed steps newest first when a later step fails',
+        async run(createAdapter) {
+            const user = userRow({})
+            const service = await createAdapter({ USERS: [user] })
+            const undone: string[] = []
+            let txId = ''
+
+            await assert.rejects(
+                withTransaction(user.user_id, 'ADMIN', 'create_user', { type: 'user' }, async tx => {
+                    txId = tx.txId
+                    await tx.step(
+                        'rename',
+                        () => service.updateUser(user.user_id, { name: 'Renamed' }),
+                        async () => {
+                            undone.push('rename')
+                            await service.updateUser(user.user_id, { name: user.name })
+                        }
+                    )
+                    await tx.step('broken_undo', async () => 'ok', async () => {
+                        undone.push('broken_undo')
+                        throw new Error('undo failed')
+                    })
+                    await tx.step('assign', () => Promise.reject(new Error('assign failed')), async () => {
+                        undone.push('assign')
+                    })
+                }, service),
+                /assign failed/
+            )
+
+            assert.deepEqual(undone, ['broken_undo', 'rename'])
+            assert.equal((await service.getUserById(user.user_id))?.name, user.name)
+
+            const log = await service.getTransactionLog(txId)
+            assert.equal(log?.status, 'FAILED')
+            assert.equal(log?.error_message, 'assign failed (rollback incomplete: could not undo broken_undo)')
+
+            await service.flush()
+            const steps = await service.querySystemLogs({ filter: { correlationId: txId } })
+            assert.deepEqual(
+                steps.items.map(entry => entry.action).sort(),
+                ['saga_compensation_failed', 'saga_step_compensated', 'saga_step_failed']
+            )
+        },
+    },
+    {
+        name: 'writes publish domain events with the actor and before/after rows',
+        async run(createAdapter) {
+            const role = roleRow({})
+            const bus = new DomainEventBus()
+            const service = withDomainEvents(await createAdapter({ ROLES: [role] }), bus)
+            const events: DomainEvent[] = []
+            bus.onAny(event => {
+                events.push(event)
+            })
+            bus.on('user.updated', () => {
+                throw new Error('handler failures never fail the write')
+            })
+
+            const user = await runWithActor({ actor: 'admin-1', txId: 'tx-1' }, async () => {
+                const created = await service.createUser({
+                    email: `${generateId()}@example.com`,
+                    name: 'Before',
+                    auth_provider: 'email',
+                    is_active: true,
+                })
+                return service.updateUser(created.user_id, { name: 'After' })
+            })
+
+            const assignment = await service.assignRole({
+                user_id: user.user_id,
+                role_id: role.role_id,
+                assigned_by: 'SYSTEM',
+                is_active: true,
+            })
+            await service.revokeRole(assignment.assignment_id)
+            await service.deactivateRole(role.role_id)
+            await assert.rejects(service.updateUser(generateId(), { name: 'Missing' }), NotFoundError)
+
+            assert.deepEqual(
+                events.map(event => [event.type, event.actor, event.txId]),
+                [
+                    ['user.created', 'admin-1', 'tx-1'],
+                    ['user.updated', 'admin-1', 'tx-1'],
+                    ['role.assigned', 'SYSTEM', undefined],
+                    ['role.revoked', 'SYSTEM', undefined],
+                    ['role.updated', 'SYSTEM', undefined],
+                ]
+            )
+
+            const eventOf = <K extends DomainEventType>(type: K) => events.find(event => event.type === type) as DomainEvent<K>
+            assert.equal(eventOf('user.created').data.before, null)
+            assert.equal(eventOf('user.updated').data.before?.name, 'Before')
+            assert.equal(eventOf('user.updated').data.after.name, 'After')
+            assert.equal(eventOf('role.revoked').data.before?.is_active, true)
+            assert.equal(eventOf('role.revoked').data.after.is_active, false)
+            assert.equal(eventOf('role.updated').data.after.is_active, false)
+        },
+    },
+    {
+        name: 'webhooks deliver signed payloads per subscriber filter, retrying into the dead-letter list',
+        async run(createAdapter) {
+            const role = roleRow({})
+            const bus = new DomainEventBus()
+            const service = withDomainEvents(await createAdapter({ ROLES: [role] }), bus)
+            const secret = 'conformance-webhook-secret'
+
+            // /down answers 503 until it comes back up
+            let downIsUp = false
+            const received: { path: string; payload: WebhookPayload; verified: boolean }[] = []
+            const server = createServer((req, res) => {
+                let body = ''
+                req.on('data', chunk => (body += chunk))
+                req.on('end', () => {
+                    if (req.url === '/down' && !downIsUp) {
+                        res.writeHead(503).end()
+                        return
+                    }
+                    received.push({
+                        path: req.url ?? '',
+                        payload: JSON.parse(body),
+                        verified: verifyWebhookSignature(
+                            secret,
+                            body,
+                            req.headers['x-crystal-signature'] as string,
+                            req.headers['x-crystal-timestamp'] as string
+                        ),
+                    })
+                    res.writeHead(204).end()
+                })
+            })
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+            const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+
+            try {
+                const dispatcher = new WebhookDispatcher(
+                    [
+                        { id: 'wms', url: `${base}/wms`, events: ['*'], secret, is_active: true },
+                        { id: 'hr', url: `${base}/hr`, events: ['user.deactivated'], secret, is_active: true },
+                        { id: 'down', url: `${base}/down`, events: ['role.assigned'], secret, is_active: true },
+                    ],
+                    { maxAttempts: 2, retryBaseMs: 1, timeoutMs: 5000 }
+                )
+                dispatcher.attach(service, bus)
+
+                const user = await service.createUser({
+                    email: `${generateId()}@example.com`,
+                    name: 'Hooked',
+                    auth_provider: 'email',
+                    is_active: true,
+                })
+                await service.assignRole({ user_id: user.user_id, role_id: role.role_id, assigned_by: 'SYSTEM', is_active: true })
+                await service.updateUser(user.user_id, { name: 'Renamed' })
+                await service.updateUser(user.user_id, { is_active: false })
+                await dispatcher.drain()
+                await service.flush()
+
+                assert.ok(received.every(delivery => delivery.verified))
+                assert.deepEqual(
+                    received.map(delivery => `${delivery.path} ${delivery.payload.event}`).sort(),
+                    ['/hr user.deactivated', '/wms role.assigned', '/wms user.created', '/wms user.deactivated']
+                )
+
+                const { deadLetters } = await dispatcher.getDeliveryLog()
+                const deadLetter = deadLetters.find(log => log.message.includes('→ down'))
+                assert.ok(deadLetter?.correlation_id, 'the 503 delivery is dead-lettered after 2 attempts')
+                const attempts = await service.querySystemLogs({
+                    filter: { moduleCode: 'WEBHOOKS', correlationId: deadLetter.correlation_id },
+                })
+                assert.deepEqual(attempts.items.map(log => log.action).sort(), [
+                    'webhook_attempt_failed',
+                    'webhook_dead_letter',
+                    'webhook_pending',
+                ])
+
+                downIsUp = true
+                await dispatcher.redeliver(deadLetter.correlation_id)
+                await dispatcher.drain()
+                await service.flush()
+
+                const redelivered = received.find(delivery => delivery.path === '/down')
+                assert.equal(redelivered?.payload.id, deadLetter.correlation_id)
+                assert.equal(redelivered?.payload.event, 'role.assigned')
+                assert.ok(!(await dispatcher.getDeliveryLog()).deadLetters.some(log => log.log_id === deadLetter.log_id))
+                await assert.rejects(dispatcher.redeliver(generateId()), NotFoundError)
+            } finally {
+                server.close()
+            }
+        },
+    },
+    {
+        name: 'webhooks resume deliveries left pending by a restart, dead-lettering orphaned ones',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const secret = 'conformance-webhook-secret'
+
+            const received: string[] = []
+            const server = createServer((req, res) => {
+                received.push(req.headers['x-crystal-delivery'] as string)
+                req.resume().on('end', () => res.writeHead(204).end())
+            })
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+            const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/wms`
+
+            // What the previous process logged before it stopped
+            const pending = (id: string, subscriptionId: string) =>
+                service.createSystemLog({
+                    level: 'INFO',
+                    user_id: 'SYSTEM',
+                    module_code: 'WEBHOOKS',
+                    action: 'webhook_pending',
+                    message: `user.created → ${subscriptionId}: queued`,
+                    details: JSON.stringify({ subscription_id: subscriptionId, event: 'user.created', url, body: '{}' }),
+                    correlation_id: id,
+                })
+            const [interrupted, finished, orphaned] = [generateId(), generateId(), generateId()]
+            await pending(interrupted, 'wms')
+            await pending(finished, 'wms')
+            await service.createSystemLog({
+                level: 'INFO',
+                module_code: 'WEBHOOKS',
+                action: 'webhook_delivered',
+                message: 'user.created → wms: delivered (204)',
+                correlation_id: finished,
+            })
+            await pending(orphaned, 'removed')
+            await service.flush()
+
+            try {
+                const dispatcher = new WebhookDispatcher(
+                    [{ id: 'wms', url, events: ['*'], secret, is_active: true }],
+                    { maxAttempts: 2, retryBaseMs: 1, timeoutMs: 5000 }
+                )
+                dispatcher.attach(service, new DomainEventBus())
+
+                assert.equal(await dispatcher.resumePending(), 1)
+                await dispatcher.drain()
+                await service.flush()
+                assert.deepEqual(received, [interrupted])
+
+                const { deadLetters } = await dispatcher.getDeliveryLog()
+                assert.deepEqual(deadLetters.map(log => log.correlation_id), [orphaned])
+                assert.equal(await dispatcher.resumePending(), 0, 'nothing is left pending')
+            } finally {
+                server.close()
+            }
+        },
+    },
+    {
+        name: 'createSystemLog rows are stored once flush resolves',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const correlationId = generateId()
+
+            await service.createSystemLog({ level: 'INFO', message: 'queued', correlation_id: correlationId })
+            await service.flush()
+
+            const logs = await service.exportTable('SYSTEM_LOG')
+            assert.equal(logs.filter(l => l.correlation_id === correlationId).length, 1)
+        },
+    },
+    {
+        name: 'queryUsers filters, sorts and pages with a cursor',
+        async run(createAdapter) {
+            const tag = `q${generateId().slice(0, 8)}`
+            const users = ['delta', 'alpha', 'charlie', 'bravo'].map(name =>
+                userRow({ email: `${name}.${tag}@Example.com`, name })
+            )
+            const inactive = userRow({ email: `echo.${tag}@example.com`, is_active: false })
+            const otherProvider = userRow({ email: `foxtrot.${tag}@example.com`, auth_provider: 'sso' })
+
+            const service = await createAdapter({ USERS: [...users, inactive, otherProvider] })
+            const filter = { emailContains: tag.toUpperCase(), isActive: true, authProvider: 'google' as const }
+
+            const first = await service.queryUsers({ filter, sortBy: 'name', sortDir: 'asc', limit: 3 })
+            assert.deepEqual(first.items.map(u => u.name), ['alpha', 'bravo', 'charlie'])
+            assert.ok(first.nextCursor, 'first page has a cursor')
+
+            const second = await service.queryUsers({ filter, sortBy: 'name', sortDir: 'asc', limit: 3, cursor: first.nextCursor ?? undefined })
+            assert.deepEqual(second.items.map(u => u.name), ['delta'])
+            assert.equal(second.nextCursor, null)
+
+            const descending = await service.queryUsers({ filter, sortBy: 'email', sortDir: 'desc', limit: 10 })
+            assert.deepEqual(descending.items.map(u => u.name), ['delta', 'charlie', 'bravo', 'alpha'])
+
+            await assert.rejects(service.queryUsers({ cursor: 'not-a-cursor' }))
+            await assert.rejects(service.queryUsers({ limit: 0 }))
+        },
+    },
+    {
+        name: 'queryTransactionLogs filters by user and status, newest first by default',
+        async run(createAdapter) {
+            const userId = generateId()
+            const logs = [1, 2, 3].map(day => transactionLogRow({
+                user_id: userId,
+                started_at: `2025-03-0${day}T00:00:00.000Z`,
+            }))
+            const failed = transactionLogRow({ user_id: userId, status: 'FAILED', started_at: '2025-03-04T00:00:00.000Z' })
+
+            const service = await createAdapter({ TRANSACTION_LOG: [...logs, failed, transactionLogRow({})] })
+            const filter = { userId, status: 'SUCCESS' as const }
+
+            const first = await service.queryTransactionLogs({ filter, limit: 2 })
+            const second = await service.queryTransactionLogs({ filter, limit: 2, cursor: first.nextCursor ?? undefined })
+            assert.deepEqual(
+                [...first.items, ...second.items].map(l => l.tx_id),
+                [logs[2].tx_id, logs[1].tx_id, logs[0].tx_id]
+            )
+            assert.equal(second.nextCursor, null)
+
+            const windowed = await service.queryTransactionLogs({
+                filter: { userId, startedAfter: '2025-03-02T00:00:00.000Z', startedBefore: '2025-03-04T00:00:00.000Z' },
+            })
+            assert.deepEqual(windowed.items.map(l => l.tx_id), [logs[2].tx_id, logs[1].tx_id])
+        },
+    },
+    {
+        name: 'importTable upserts by primary key and keeps IDs and timestamps',
+        async run(createAdapter) {
+            const existing = moduleRow({ sort_order: 1, created_at: '2025-01-01T00:00:00.000Z' })
+            const service = await createAdapter({ MODULES: [existing] })
+
+            const replaced = { ...existing, module_name: 'Renamed' }
+            const added = moduleRow({ sort_order: 2, created_at: '2025-02-01T00:00:00.000Z' })
+            await service.importTable('MODULES', [replaced, added])
+
+            const modules = await service.exportTable('MODULES')
+            const byId = new Map(modules.map(m => [m.module_id, m]))
+
+            assert.equal(modules.filter(m => m.module_id === existing.module_id).length, 1)
+            assert.equal(byId.get(existing.module_id)?.module_name, 'Renamed')
+            assert.equal(byId.get(added.module_id)?.module_code, added.module_code)
+            assert.equal(
+                new Date(byId.get(added.module_id)?.created_at ?? '').getTime(),
+                new Date(added.created_at).getTime()
+            )
+        },
+    },
+    {
+        name: 'importTable rejects the whole batch when a row fails its schema',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const valid = moduleRow({ sort_order: 1 })
+            const invalid = { ...moduleRow({ sort_order: 2 }), module_code: '' }
+
+            await assert.rejects(service.importTable('MODULES', [valid, invalid]), ValidationError)
+            const modules = await service.exportTable('MODULES')
+            assert.ok(!modules.some(m => m.module_id === valid.module_id), 'valid row is not written either')
+        },
+    },
+    {
+        name: 'replaceTable leaves exactly the given rows',
+        async run(createAdapter) {
+            const kept = moduleRow({ sort_order: 1 })
+            const dropped = moduleRow({ sort_order: 2 })
+            const service = await createAdapter({ MODULES: [kept, dropped] })
+
+            const added = moduleRow({ sort_order: 3 })
+            await service.replaceTable('MODULES', [{ ...kept, module_name: 'Kept' }, added])
+
+            const modules = await service.exportTable('MODULES')
+            assert.deepEqual(modules.map(m => m.module_id).sort(), [kept.module_id, added.module_id].sort())
+            assert.equal(modules.find(m => m.module_id === kept.module_id)?.module_name, 'Kept')
+        },
+    },
+    {
+        name: 'a CSV backup restores in replace and merge mode',
+        async run(createAdapter) {
+            const user = userRow({ name: 'Quote "and", comma\nnewline' })
+            const log = transactionLogRow({ duration_ms: 42, payload: '{"a":1}' })
+            const service = await createAdapter({ USERS: [user], TRANSACTION_LOG: [log] })
+
+            const dir = await mkdtemp(path.join(tmpdir(), 'crystal-backup-'))
+            try {
+                const bundle = await createBackup(service, { source: 'conformance', tables: ['USERS', 'TRANSACTION_LOG'] })
+                await writeBackup(bundle, dir, 'csv')
+                const restored = await readBackup(dir)
+                assert.deepEqual(restored.manifest.tables, bundle.manifest.tables)
+
+                await service.replaceTable('USERS', [])
+                const report = await restoreBackup(service, restored, { mode: 'replace', tables: ['USERS'] })
+                assert.equal(report[0].verified, true)
+                assert.equal((await service.getUserById(user.user_id))?.name, user.name)
+
+                await service.updateTransactionLog(log.tx_id, { status: 'FAILED' })
+                await restoreBackup(service, restored, { mode: 'merge', tables: ['TRANSACTION_LOG'] })
+                const merged = await service.getTransactionLog(log.tx_id)
+                assert.equal(merged?.status, log.status)
+                assert.equal(merged?.duration_ms, 42)
+            } finally {
+                await rm(dir, { recursive: true, force: true })
+            }
+        },
+    },
+    {
+        name: 'seedPlatform is idempotent and promotes an existing user to SUPER_ADMIN',
+        async run(createAdapter) {
+            const user = userRow({})
+            const service = await createAdapter({ USERS: [user] })
+
+            const first = await seedPlatform(service, { adminEmail: user.email })
+            assert.equal(first.promoted, 'assigned')
+
+            const second = await seedPlatform(service, { adminEmail: user.email })
+            assert.deepEqual(second, { rolesCreated: [], modulesCreated: [], grantsCreated: [], promoted: 'already-assigned' })
+
+            const roles = await service.getRoles()
+            for (const role of DEFAULT_ROLES) {
+                assert.equal(roles.filter(r => r.role_code === role.role_code).length, 1, role.role_code)
+            }
+            const modules = await service.getModules()
+            for (const mod of DEFAULT_MODULES) {
+                assert.equal(modules.filter(m => m.module_code === mod.module_code).length, 1, mod.module_code)
+            }
+            const permissions = await service.getAllPermissions()
+            assert.ok(permissions.length >= DEFAULT_GRANTS.length)
+
+            const superAdmin = roles.find(r => r.role_code === SUPER_ADMIN_ROLE)
+            const assignments = await service.getRoleAssignments(user.user_id)
+            assert.deepEqual(assignments.map(a => a.role_id), [superAdmin?.role_id])
+
+            await assert.rejects(seedPlatform(service, { adminEmail: `missing-${generateId()}@example.com` }), NotFoundError)
+        },
+    },
+    {
+        name: 'roles are created, updated and deactivated with unique role codes',
+        async run(createAdapter) {
+            const taken = roleRow({})
+            const service = await createAdapter({ ROLES: [taken] })
+            const code = `ROLE_${generateId().slice(0, 8)}`
+
+            const role = await service.createRole({ role_code: code, role_name: 'New', description: '', is_active: true })
+            assert.equal((await service.getRoleByCode(code))?.role_id, role.role_id)
+            await assert.rejects(
+                service.createRole({ role_code: code, role_name: 'Again', description: '', is_active: true }),
+                DuplicateError
+            )
+
+            const renamed = await service.updateRole(role.role_id, { role_name: 'Renamed' })
+            assert.equal(renamed.role_name, 'Renamed')
+            assert.equal(renamed.role_code, code)
+            await assert.rejects(service.updateRole(role.role_id, { role_code: taken.role_code }), DuplicateError)
+
+            await service.deactivateRole(role.role_id)
+            assert.equal((await service.getRoleById(role.role_id))?.is_active, false)
+            await assert.rejects(service.updateRole(generateId(), { role_name: 'Missing' }), NotFoundError)
+        },
+    },
+    {
+        name: 'modules keep unique codes and can\'t be renamed while permissions grant them',
+        async run(createAdapter) {
+            const role = roleRow({})
+            const service = await createAdapter({ ROLES: [role] })
+            // IDs and timestamps in the fixture are replaced on create
+            const fields = moduleRow({})
+
+            const created = await service.createModule(fields)
+            await assert.rejects(service.createModule(fields), DuplicateError)
+
+            const permission = await service.createPermission({
+                role_id: role.role_id,
+                module_code: created.module_code,
+                action: 'read',
+                resource: '*',
+                is_active: true,
+            })
+            const code = `MOD_${generateId().slice(0, 8)}`
+            await assert.rejects(service.updateModule(created.module_id, { module_code: code }), ConflictError)
+
+            await service.deactivatePermission(permission.permission_id)
+            assert.equal((await service.updateModule(created.module_id, { module_code: code })).module_code, code)
+
+            await service.deactivateModule(created.module_id)
+            const active = await service.getActiveModules()
+            assert.ok(!active.some(m => m.module_id === created.module_id))
+        },
+    },
+    {
+        name: 'updatePermission re-checks grants but not against the permission itself',
+        async run(createAdapter) {
+            const role = roleRow({})
+            const read = permissionRow({ role_id: role.role_id, module_code: '*', action: 'read' })
+            const write = permissionRow({ role_id: role.role_id, module_code: '*', action: 'write' })
+            const service = await createAdapter({ ROLES: [role], PERMISSIONS: [read, write] })
+
+            const updated = await service.updatePermission(read.permission_id, { resource: '*', conditions: '{"own":true}' })
+            assert.equal(updated.conditions, '{"own":true}')
+            await assert.rejects(service.updatePermission(write.permission_id, { action: 'read' }), DuplicateError)
+
+            await service.deactivateRole(role.role_id)
+            assert.equal((await service.deactivatePermission(write.permission_id)).is_active, false)
+            await assert.rejects(service.deactivatePermission(generateId()), NotFoundError)
+        },
+    },
+    {
+        name: 'site config allows one active entry per site and key',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const site = `SITE_${generateId().slice(0, 8)}`
+            const fields = {
+                site_code: site,
+                config_key: 'timezone',
+                config_value: 'UTC',
+                data_type: 'string' as const,
+                description: '',
+                is_active: true,
+            }
+
+            const entry = await service.createSiteConfig(fields)
+            await assert.rejects(service.createSiteConfig(fields), DuplicateError)
+
+            await service.updateSiteConfig(entry.config_id, { config_value: 'Asia/Jakarta' })
+            assert.equal(await service.getConfigValue(site, 'timezone'), 'Asia/Jakarta')
+
+            await service.deactivateSiteConfig(entry.config_id)
+            assert.equal(await service.getConfigValue(site, 'timezone'), null)
+            await service.createSiteConfig(fields)
+
+            const all = (await service.getAllSiteConfig()).filter(c => c.site_code === site)
+            assert.deepEqual(all.map(c => c.is_active).sort(), [false, true])
+        },
+    },
+    {
+        name: 'cache entries count hits, replace on set and expire',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const key = `conformance:${generateId()}`
+
+            assert.equal(await service.getCacheEntry(key), null)
+
+            await service.setCacheEntry(key, 'first', 60_000)
+            await service.setCacheEntry(key, 'second', 60_000)
+            await service.getCacheEntry(key)
+            const entry = await service.getCacheEntry(key)
+            assert.equal(entry?.cache_value, 'second')
+            assert.equal(entry?.hit_count, 2)
+
+            await service.setCacheEntry(key, 'stale', -1000)
+            assert.equal(await service.getCacheEntry(key), null)
+        },
+    },
+    {
+        name: 'cache entries delete by key and prefix; sweep removes only expired ones',
+        async run(createAdapter) {
+            const service = await createAdapter({})
+            const prefix = `conformance-${generateId()}:`
+
+            await service.setCacheEntry(`${prefix}a`, '1', 60_000)
+            await service.setCacheEntry(`${prefix}b`, '2', 60_000)
+            await service.setCacheEntry(`${prefix}c`, '3', 60_000)
+            await service.setCacheEntry(`${prefix}old`, '4', -1000)
+
+            assert.ok((await service.sweepCacheEntries()) >= 1)
+            assert.equal(await service.getCacheEntry(`${prefix}b`).then(e => e?.cache_value), '2')
+
+            assert.equal(await service.deleteCacheEntry(`${prefix}a`), true)
+            assert.equal(await service.deleteCacheEntry(`${prefix}a`), false)
+
+            assert.equal(await service.deleteCacheEntries(prefix), 2)
+            assert.equal(await service.getCacheEntry(`${prefix}c`), null)
+        },
+    },
+]
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/**
+ * Run every case; failures are collected, not thrown
+ */
+export async function runConformanceSuite(
+    createAdapter: AdapterFactory,
+    cases: ConformanceCase[] = conformanceCases
+): Promise<ConformanceResult> {
+    const result: ConformanceResult = { passed: [], failed: [] }
+
+    for (const testCase of cases) {
+        try {
+            await testCase.run(createAdapter)
+            result.passed.push(testCase.name)
+        } catch (error) {
+            result.failed.push({ name: testCase.name, error })
+        }
+    }
+
+    return result
+}
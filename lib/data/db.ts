@@ -0,0 +1,1095 @@
+/**
+ * PostgreSQL Data Adapter
+ *
+ * Implements DataService interface using PostgreSQL as storage.
+ * Schema lives in lib/db/migrations (mirrors the Sheets schema). Unique
+ * indexes back the integrity checks, so concurrent writes can't both pass them.
+ */
+
+import type { PoolClient } from 'pg'
+import { getDbClient } from '../db/client'
+import { DB_CONFIG } from '../db/config'
+import { generateId, now } from '../utils'
+import { DuplicateError, NotFoundError } from './errors'
+import { checkModule, checkPermission, checkRole, checkRoleAssignment, checkSiteConfig } from './integrity'
+import { ROLE_ASSIGNMENT_QUERY, SYSTEM_LOG_QUERY, TRANSACTION_LOG_QUERY, USER_QUERY, resolveQuery, toPage } from './query'
+import type { QuerySpec } from './query'
+import { assertEntity } from './schemas'
+import { cacheEntry } from './session-cache'
+import { TABLE_COLUMNS, TABLE_KEYS } from './tables'
+import type {
+    DataService,
+    DataTables,
+    TableName,
+    User,
+    Role,
+    RoleAssignment,
+    Module,
+    Permission,
+    SiteConfig,
+    TransactionLog,
+    SystemLog,
+    SessionCache,
+    UserAccess,
+    Page,
+    PageQuery,
+    UserFilter,
+    UserQuery,
+    RoleAssignmentFilter,
+    RoleAssignmentQuery,
+    TransactionLogFilter,
+    TransactionLogQuery,
+    SystemLogFilter,
+    SystemLogQuery,
+} from './types'
+
+const { tables } = DB_CONFIG
+
+type DbRow = Record<string, unknown>
+
+// ============================================================================
+// ROW MAPPERS
+// ============================================================================
+
+/**
+ * Timestamps come back as Date objects; the app works with ISO strings
+ */
+function toIso(value: unknown): string {
+    return value instanceof Date ? value.toISOString() : String(value)
+}
+
+function toOptionalIso(value: unknown): string | undefined {
+    return value === null || value === undefined ? undefined : toIso(value)
+}
+
+function toOptional(value: unknown): string | undefined {
+    return value === null || value === undefined || value === '' ? undefined : String(value)
+}
+
+function mapRowToUser(row: DbRow): User {
+    return {
+        user_id: row.user_id as string,
+        email: row.email as string,
+        name: row.name as string,
+        auth_provider: row.auth_provider as User['auth_provider'],
+        is_active: row.is_active as boolean,
+        created_at: toIso(row.created_at),
+        updated_at: toIso(row.updated_at),
+        last_login_at: toOptionalIso(row.last_login_at),
+        metadata: toOptional(row.metadata),
+    }
+}
+
+function mapRowToRole(row: DbRow): Role {
+    return {
+        role_id: row.role_id as string,
+        role_code: row.role_code as string,
+        role_name: row.role_name as string,
+        description: row.description as string,
+        is_active: row.is_active as boolean,
+        created_at: toIso(row.created_at),
+        updated_at: toIso(row.updated_at),
+    }
+}
+
+function mapRowToRoleAssignment(row: DbRow): RoleAssignment {
+    return {
+        assignment_id: row.assignment_id as string,
+        user_id: row.user_id as string,
+        role_id: row.role_id as string,
+        site_code: toOptional(row.site_code),
+        assigned_by: row.assigned_by as string,
+        assigned_at: toIso(row.assigned_at),
+        expires_at: toOptionalIso(row.expires_at),
+        is_active: row.is_active as boolean,
+    }
+}
+
+function mapRowToModule(row: DbRow): Module {
+    return {
+        module_id: row.module_id as string,
+        module_code: row.module_code as string,
+        module_name: row.module_name as string,
+        description: row.description as string,
+        icon: row.icon as string,
+        route: row.route as string,
+        is_active: row.is_active as boolean,
+        sort_order: Number(row.sort_order) || 0,
+        created_at: toIso(row.created_at),
+        updated_at: toIso(row.updated_at),
+    }
+}
+
+function mapRowToPermission(row: DbRow): Permission {
+    return {
+        permission_id: row.permission_id as string,
+        role_id: row.role_id as string,
+        module_code: row.module_code as string,
+        action: row.action as string,
+        resource: row.resource as string,
+        conditions: toOptional(row.conditions),
+        is_active: row.is_active as boolean,
+        created_at: toIso(row.created_at),
+        updated_at: toIso(row.updated_at),
+    }
+}
+
+function mapRowToSiteConfig(row: DbRow): SiteConfig {
+    return {
+        config_id: row.config_id as string,
+        site_code: row.site_code as string,
+        config_key: row.config_key as string,
+        config_value: row.config_value as string,
+        data_type: row.data_type as SiteConfig['data_type'],
+        description: row.description as string,
+        is_active: row.is_active as boolean,
+        created_at: toIso(row.created_at),
+        updated_at: toIso(row.updated_at),
+    }
+}
+
+function mapRowToTransactionLog(row: DbRow): TransactionLog {
+    return {
+        tx_id: row.tx_id as string,
+        user_id: row.user_id as string,
+        module_code: row.module_code as string,
+        action: row.action as string,
+        entity_type: row.entity_type as string,
+        entity_id: toOptional(row.entity_id),
+        status: row.status as TransactionLog['status'],
+        payload: toOptional(row.payload),
+        error_message: toOptional(row.error_message),
+        started_at: toIso(row.started_at),
+        completed_at: toOptionalIso(row.completed_at),
+        duration_ms: row.duration_ms === null || row.duration_ms === undefined
+            ? undefined
+            : Number(row.duration_ms),
+    }
+}
+
+function mapRowToSystemLog(row: DbRow): SystemLog {
+    return {
+        log_id: row.log_id as string,
+        timestamp: toIso(row.timestamp),
+        level: row.level as SystemLog['level'],
+        user_id: toOptional(row.user_id),
+        module_code: toOptional(row.module_code),
+        action: toOptional(row.action),
+        message: row.message as string,
+        details: toOptional(row.details),
+        correlation_id: toOptional(row.correlation_id),
+        ip_address: toOptional(row.ip_address),
+        user_agent: toOptional(row.user_agent),
+    }
+}
+
+function mapRowToSessionCache(row: DbRow): SessionCache {
+    return {
+        cache_key: row.cache_key as string,
+        cache_value: row.cache_value as string,
+        created_at: toIso(row.created_at),
+        expires_at: toIso(row.expires_at),
+        hit_count: Number(row.hit_count) || 0,
+    }
+}
+
+const ROW_MAPPERS: { [T in TableName]: (row: DbRow) => DataTables[T][number] } = {
+    USERS: mapRowToUser,
+    ROLES: mapRowToRole,
+    ROLE_ASSIGNMENTS: mapRowToRoleAssignment,
+    MODULES: mapRowToModule,
+    PERMISSIONS: mapRowToPermission,
+    SITE_CONFIG: mapRowToSiteConfig,
+    TRANSACTION_LOG: mapRowToTransactionLog,
+    SYSTEM_LOG: mapRowToSystemLog,
+    SESSION_CACHE: mapRowToSessionCache,
+}
+
+// SQLSTATE unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+/**
+ * Run a write; a unique index violation (a concurrent write got in after our
+ * integrity check passed) becomes DuplicateError. `recheck` re-runs the check,
+ * which now sees the other row and throws with its key.
+ */
+async function guardUnique<R>(table: TableName, write: () => Promise<R>, recheck?: () => unknown): Promise<R> {
+    try {
+        return await write()
+    } catch (error) {
+        const { code, constraint, detail } = error as { code?: string; constraint?: string; detail?: string }
+        if (code !== UNIQUE_VIOLATION) throw error
+
+        await recheck?.()
+        throw new DuplicateError(table, constraint ?? '', `Duplicate ${table} row: ${detail ?? constraint}`)
+    }
+}
+
+// Rows per INSERT when bulk importing (stays well under the 65535 parameter limit)
+const IMPORT_BATCH_SIZE = 500
+
+/**
+ * Insert rows in batches, updating rows whose primary key already exists
+ */
+async function upsertRows<T extends TableName>(client: PoolClient, table: T, rows: DataTables[T]): Promise<void> {
+    const columns = TABLE_COLUMNS[table] as string[]
+    const key = TABLE_KEYS[table] as string
+    const updates = columns
+        .filter(column => column !== key)
+        .map(column => `${column} = EXCLUDED.${column}`)
+        .join(', ')
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+        const batch = rows.slice(start, start + IMPORT_BATCH_SIZE) as unknown as Record<string, unknown>[]
+        const params: unknown[] = []
+        const values = batch.map(row => {
+            const placeholders = columns.map(column => {
+                params.push(row[column] ?? null)
+                return `$${params.length}`
+            })
+            return `(${placeholders.join(', ')})`
+        })
+
+        await client.query(
+            `INSERT INTO ${tables[table]} (${columns.join(', ')})
+             VALUES ${values.join(', ')}
+             ON CONFLICT (${key}) DO UPDATE SET ${updates}`,
+            params
+        )
+    }
+}
+
+/**
+ * Insert one row (every column of its table); `recheck` is its integrity check
+ */
+async function insertRow<T extends TableName>(
+    table: T,
+    row: DataTables[T][number],
+    recheck?: () => Promise<void>
+): Promise<void> {
+    const columns = TABLE_COLUMNS[table] as string[]
+    const record = row as unknown as Record<string, unknown>
+
+    await guardUnique(
+        table,
+        () =>
+            getDbClient().query(
+                `INSERT INTO ${tables[table]} (${columns.join(', ')})
+                 VALUES (${columns.map((_, index) => `$${index + 1}`).join(', ')})`,
+                columns.map(column => record[column] ?? null)
+            ),
+        recheck
+    )
+}
+
+/**
+ * Apply `update` to the row with primary key `id` and write back only the
+ * columns it changed, so concurrent updates of other columns (a login's
+ * last_login_at, an admin's is_active) are not overwritten with stale values.
+ * The primary key never changes. `update` may throw (e.g. an integrity check)
+ * to write nothing.
+ */
+async function updateRow<T extends TableName>(
+    table: T,
+    id: string,
+    update: (row: DataTables[T][number]) => DataTables[T][number] | Promise<DataTables[T][number]>,
+    notFoundMessage: string
+): Promise<DataTables[T][number]> {
+    const key = TABLE_KEYS[table] as string
+    const [existing] = await getDbClient().query(`SELECT * FROM ${tables[table]} WHERE ${key} = $1`, [id])
+
+    if (!existing) {
+        throw new NotFoundError(table, id, notFoundMessage)
+    }
+
+    const before = ROW_MAPPERS[table](existing) as unknown as Record<string, unknown>
+    const updated = { ...(await update(ROW_MAPPERS[table](existing))), [key]: id } as DataTables[T][number]
+    assertEntity(table, updated)
+
+    const record = updated as unknown as Record<string, unknown>
+    const changed = (TABLE_COLUMNS[table] as string[]).filter(
+        column => column !== key && JSON.stringify(record[column] ?? null) !== JSON.stringify(before[column] ?? null)
+    )
+    if (changed.length === 0) return updated
+
+    const rows = await guardUnique(
+        table,
+        () =>
+            getDbClient().query(
+                `UPDATE ${tables[table]}
+                 SET ${changed.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+                 WHERE ${key} = $1
+                 RETURNING ${key}`,
+                [id, ...changed.map(column => record[column] ?? null)]
+            ),
+        () => update(ROW_MAPPERS[table](existing))
+    )
+
+    if (rows.length === 0) {
+        throw new NotFoundError(table, id, notFoundMessage)
+    }
+    return updated
+}
+
+// ============================================================================
+// PAGED QUERIES
+// ============================================================================
+
+// Adds a query parameter and returns its placeholder
+type AddParam = (value: unknown) => string
+
+function userFilters(filter: UserFilter, param: AddParam): string[] {
+    const clauses: string[] = []
+    if (filter.isActive !== undefined) clauses.push(`is_active = ${param(filter.isActive)}`)
+    if (filter.emailContains) clauses.push(`STRPOS(LOWER(email), LOWER(${param(filter.emailContains)})) > 0`)
+    if (filter.authProvider) clauses.push(`auth_provider = ${param(filter.authProvider)}`)
+    return clauses
+}
+
+function roleAssignmentFilters(filter: RoleAssignmentFilter, param: AddParam): string[] {
+    const clauses: string[] = []
+    if (filter.userId) clauses.push(`user_id = ${param(filter.userId)}`)
+    if (filter.roleId) clauses.push(`role_id = ${param(filter.roleId)}`)
+    if (filter.siteCode) clauses.push(`site_code = ${param(filter.siteCode)}`)
+    if (filter.isActive !== undefined) clauses.push(`is_active = ${param(filter.isActive)}`)
+    return clauses
+}
+
+function transactionLogFilters(filter: TransactionLogFilter, param: AddParam): string[] {
+    const clauses: string[] = []
+    if (filter.userId) clauses.push(`user_id = ${param(filter.userId)}`)
+    if (filter.moduleCode) clauses.push(`module_code = ${param(filter.moduleCode)}`)
+    if (filter.action) clauses.push(`action = ${param(filter.action)}`)
+    if (filter.status) clauses.push(`status = ${param(filter.status)}`)
+    if (filter.startedAfter) clauses.push(`started_at >= ${param(filter.startedAfter)}::timestamptz`)
+    if (filter.startedBefore) clauses.push(`started_at < ${param(filter.startedBefore)}::timestamptz`)
+    return clauses
+}
+
+function systemLogFilters(filter: SystemLogFilter, param: AddParam): string[] {
+    const clauses: string[] = []
+    if (filter.level) clauses.push(`level = ${param(filter.level)}`)
+    if (filter.userId) clauses.push(`user_id = ${param(filter.userId)}`)
+    if (filter.moduleCode) clauses.push(`module_code = ${param(filter.moduleCode)}`)
+    if (filter.correlationId) clauses.push(`correlation_id = ${param(filter.correlationId)}`)
+    if (filter.after) clauses.push(`timestamp >= ${param(filter.after)}::timestamptz`)
+    if (filter.before) clauses.push(`timestamp < ${param(filter.before)}::timestamptz`)
+    return clauses
+}
+
+/**
+ * Keyset-paginated SELECT; same ordering and cursors as runQuery()
+ */
+async function queryPage<T, F, S extends string>(
+    table: TableName,
+    spec: QuerySpec<T, F, S>,
+    query: PageQuery<F, S> | undefined,
+    filters: (filter: F, param: AddParam) => string[],
+    mapRow: (row: DbRow) => T
+): Promise<Page<T>> {
+    const resolved = resolveQuery(spec, query)
+    const params: unknown[] = []
+    const param: AddParam = value => {
+        params.push(value)
+        return `$${params.length}`
+    }
+
+    const clauses = filters(resolved.filter, param)
+    const isTimestamp = spec.timestampFields.includes(resolved.sortBy)
+    // Text compares in code-point order, like runQuery()
+    const sortColumn = isTimestamp ? resolved.sortBy : `${resolved.sortBy} COLLATE "C"`
+    const keyColumn = `${spec.key} COLLATE "C"`
+    const direction = resolved.sortDir === 'asc' ? 'ASC' : 'DESC'
+
+    if (resolved.cursor) {
+        const operator = resolved.sortDir === 'asc' ? '>' : '<'
+        const value = isTimestamp ? `${param(resolved.cursor.value)}::timestamptz` : param(resolved.cursor.value)
+        const id = param(resolved.cursor.id)
+        clauses.push(`(${sortColumn} ${operator} ${value} OR (${resolved.sortBy} = ${value} AND ${keyColumn} ${operator} ${id}))`)
+    }
+
+    const rows = await getDbClient().query(
+        `SELECT * FROM ${tables[table]}
+         ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+         ORDER BY ${sortColumn} ${direction}, ${keyColumn} ${direction}
+         LIMIT ${param(resolved.limit + 1)}`,
+        params
+    )
+
+    return toPage(spec, resolved, rows.map(mapRow))
+}
+
+// ============================================================================
+// POSTGRESQL DATA ADAPTER
+// ============================================================================
+
+export const dbAdapter: DataService = {
+    // ==========================================================================
+    // USERS
+    // ==========================================================================
+
+    async getUsers(): Promise<User[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.USERS} ORDER BY created_at, user_id`
+        )
+        return rows.map(mapRowToUser)
+    },
+
+    async getUserById(userId: string): Promise<User | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.USERS} WHERE user_id = $1`,
+            [userId]
+        )
+        return rows[0] ? mapRowToUser(rows[0]) : null
+    },
+
+    async getUserByEmail(email: string): Promise<User | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.USERS} WHERE LOWER(email) = LOWER($1) ORDER BY created_at LIMIT 1`,
+            [email]
+        )
+        return rows[0] ? mapRowToUser(rows[0]) : null
+    },
+
+    async createUser(user: Omit<User, 'created_at' | 'updated_at'> & Partial<Pick<User, 'user_id'>>): Promise<User> {
+        const newUser: User = {
+            ...user,
+            user_id: user.user_id || generateId(), // Use provided ID or generate new one
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        assertEntity('USERS', newUser)
+
+        await getDbClient().query(
+            `INSERT INTO ${tables.USERS}
+                (user_id, email, name, auth_provider, is_active, created_at, updated_at, last_login_at, metadata)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [
+                newUser.user_id,
+                newUser.email,
+                newUser.name,
+                newUser.auth_provider,
+                newUser.is_active,
+                newUser.created_at,
+                newUser.updated_at,
+                newUser.last_login_at || null,
+                newUser.metadata || null,
+            ]
+        )
+
+        return newUser
+    },
+
+    async updateUser(userId: string, updates: Partial<User>): Promise<User> {
+        return updateRow(
+            'USERS',
+            userId,
+            user => ({ ...user, ...updates, updated_at: now() }),
+            `User not found: ${userId}`
+        )
+    },
+
+    async queryUsers(query?: UserQuery): Promise<Page<User>> {
+        return queryPage('USERS', USER_QUERY, query, userFilters, mapRowToUser)
+    },
+
+    // ==========================================================================
+    // ROLES
+    // ==========================================================================
+
+    async getRoles(): Promise<Role[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.ROLES} ORDER BY created_at, role_id`
+        )
+        return rows.map(mapRowToRole)
+    },
+
+    async getRoleById(roleId: string): Promise<Role | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.ROLES} WHERE role_id = $1`,
+            [roleId]
+        )
+        return rows[0] ? mapRowToRole(rows[0]) : null
+    },
+
+    async getRoleByCode(roleCode: string): Promise<Role | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.ROLES} WHERE role_code = $1 ORDER BY created_at LIMIT 1`,
+            [roleCode]
+        )
+        return rows[0] ? mapRowToRole(rows[0]) : null
+    },
+
+    async createRole(role: Omit<Role, 'role_id' | 'created_at' | 'updated_at'>): Promise<Role> {
+        const newRole: Role = {
+            ...role,
+            role_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        assertEntity('ROLES', newRole)
+        await checkRole(this, newRole)
+        await insertRow('ROLES', newRole, () => checkRole(this, newRole))
+        return newRole
+    },
+
+    async updateRole(
+        roleId: string,
+        updates: Partial<Omit<Role, 'role_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Role> {
+        return updateRow(
+            'ROLES',
+            roleId,
+            async role => {
+                const updatedRole = { ...role, ...updates, updated_at: now() }
+                await checkRole(this, updatedRole)
+                return updatedRole
+            },
+            `Role not found: ${roleId}`
+        )
+    },
+
+    async deactivateRole(roleId: string): Promise<Role> {
+        return this.updateRole(roleId, { is_active: false })
+    },
+
+    // ==========================================================================
+    // ROLE ASSIGNMENTS
+    // ==========================================================================
+
+    async getRoleAssignments(userId: string): Promise<RoleAssignment[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.ROLE_ASSIGNMENTS}
+             WHERE user_id = $1 AND is_active
+             ORDER BY assigned_at, assignment_id`,
+            [userId]
+        )
+        return rows.map(mapRowToRoleAssignment)
+    },
+
+    async getRoleAssignmentById(assignmentId: string): Promise<RoleAssignment | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.ROLE_ASSIGNMENTS} WHERE assignment_id = $1`,
+            [assignmentId]
+        )
+        return rows[0] ? mapRowToRoleAssignment(rows[0]) : null
+    },
+
+    async assignRole(
+        assignment: Omit<RoleAssignment, 'assignment_id' | 'assigned_at'>
+    ): Promise<RoleAssignment> {
+        const newAssignment: RoleAssignment = {
+            ...assignment,
+            assignment_id: generateId(),
+            assigned_at: now(),
+        }
+
+        assertEntity('ROLE_ASSIGNMENTS', newAssignment)
+        await checkRoleAssignment(this, newAssignment)
+
+        await guardUnique(
+            'ROLE_ASSIGNMENTS',
+            () =>
+                getDbClient().query(
+                    `INSERT INTO ${tables.ROLE_ASSIGNMENTS}
+                        (assignment_id, user_id, role_id, site_code, assigned_by, assigned_at, expires_at, is_active)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+                    [
+                        newAssignment.assignment_id,
+                        newAssignment.user_id,
+                        newAssignment.role_id,
+                        newAssignment.site_code || null,
+                        newAssignment.assigned_by,
+                        newAssignment.assigned_at,
+                        newAssignment.expires_at || null,
+                        newAssignment.is_active,
+                    ]
+                ),
+            () => checkRoleAssignment(this, newAssignment)
+        )
+
+        return newAssignment
+    },
+
+    async revokeRole(assignmentId: string): Promise<void> {
+        const rows = await getDbClient().query(
+            `UPDATE ${tables.ROLE_ASSIGNMENTS} SET is_active = FALSE
+             WHERE assignment_id = $1
+             RETURNING assignment_id`,
+            [assignmentId]
+        )
+
+        if (rows.length === 0) {
+            throw new NotFoundError('ROLE_ASSIGNMENTS', assignmentId, `Assignment not found: ${assignmentId}`)
+        }
+    },
+
+    async queryRoleAssignments(query?: RoleAssignmentQuery): Promise<Page<RoleAssignment>> {
+        return queryPage('ROLE_ASSIGNMENTS', ROLE_ASSIGNMENT_QUERY, query, roleAssignmentFilters, mapRowToRoleAssignment)
+    },
+
+    // ==========================================================================
+    // MODULES
+    // ==========================================================================
+
+    async getModules(): Promise<Module[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.MODULES} ORDER BY created_at, module_id`
+        )
+        return rows.map(mapRowToModule)
+    },
+
+    async getActiveModules(): Promise<Module[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.MODULES} WHERE is_active ORDER BY sort_order, created_at, module_id`
+        )
+        return rows.map(mapRowToModule)
+    },
+
+    async getModuleById(moduleId: string): Promise<Module | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.MODULES} WHERE module_id = $1`,
+            [moduleId]
+        )
+        return rows[0] ? mapRowToModule(rows[0]) : null
+    },
+
+    async createModule(module: Omit<Module, 'module_id' | 'created_at' | 'updated_at'>): Promise<Module> {
+        const newModule: Module = {
+            ...module,
+            module_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        assertEntity('MODULES', newModule)
+        await checkModule(this, newModule)
+        await insertRow('MODULES', newModule, () => checkModule(this, newModule))
+        return newModule
+    },
+
+    async updateModule(
+        moduleId: string,
+        updates: Partial<Omit<Module, 'module_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Module> {
+        return updateRow(
+            'MODULES',
+            moduleId,
+            async module => {
+                const updatedModule = { ...module, ...updates, updated_at: now() }
+                await checkModule(this, updatedModule, module)
+                return updatedModule
+            },
+            `Module not found: ${moduleId}`
+        )
+    },
+
+    async deactivateModule(moduleId: string): Promise<Module> {
+        return this.updateModule(moduleId, { is_active: false })
+    },
+
+    // ==========================================================================
+    // PERMISSIONS
+    // ==========================================================================
+
+    async getPermissions(roleId: string): Promise<Permission[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.PERMISSIONS}
+             WHERE role_id = $1 AND is_active
+             ORDER BY created_at, permission_id`,
+            [roleId]
+        )
+        return rows.map(mapRowToPermission)
+    },
+
+    async getAllPermissions(): Promise<Permission[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.PERMISSIONS} WHERE is_active ORDER BY created_at, permission_id`
+        )
+        return rows.map(mapRowToPermission)
+    },
+
+    async getPermissionById(permissionId: string): Promise<Permission | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.PERMISSIONS} WHERE permission_id = $1`,
+            [permissionId]
+        )
+        return rows[0] ? mapRowToPermission(rows[0]) : null
+    },
+
+    async createPermission(
+        permission: Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>
+    ): Promise<Permission> {
+        const newPermission: Permission = {
+            ...permission,
+            permission_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        assertEntity('PERMISSIONS', newPermission)
+        await checkPermission(this, newPermission)
+
+        await guardUnique(
+            'PERMISSIONS',
+            () =>
+                getDbClient().query(
+                    `INSERT INTO ${tables.PERMISSIONS}
+                        (permission_id, role_id, module_code, action, resource, conditions, is_active, created_at, updated_at)
+                     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+                    [
+                        newPermission.permission_id,
+                        newPermission.role_id,
+                        newPermission.module_code,
+                        newPermission.action,
+                        newPermission.resource,
+                        newPermission.conditions || null,
+                        newPermission.is_active,
+                        newPermission.created_at,
+                        newPermission.updated_at,
+                    ]
+                ),
+            () => checkPermission(this, newPermission)
+        )
+
+        return newPermission
+    },
+
+    async updatePermission(
+        permissionId: string,
+        updates: Partial<Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Permission> {
+        return updateRow(
+            'PERMISSIONS',
+            permissionId,
+            async permission => {
+                const updatedPermission = { ...permission, ...updates, updated_at: now() }
+                // Deactivating never conflicts, even on an inactive role
+                if (updatedPermission.is_active) {
+                    await checkPermission(this, updatedPermission)
+                }
+                return updatedPermission
+            },
+            `Permission not found: ${permissionId}`
+        )
+    },
+
+    async deactivatePermission(permissionId: string): Promise<Permission> {
+        return this.updatePermission(permissionId, { is_active: false })
+    },
+
+    // ==========================================================================
+    // USER ACCESS
+    // ==========================================================================
+
+    async getUserAccess(userId: string): Promise<UserAccess> {
+        const assignments = await this.getRoleAssignments(userId)
+        const roleIds = [...new Set(assignments.map(a => a.role_id))]
+
+        if (roleIds.length === 0) {
+            return { assignments, roles: [], permissions: [] }
+        }
+
+        const [roles, permissions] = await Promise.all([
+            getDbClient().query(
+                `SELECT * FROM ${tables.ROLES} WHERE role_id = ANY($1) ORDER BY created_at, role_id`,
+                [roleIds]
+            ),
+            getDbClient().query(
+                `SELECT * FROM ${tables.PERMISSIONS}
+                 WHERE role_id = ANY($1) AND is_active
+                 ORDER BY created_at, permission_id`,
+                [roleIds]
+            ),
+        ])
+
+        return {
+            assignments,
+            roles: roles.map(mapRowToRole),
+            permissions: permissions.map(mapRowToPermission),
+        }
+    },
+
+    // ==========================================================================
+    // SITE CONFIG
+    // ==========================================================================
+
+    async getSiteConfig(siteCode: string): Promise<SiteConfig[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.SITE_CONFIG}
+             WHERE site_code = $1 AND is_active
+             ORDER BY created_at, config_id`,
+            [siteCode]
+        )
+        return rows.map(mapRowToSiteConfig)
+    },
+
+    async getConfigValue(siteCode: string, key: string): Promise<string | null> {
+        const configs = await this.getSiteConfig(siteCode)
+        const config = configs.find(c => c.config_key === key)
+        return config?.config_value || null
+    },
+
+    async getAllSiteConfig(): Promise<SiteConfig[]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.SITE_CONFIG} ORDER BY created_at, config_id`
+        )
+        return rows.map(mapRowToSiteConfig)
+    },
+
+    async getSiteConfigById(configId: string): Promise<SiteConfig | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.SITE_CONFIG} WHERE config_id = $1`,
+            [configId]
+        )
+        return rows[0] ? mapRowToSiteConfig(rows[0]) : null
+    },
+
+    async createSiteConfig(config: Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>): Promise<SiteConfig> {
+        const newConfig: SiteConfig = {
+            ...config,
+            config_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        assertEntity('SITE_CONFIG', newConfig)
+        await checkSiteConfig(this, newConfig)
+        await insertRow('SITE_CONFIG', newConfig, () => checkSiteConfig(this, newConfig))
+        return newConfig
+    },
+
+    async updateSiteConfig(
+        configId: string,
+        updates: Partial<Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>>
+    ): Promise<SiteConfig> {
+        return updateRow(
+            'SITE_CONFIG',
+            configId,
+            async config => {
+                const updatedConfig = { ...config, ...updates, updated_at: now() }
+                await checkSiteConfig(this, updatedConfig)
+                return updatedConfig
+            },
+            `Site config not found: ${configId}`
+        )
+    },
+
+    async deactivateSiteConfig(configId: string): Promise<SiteConfig> {
+        return this.updateSiteConfig(configId, { is_active: false })
+    },
+
+    // ==========================================================================
+    // TRANSACTION LOG
+    // ==========================================================================
+
+    async getTransactionLog(txId: string): Promise<TransactionLog | null> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables.TRANSACTION_LOG} WHERE tx_id = $1`,
+            [txId]
+        )
+        return rows[0] ? mapRowToTransactionLog(rows[0]) : null
+    },
+
+    async createTransactionLog(
+        log: Omit<TransactionLog, 'tx_id' | 'started_at'>
+    ): Promise<TransactionLog> {
+        const newLog: TransactionLog = {
+            ...log,
+            tx_id: generateId(),
+            started_at: now(),
+        }
+
+        assertEntity('TRANSACTION_LOG', newLog)
+
+        await getDbClient().query(
+            `INSERT INTO ${tables.TRANSACTION_LOG}
+                (tx_id, user_id, module_code, action, entity_type, entity_id, status,
+                 payload, error_message, started_at, completed_at, duration_ms)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+            [
+                newLog.tx_id,
+                newLog.user_id,
+                newLog.module_code,
+                newLog.action,
+                newLog.entity_type,
+                newLog.entity_id || null,
+                newLog.status,
+                newLog.payload || null,
+                newLog.error_message || null,
+                newLog.started_at,
+                newLog.completed_at || null,
+                newLog.duration_ms ?? null,
+            ]
+        )
+
+        return newLog
+    },
+
+    async updateTransactionLog(txId: string, updates: Partial<TransactionLog>): Promise<void> {
+        const existing = await this.getTransactionLog(txId)
+
+        if (!existing) {
+            throw new NotFoundError('TRANSACTION_LOG', txId, `Transaction log not found: ${txId}`)
+        }
+
+        const updatedLog = { ...existing, ...updates }
+        assertEntity('TRANSACTION_LOG', updatedLog)
+
+        await getDbClient().query(
+            `UPDATE ${tables.TRANSACTION_LOG}
+             SET user_id = $2, module_code = $3, action = $4, entity_type = $5, entity_id = $6,
+                 status = $7, payload = $8, error_message = $9, started_at = $10,
+                 completed_at = $11, duration_ms = $12
+             WHERE tx_id = $1`,
+            [
+                txId,
+                updatedLog.user_id,
+                updatedLog.module_code,
+                updatedLog.action,
+                updatedLog.entity_type,
+                updatedLog.entity_id || null,
+                updatedLog.status,
+                updatedLog.payload || null,
+                updatedLog.error_message || null,
+                updatedLog.started_at,
+                updatedLog.completed_at || null,
+                updatedLog.duration_ms ?? null,
+            ]
+        )
+    },
+
+    async queryTransactionLogs(query?: TransactionLogQuery): Promise<Page<TransactionLog>> {
+        return queryPage('TRANSACTION_LOG', TRANSACTION_LOG_QUERY, query, transactionLogFilters, mapRowToTransactionLog)
+    },
+
+    // ==========================================================================
+    // SYSTEM LOG
+    // ==========================================================================
+
+    async createSystemLog(log: Omit<SystemLog, 'log_id' | 'timestamp'>): Promise<void> {
+        const newLog: SystemLog = {
+            ...log,
+            log_id: generateId(),
+            timestamp: now(),
+        }
+
+        assertEntity('SYSTEM_LOG', newLog)
+
+        await getDbClient().query(
+            `INSERT INTO ${tables.SYSTEM_LOG}
+                (log_id, timestamp, level, user_id, module_code, action, message,
+                 details, correlation_id, ip_address, user_agent)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+            [
+                newLog.log_id,
+                newLog.timestamp,
+                newLog.level,
+                newLog.user_id || null,
+                newLog.module_code || null,
+                newLog.action || null,
+                newLog.message,
+                newLog.details || null,
+                newLog.correlation_id || null,
+                newLog.ip_address || null,
+                newLog.user_agent || null,
+            ]
+        )
+    },
+
+    async querySystemLogs(query?: SystemLogQuery): Promise<Page<SystemLog>> {
+        return queryPage('SYSTEM_LOG', SYSTEM_LOG_QUERY, query, systemLogFilters, mapRowToSystemLog)
+    },
+
+    // ==========================================================================
+    // SESSION CACHE
+    // ==========================================================================
+
+    async getCacheEntry(key: string): Promise<SessionCache | null> {
+        const rows = await getDbClient().query(
+            `UPDATE ${tables.SESSION_CACHE} SET hit_count = hit_count + 1
+             WHERE cache_key = $1 AND expires_at > $2
+             RETURNING *`,
+            [key, now()]
+        )
+        return rows[0] ? mapRowToSessionCache(rows[0]) : null
+    },
+
+    async setCacheEntry(key: string, value: string, ttlMs: number): Promise<SessionCache> {
+        const entry = cacheEntry(key, value, ttlMs)
+        assertEntity('SESSION_CACHE', entry)
+
+        await getDbClient().query(
+            `INSERT INTO ${tables.SESSION_CACHE} (cache_key, cache_value, created_at, expires_at, hit_count)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (cache_key) DO UPDATE SET
+                 cache_value = EXCLUDED.cache_value, created_at = EXCLUDED.created_at,
+                 expires_at = EXCLUDED.expires_at, hit_count = EXCLUDED.hit_count`,
+            [entry.cache_key, entry.cache_value, entry.created_at, entry.expires_at, entry.hit_count]
+        )
+
+        return entry
+    },
+
+    async deleteCacheEntry(key: string): Promise<boolean> {
+        const rows = await getDbClient().query(
+            `DELETE FROM ${tables.SESSION_CACHE} WHERE cache_key = $1 RETURNING cache_key`,
+            [key]
+        )
+        return rows.length > 0
+    },
+
+    async deleteCacheEntries(prefix: string): Promise<number> {
+        const rows = await getDbClient().query(
+            `DELETE FROM ${tables.SESSION_CACHE} WHERE STRPOS(cache_key, $1) = 1 RETURNING cache_key`,
+            [prefix]
+        )
+        return rows.length
+    },
+
+    async sweepCacheEntries(): Promise<number> {
+        const rows = await getDbClient().query(
+            `DELETE FROM ${tables.SESSION_CACHE} WHERE expires_at <= $1 RETURNING cache_key`,
+            [now()]
+        )
+        return rows.length
+    },
+
+    // ==========================================================================
+    // BULK TABLE ACCESS
+    // ==========================================================================
+
+    async exportTable<T extends TableName>(table: T): Promise<DataTables[T]> {
+        const rows = await getDbClient().query(
+            `SELECT * FROM ${tables[table]} ORDER BY ${String(TABLE_KEYS[table])}`
+        )
+        return rows.map(ROW_MAPPERS[table]) as DataTables[T]
+    },
+
+    async importTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void> {
+        rows.forEach(row => assertEntity(table, row))
+
+        await guardUnique(table, () => getDbClient().transaction(client => upsertRows(client, table, rows)))
+    },
+
+    async replaceTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void> {
+        rows.forEach(row => assertEntity(table, row))
+
+        await guardUnique(table, () =>
+            getDbClient().transaction(async client => {
+                await client.query(`DELETE FROM ${tables[table]}`)
+                await upsertRows(client, table, rows)
+            })
+        )
+    },
+
+    // ==========================================================================
+    // DURABILITY
+    // ==========================================================================
+
+    async flush(): Promise<void> {
+        // Every write is committed before its call resolves; nothing is buffered
+    },
+}
@@ -0,0 +1,78 @@
+/**
+ * Data Errors
+ *
+ * Typed errors thrown by DataService adapters, so callers can tell
+ * expected failures apart from outages.
+ */
+
+/**
+ * A row (or a row it references) doesn't exist
+ */
+export class NotFoundError extends Error {
+    constructor(
+        public readonly table: string,
+        public readonly id: string,
+        message: string
+    ) {
+        super(message)
+        this.name = 'NotFoundError'
+    }
+}
+
+/**
+ * The write conflicts with the stored data: the row changed underneath a
+ * read-modify-write, or a referenced row is inactive
+ */
+export class ConflictError extends Error {
+    constructor(
+        public readonly table: string,
+        public readonly id: string,
+        message: string
+    ) {
+        super(message)
+        this.name = 'ConflictError'
+    }
+}
+
+/**
+ * An identical active row already exists (`id` is the existing row's key)
+ */
+export class DuplicateError extends ConflictError {
+    constructor(table: string, id: string, message: string) {
+        super(table, id, message)
+        this.name = 'DuplicateError'
+    }
+}
+
+/**
+ * An object failed its table schema before a write
+ */
+export class ValidationError extends Error {
+    constructor(
+        public readonly table: string,
+        public readonly issues: string[]
+    ) {
+        super(`Invalid ${table} row: ${issues.join('; ')}`)
+        this.name = 'ValidationError'
+    }
+}
+
+/**
+ * A query had an unknown sort field, a bad limit or a malformed cursor
+ */
+export class InvalidQueryError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'InvalidQueryError'
+    }
+}
+
+/**
+ * HTTP status for an error thrown by the data layer (API routes)
+ */
+export function httpStatusFor(error: unknown): number {
+    if (error instanceof InvalidQueryError || error instanceof ValidationError) return 400
+    if (error instanceof NotFoundError) return 404
+    if (error instanceof ConflictError) return 409
+    return 500
+}
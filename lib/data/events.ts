@@ -0,0 +1,298 @@
+/**
+ * Domain Events
+ *
+ * Entity writes through dataService publish typed events (user.created,
+ * role.assigned, config.updated, ...) to an in-process bus, so cache
+ * invalidation, auditing and notifications subscribe once instead of every
+ * caller remembering to trigger them.
+ *
+ * - Events carry the actor and the row before and after the write
+ * - The actor is the user of the surrounding withTransaction (see
+ *   runWithActor), 'SYSTEM' otherwise
+ * - Publishing waits for handlers (so e.g. a cache is invalidated before the
+ *   response goes out); a failing handler is logged, never fails the write
+ *
+ * Log, cache and flush methods publish nothing. getDataAdapter() returns the
+ * bare adapters, so migration and backup tooling doesn't publish either.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { now } from '../utils'
+import type {
+    DataService,
+    Module,
+    Permission,
+    Role,
+    RoleAssignment,
+    SiteConfig,
+    TableName,
+    User,
+} from './types'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+// `before` is null for rows the write created
+export interface Change<T> {
+    before: T | null
+    after: T
+}
+
+export interface DomainEventMap {
+    'user.created': Change<User>
+    'user.updated': Change<User>
+    'role.created': Change<Role>
+    'role.updated': Change<Role>
+    'role.assigned': Change<RoleAssignment>
+    'role.revoked': Change<RoleAssignment>
+    'module.created': Change<Module>
+    'module.updated': Change<Module>
+    'permission.created': Change<Permission>
+    'permission.updated': Change<Permission>
+    'config.created': Change<SiteConfig>
+    'config.updated': Change<SiteConfig>
+    // importTable (merge) or replaceTable (replace)
+    'table.imported': { table: TableName; rows: number; mode: 'merge' | 'replace' }
+}
+
+export type DomainEventType = keyof DomainEventMap
+
+export interface DomainEvent<K extends DomainEventType = DomainEventType> {
+    type: K
+    actor: string // user_id, or 'SYSTEM' outside a transaction
+    txId?: string // TRANSACTION_LOG row of the surrounding withTransaction
+    occurredAt: string
+    data: DomainEventMap[K]
+}
+
+export type DomainEventHandler<K extends DomainEventType = DomainEventType> = (
+    event: DomainEvent<K>
+) => void | Promise<void>
+
+// ============================================================================
+// ACTOR CONTEXT
+// ============================================================================
+
+export interface ActorContext {
+    actor: string
+    txId?: string
+}
+
+const actorContext = new AsyncLocalStorage<ActorContext>()
+
+/**
+ * Run `fn` with every event it publishes attributed to `context`
+ */
+export function runWithActor<R>(context: ActorContext, fn: () => Promise<R>): Promise<R> {
+    return actorContext.run(context, fn)
+}
+
+export function currentActor(): ActorContext {
+    return actorContext.getStore() ?? { actor: 'SYSTEM' }
+}
+
+// ============================================================================
+// EVENT BUS
+// ============================================================================
+
+export class DomainEventBus {
+    private handlers = new Map<DomainEventType | '*', Set<DomainEventHandler<never>>>()
+
+    /**
+     * Subscribe to one event type; returns the unsubscribe function
+     */
+    on<K extends DomainEventType>(type: K, handler: DomainEventHandler<K>): () => void {
+        return this.subscribe(type, handler as DomainEventHandler<never>)
+    }
+
+    /**
+     * Subscribe to every event
+     */
+    onAny(handler: DomainEventHandler): () => void {
+        return this.subscribe('*', handler as DomainEventHandler<never>)
+    }
+
+    /**
+     * Publish with the current actor; resolves once every handler settled
+     */
+    async publish<K extends DomainEventType>(type: K, data: DomainEventMap[K]): Promise<void> {
+        const event: DomainEvent<K> = { type, ...currentActor(), occurredAt: now(), data }
+        const handlers = [...(this.handlers.get(type) ?? []), ...(this.handlers.get('*') ?? [])]
+
+        const results = await Promise.allSettled(
+            handlers.map(async handler => (handler as DomainEventHandler<K>)(event))
+        )
+        for (const result of results) {
+            if (result.status === 'rejected') {
+                console.error(`❌ ${type} handler failed:`, result.reason)
+            }
+        }
+    }
+
+    private subscribe(type: DomainEventType | '*', handler: DomainEventHandler<never>): () => void {
+        const handlers = this.handlers.get(type) ?? new Set()
+        handlers.add(handler)
+        this.handlers.set(type, handlers)
+        return () => handlers.delete(handler)
+    }
+}
+
+export const domainEvents = new DomainEventBus()
+
+// ============================================================================
+// PUBLISHING SERVICE
+// ============================================================================
+
+/**
+ * `service` with every entity write publishing its domain event on `bus`
+ */
+export function withDomainEvents(service: DataService, bus: DomainEventBus = domainEvents): DataService {
+    // Unwrapped methods keep the adapter as `this`, so an adapter calling its
+    // own methods (deactivateRole → updateRole) publishes once
+    const bound = Object.fromEntries(
+        Object.entries(service).map(([name, value]) => [name, typeof value === 'function' ? value.bind(service) : value])
+    ) as unknown as DataService
+
+    return {
+        ...bound,
+
+        async createUser(user) {
+            const after = await service.createUser(user)
+            await bus.publish('user.created', { before: null, after })
+            return after
+        },
+
+        async updateUser(userId, updates) {
+            const before = await service.getUserById(userId)
+            const after = await service.updateUser(userId, updates)
+            await bus.publish('user.updated', { before, after })
+            return after
+        },
+
+        async createRole(role) {
+            const after = await service.createRole(role)
+            await bus.publish('role.created', { before: null, after })
+            return after
+        },
+
+        async updateRole(roleId, updates) {
+            const before = await service.getRoleById(roleId)
+            const after = await service.updateRole(roleId, updates)
+            await bus.publish('role.updated', { before, after })
+            return after
+        },
+
+        async deactivateRole(roleId) {
+            const before = await service.getRoleById(roleId)
+            const after = await service.deactivateRole(roleId)
+            await bus.publish('role.updated', { before, after })
+            return after
+        },
+
+        async assignRole(assignment) {
+            const after = await service.assignRole(assignment)
+            await bus.publish('role.assigned', { before: null, after })
+            return after
+        },
+
+        async revokeRole(assignmentId) {
+            const before = await service.getRoleAssignmentById(assignmentId)
+            await service.revokeRole(assignmentId)
+            // revokeRole only clears is_active; before is known to exist once it succeeded
+            if (before) {
+                await bus.publish('role.revoked', { before, after: { ...before, is_active: false } })
+            }
+        },
+
+        async createModule(module) {
+            const after = await service.createModule(module)
+            await bus.publish('module.created', { before: null, after })
+            return after
+        },
+
+        async updateModule(moduleId, updates) {
+            const before = await service.getModuleById(moduleId)
+            const after = await service.updateModule(moduleId, updates)
+            await bus.publish('module.updated', { before, after })
+            return after
+        },
+
+        async deactivateModule(moduleId) {
+            const before = await service.getModuleById(moduleId)
+            const after = await service.deactivateModule(moduleId)
+            await bus.publish('module.updated', { before, after })
+            return after
+        },
+
+        async createPermission(permission) {
+            const after = await service.createPermission(permission)
+            await bus.publish('permission.created', { before: null, after })
+            return after
+        },
+
+        async updatePermission(permissionId, updates) {
+            const before = await service.getPermissionById(permissionId)
+            const after = await service.updatePermission(permissionId, updates)
+            await bus.publish('permission.updated', { before, after })
+            return after
+        },
+
+        async deactivatePermission(permissionId) {
+            const before = await service.getPermissionById(permissionId)
+            const after = await service.deactivatePermission(permissionId)
+            await bus.publish('permission.updated', { before, after })
+            return after
+        },
+
+        async createSiteConfig(config) {
+            const after = await service.createSiteConfig(config)
+            await bus.publish('config.created', { before: null, after })
+            return after
+        },
+
+        async updateSiteConfig(configId, updates) {
+            const before = await service.getSiteConfigById(configId)
+            const after = await service.updateSiteConfig(configId, updates)
+            await bus.publish('config.updated', { before, after })
+            return after
+        },
+
+        async deactivateSiteConfig(configId) {
+            const before = await service.getSiteConfigById(configId)
+            const after = await service.deactivateSiteConfig(configId)
+            await bus.publish('config.updated', { before, after })
+            return after
+        },
+
+        async importTable(table, rows) {
+            await service.importTable(table, rows)
+            await bus.publish('table.imported', { table, rows: rows.length, mode: 'merge' })
+        },
+
+        async replaceTable(table, rows) {
+            await service.replaceTable(table, rows)
+            await bus.publish('table.imported', { table, rows: rows.length, mode: 'replace' })
+        },
+    }
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Record every event on `bus` in SYSTEM_LOG (action = event type, correlation_id = tx_id)
+ */
+export function auditDomainEvents(service: DataService, bus: DomainEventBus = domainEvents): () => void {
+    return bus.onAny(async event => {
+        await service.createSystemLog({
+            level: 'INFO',
+            user_id: event.actor,
+            action: event.type,
+            message: `${event.type} by ${event.actor}`,
+            details: JSON.stringify(event.data),
+            correlation_id: event.txId,
+        })
+    })
+}
@@ -2,18 +2,50 @@
  * Data Service Interface
  * 
  * This is the main data access layer for the application.
- * Currently uses Sheets adapter, but can be swapped for DB adapter later.
+ * The adapter is chosen by DATA_ADAPTER (see ./config):
+ * - sheets   → Google Sheets (default)
+ * - postgres → PostgreSQL (run `npm run db:migrate` first)
+ * - memory   → In-process tables, optionally seeded / persisted to SQLite
+ *
+ * Writes through dataService publish domain events (see ./events); every
+ * event is audited in SYSTEM_LOG, and user and role assignment events are
+ * sent to webhook subscribers (see lib/webhooks).
  */
 
 import { sheetsAdapter } from './sheets'
+import { dbAdapter } from './db'
+import { memoryAdapter } from './memory'
+import { DATA_CONFIG, assertDataConfig, type DataAdapterName } from './config'
+import { auditDomainEvents, withDomainEvents } from './events'
 import type { DataService } from './types'
+import { webhookDispatcher } from '../webhooks'
 
-// Export the current data service implementation
-export const dataService: DataService = sheetsAdapter
+const adapters: Record<DataAdapterName, DataService> = {
+    sheets: sheetsAdapter,
+    postgres: dbAdapter,
+    memory: memoryAdapter,
+}
 
-// When migrating to database, simply change this line:
-// import { dbAdapter } from './db'
-// export const dataService: DataService = dbAdapter
+assertDataConfig()
+
+// Export the configured data service implementation
+export const dataService: DataService = withDomainEvents(adapters[DATA_CONFIG.adapter])
+
+auditDomainEvents(dataService)
+webhookDispatcher.attach(dataService)
+
+/**
+ * Get a specific adapter regardless of DATA_ADAPTER (migration, backup tooling).
+ * Bare adapter: its writes publish no domain events.
+ */
+export function getDataAdapter(name: DataAdapterName): DataService {
+    const adapter = adapters[name]
+    if (!adapter) {
+        throw new Error(`Unknown data adapter: ${name}`)
+    }
+    return adapter
+}
 
 // Export types for convenience
 export type * from './types'
+export * from './errors'
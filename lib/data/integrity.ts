@@ -0,0 +1,201 @@
+/**
+ * Referential Integrity
+ *
+ * Foreign key and uniqueness rules for ROLES, ROLE_ASSIGNMENTS, MODULES,
+ * PERMISSIONS and SITE_CONFIG.
+ * Sheets enforces none of them, so every adapter runs these checks through
+ * its own read methods before writing. On Postgres, unique indexes (migration
+ * 002) also reject a duplicate written between a check and its insert.
+ *
+ * - Missing user/role/module → NotFoundError
+ * - Inactive user/role → ConflictError
+ * - Identical active row (or a taken code) already stored → DuplicateError
+ *
+ * Update checks get the merged row; rows never conflict with themselves.
+ */
+
+import { ConflictError, DuplicateError, NotFoundError } from './errors'
+import type { DataService, Module, Permission, Role, RoleAssignment, SiteConfig, TableName } from './types'
+
+type IntegrityReader = Pick<
+    DataService,
+    | 'getUserById'
+    | 'getRoles'
+    | 'getRoleById'
+    | 'getRoleAssignments'
+    | 'getModules'
+    | 'getPermissions'
+    | 'getAllPermissions'
+    | 'getAllSiteConfig'
+>
+
+// module_code/action/resource wildcard in PERMISSIONS
+const WILDCARD = '*'
+
+// Columns of each uniqueness rule below (and of the migration 002 indexes)
+const UNIQUE_RULES: Partial<Record<TableName, { columns: string[]; activeOnly: boolean }>> = {
+    ROLES: { columns: ['role_code'], activeOnly: false },
+    MODULES: { columns: ['module_code'], activeOnly: false },
+    ROLE_ASSIGNMENTS: { columns: ['user_id', 'role_id', 'site_code'], activeOnly: true },
+    PERMISSIONS: { columns: ['role_id', 'module_code', 'action', 'resource'], activeOnly: true },
+    SITE_CONFIG: { columns: ['site_code', 'config_key'], activeOnly: true },
+}
+
+/**
+ * The uniqueness rule a row falls under: two rows of a table with the same
+ * `key` conflict. Null when none applies (inactive row, unconstrained table).
+ * For bulk data that bypasses the checks below (migrations, imports).
+ */
+export function uniqueKeyOf(
+    table: TableName,
+    row: Record<string, unknown>
+): { columns: string[]; key: string } | null {
+    const rule = UNIQUE_RULES[table]
+    if (!rule || (rule.activeOnly && !row.is_active)) return null
+
+    // No site_code counts as one site
+    return { columns: rule.columns, key: JSON.stringify(rule.columns.map(column => row[column] || '')) }
+}
+
+async function requireActiveRole(reader: IntegrityReader, roleId: string): Promise<void> {
+    const role = await reader.getRoleById(roleId)
+
+    if (!role) {
+        throw new NotFoundError('ROLES', roleId, `Role not found: ${roleId}`)
+    }
+    if (!role.is_active) {
+        throw new ConflictError('ROLES', roleId, `Role is inactive: ${role.role_code}`)
+    }
+}
+
+/**
+ * User and role must exist and be active; a user holds a role at most once per site
+ */
+export async function checkRoleAssignment(
+    reader: IntegrityReader,
+    assignment: Pick<RoleAssignment, 'user_id' | 'role_id' | 'site_code' | 'is_active'>
+): Promise<void> {
+    const user = await reader.getUserById(assignment.user_id)
+
+    if (!user) {
+        throw new NotFoundError('USERS', assignment.user_id, `User not found: ${assignment.user_id}`)
+    }
+    if (!user.is_active) {
+        throw new ConflictError('USERS', assignment.user_id, `User is inactive: ${user.email}`)
+    }
+
+    await requireActiveRole(reader, assignment.role_id)
+
+    if (!assignment.is_active) return
+
+    const existing = (await reader.getRoleAssignments(assignment.user_id)).find(a =>
+        a.role_id === assignment.role_id && (a.site_code || '') === (assignment.site_code || '')
+    )
+
+    if (existing) {
+        throw new DuplicateError(
+            'ROLE_ASSIGNMENTS',
+            existing.assignment_id,
+            `User ${assignment.user_id} already has role ${assignment.role_id}${assignment.site_code ? ` at ${assignment.site_code}` : ''}`
+        )
+    }
+}
+
+/**
+ * Role must exist and be active, module_code must name a module (or be *);
+ * a role holds each (module_code, action, resource) grant at most once
+ */
+export async function checkPermission(
+    reader: IntegrityReader,
+    permission: Pick<Permission, 'permission_id' | 'role_id' | 'module_code' | 'action' | 'resource' | 'is_active'>
+): Promise<void> {
+    await requireActiveRole(reader, permission.role_id)
+
+    if (permission.module_code !== WILDCARD) {
+        const modules = await reader.getModules()
+        if (!modules.some(m => m.module_code === permission.module_code)) {
+            throw new NotFoundError('MODULES', permission.module_code, `Module not found: ${permission.module_code}`)
+        }
+    }
+
+    if (!permission.is_active) return
+
+    const existing = (await reader.getPermissions(permission.role_id)).find(p =>
+        p.permission_id !== permission.permission_id &&
+        p.module_code === permission.module_code &&
+        p.action === permission.action &&
+        p.resource === permission.resource
+    )
+
+    if (existing) {
+        throw new DuplicateError(
+            'PERMISSIONS',
+            existing.permission_id,
+            `Role ${permission.role_id} already has ${permission.action} on ${permission.module_code}/${permission.resource}`
+        )
+    }
+}
+
+/**
+ * role_code is unique across all roles, inactive ones included
+ */
+export async function checkRole(reader: IntegrityReader, role: Pick<Role, 'role_id' | 'role_code'>): Promise<void> {
+    const existing = (await reader.getRoles()).find(r => r.role_id !== role.role_id && r.role_code === role.role_code)
+
+    if (existing) {
+        throw new DuplicateError('ROLES', existing.role_id, `Role code already exists: ${role.role_code}`)
+    }
+}
+
+/**
+ * module_code is unique; it can't be renamed while active permissions grant the old code
+ */
+export async function checkModule(
+    reader: IntegrityReader,
+    module: Pick<Module, 'module_id' | 'module_code'>,
+    previous?: Pick<Module, 'module_code'>
+): Promise<void> {
+    const existing = (await reader.getModules()).find(m =>
+        m.module_id !== module.module_id && m.module_code === module.module_code
+    )
+
+    if (existing) {
+        throw new DuplicateError('MODULES', existing.module_id, `Module code already exists: ${module.module_code}`)
+    }
+
+    if (previous && previous.module_code !== module.module_code) {
+        const grants = (await reader.getAllPermissions()).filter(p => p.module_code === previous.module_code)
+        if (grants.length > 0) {
+            throw new ConflictError(
+                'MODULES',
+                module.module_id,
+                `Module ${previous.module_code} is granted by ${grants.length} active permissions; deactivate them before renaming it`
+            )
+        }
+    }
+}
+
+/**
+ * A site has at most one active entry per config_key
+ */
+export async function checkSiteConfig(
+    reader: IntegrityReader,
+    config: Pick<SiteConfig, 'config_id' | 'site_code' | 'config_key' | 'is_active'>
+): Promise<void> {
+    if (!config.is_active) return
+
+    const existing = (await reader.getAllSiteConfig()).find(c =>
+        c.config_id !== config.config_id &&
+        c.is_active &&
+        c.site_code === config.site_code &&
+        c.config_key === config.config_key
+    )
+
+    if (existing) {
+        throw new DuplicateError(
+            'SITE_CONFIG',
+            existing.config_id,
+            `Site ${config.site_code} already has config ${config.config_key}`
+        )
+    }
+}
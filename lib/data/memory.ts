@@ -0,0 +1,716 @@
+/**
+ * Memory Data Adapter
+ *
+ * Implements DataService interface with in-process tables.
+ * For local development and CI: no Google or database credentials needed.
+ *
+ * Options:
+ * - seed / seedFile: initial rows (JSON fixture keyed by sheet name)
+ * - sqlitePath: persist tables to a SQLite file between restarts; writes are
+ *   saved together shortly after they happen, and at once by flush()
+ */
+
+import { readFile } from 'fs/promises'
+import { generateId, now } from '../utils'
+import { DATA_CONFIG } from './config'
+import { NotFoundError } from './errors'
+import { checkModule, checkPermission, checkRole, checkRoleAssignment, checkSiteConfig } from './integrity'
+import { ROLE_ASSIGNMENT_QUERY, SYSTEM_LOG_QUERY, TRANSACTION_LOG_QUERY, USER_QUERY, runQuery } from './query'
+import { assertEntity } from './schemas'
+import { cacheEntry, isExpired } from './session-cache'
+import { SqliteStore } from './sqlite-store'
+import { TABLE_KEYS, TABLE_NAMES, emptyTables } from './tables'
+import type {
+    DataService,
+    DataTables,
+    TableName,
+    User,
+    Role,
+    RoleAssignment,
+    Module,
+    Permission,
+    SiteConfig,
+    TransactionLog,
+    SystemLog,
+    SessionCache,
+    UserAccess,
+    Page,
+    UserQuery,
+    RoleAssignmentQuery,
+    TransactionLogQuery,
+    SystemLogQuery,
+} from './types'
+
+export interface MemoryAdapterOptions {
+    seed?: Partial<DataTables>
+    seedFile?: string
+    sqlitePath?: string
+}
+
+/**
+ * Load a JSON fixture file ({ "USERS": [...], "ROLES": [...], ... })
+ */
+export async function loadFixture(filePath: string): Promise<Partial<DataTables>> {
+    const content = await readFile(filePath, 'utf8')
+    return JSON.parse(content) as Partial<DataTables>
+}
+
+// SQLite persistence: writes within this window are saved together
+const SAVE_DELAY_MS = 100
+
+// Rows are copied in and out so callers can't mutate stored state
+function clone<T>(value: T): T {
+    return structuredClone(value)
+}
+
+// ============================================================================
+// MEMORY DATA ADAPTER
+// ============================================================================
+
+export function createMemoryAdapter(options: MemoryAdapterOptions = {}): DataService {
+    const tables: DataTables = emptyTables()
+    let store: SqliteStore | null = null
+    let ready: Promise<void> | null = null
+    let saving: Promise<void> = Promise.resolve()
+    let dirty = false
+    let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+    async function load(): Promise<void> {
+        if (options.sqlitePath) {
+            store = await SqliteStore.open(options.sqlitePath)
+            const persisted = store.load()
+
+            // An existing database wins over the seed
+            if (TABLE_NAMES.some(table => persisted[table].length > 0)) {
+                Object.assign(tables, persisted)
+                return
+            }
+        }
+
+        const seed = {
+            ...(options.seedFile ? await loadFixture(options.seedFile) : {}),
+            ...options.seed,
+        }
+
+        for (const table of TABLE_NAMES) {
+            const rows = seed[table]
+            if (rows) {
+                Object.assign(tables, { [table]: clone(rows) })
+            }
+        }
+
+        persist()
+    }
+
+    function init(): Promise<void> {
+        if (!ready) {
+            ready = load()
+        }
+        return ready
+    }
+
+    /**
+     * Mark the tables changed. Each save rewrites the whole SQLite file, so the
+     * writes of SAVE_DELAY_MS are saved together (flush() saves at once).
+     */
+    function persist(): void {
+        if (!store) return
+        dirty = true
+
+        saveTimer ??= setTimeout(() => {
+            save().catch(error => console.error('❌ Failed to save the memory adapter to SQLite:', error))
+        }, SAVE_DELAY_MS)
+    }
+
+    // Saves are chained so they never interleave on disk
+    function save(): Promise<void> {
+        if (saveTimer) {
+            clearTimeout(saveTimer)
+            saveTimer = null
+        }
+
+        const target = store
+        if (!target) return Promise.resolve()
+
+        saving = saving.catch(() => undefined).then(async () => {
+            if (!dirty) return
+            dirty = false
+            try {
+                await target.save(tables)
+            } catch (error) {
+                dirty = true
+                throw error
+            }
+        })
+        return saving
+    }
+
+    /**
+     * Apply `update` to the row with primary key `id`. Nothing is stored
+     * unless `update` resolves, so it may run integrity checks and throw.
+     */
+    async function updateRow<T extends TableName>(
+        table: T,
+        id: string,
+        update: (row: DataTables[T][number]) => DataTables[T][number] | Promise<DataTables[T][number]>,
+        notFoundMessage: string
+    ): Promise<DataTables[T][number]> {
+        await init()
+        const key = TABLE_KEYS[table] as string
+        const findIndex = () => (tables[table] as unknown as Record<string, unknown>[]).findIndex(row => row[key] === id)
+
+        const index = findIndex()
+        if (index === -1) {
+            throw new NotFoundError(table, id, notFoundMessage)
+        }
+
+        const updated = await update(clone(tables[table][index]))
+        assertEntity(table, updated)
+
+        // Located again: a replaceTable may have run while `update` awaited
+        const latest = findIndex()
+        if (latest === -1) {
+            throw new NotFoundError(table, id, notFoundMessage)
+        }
+
+        tables[table][latest] = clone(updated)
+        persist()
+        return updated
+    }
+
+    async function removeCacheEntries(predicate: (entry: SessionCache) => boolean): Promise<number> {
+        await init()
+        const before = tables.SESSION_CACHE.length
+
+        tables.SESSION_CACHE = tables.SESSION_CACHE.filter(entry => !predicate(entry))
+        persist()
+        return before - tables.SESSION_CACHE.length
+    }
+
+    return {
+        // ======================================================================
+        // USERS
+        // ======================================================================
+
+        async getUsers(): Promise<User[]> {
+            await init()
+            return clone(tables.USERS)
+        },
+
+        async getUserById(userId: string): Promise<User | null> {
+            const users = await this.getUsers()
+            return users.find(u => u.user_id === userId) || null
+        },
+
+        async getUserByEmail(email: string): Promise<User | null> {
+            const users = await this.getUsers()
+            return users.find(u => u.email.toLowerCase() === email.toLowerCase()) || null
+        },
+
+        async createUser(user: Omit<User, 'created_at' | 'updated_at'> & Partial<Pick<User, 'user_id'>>): Promise<User> {
+            await init()
+
+            const newUser: User = {
+                ...user,
+                user_id: user.user_id || generateId(), // Use provided ID or generate new one
+                created_at: now(),
+                updated_at: now(),
+            }
+
+            assertEntity('USERS', newUser)
+            tables.USERS.push(clone(newUser))
+            persist()
+            return newUser
+        },
+
+        async updateUser(userId: string, updates: Partial<User>): Promise<User> {
+            await init()
+            const index = tables.USERS.findIndex(u => u.user_id === userId)
+
+            if (index === -1) {
+                throw new NotFoundError('USERS', userId, `User not found: ${userId}`)
+            }
+
+            const updatedUser = {
+                ...tables.USERS[index],
+                ...updates,
+                updated_at: now(),
+            }
+
+            assertEntity('USERS', updatedUser)
+            tables.USERS[index] = clone(updatedUser)
+            persist()
+            return updatedUser
+        },
+
+        async queryUsers(query?: UserQuery): Promise<Page<User>> {
+            await init()
+            return clone(runQuery(USER_QUERY, tables.USERS, query))
+        },
+
+        // ======================================================================
+        // ROLES
+        // ======================================================================
+
+        async getRoles(): Promise<Role[]> {
+            await init()
+            return clone(tables.ROLES)
+        },
+
+        async getRoleById(roleId: string): Promise<Role | null> {
+            const roles = await this.getRoles()
+            return roles.find(r => r.role_id === roleId) || null
+        },
+
+        async getRoleByCode(roleCode: string): Promise<Role | null> {
+            const roles = await this.getRoles()
+            return roles.find(r => r.role_code === roleCode) || null
+        },
+
+        async createRole(role: Omit<Role, 'role_id' | 'created_at' | 'updated_at'>): Promise<Role> {
+            await init()
+
+            const newRole: Role = {
+                ...role,
+                role_id: generateId(),
+                created_at: now(),
+                updated_at: now(),
+            }
+
+            assertEntity('ROLES', newRole)
+            await checkRole(this, newRole)
+            tables.ROLES.push(clone(newRole))
+            persist()
+            return newRole
+        },
+
+        async updateRole(
+            roleId: string,
+            updates: Partial<Omit<Role, 'role_id' | 'created_at' | 'updated_at'>>
+        ): Promise<Role> {
+            return updateRow(
+                'ROLES',
+                roleId,
+                async role => {
+                    const updatedRole = { ...role, ...updates, updated_at: now() }
+                    await checkRole(this, updatedRole)
+                    return updatedRole
+                },
+                `Role not found: ${roleId}`
+            )
+        },
+
+        async deactivateRole(roleId: string): Promise<Role> {
+            return this.updateRole(roleId, { is_active: false })
+        },
+
+        // ======================================================================
+        // ROLE ASSIGNMENTS
+        // ======================================================================
+
+        async getRoleAssignments(userId: string): Promise<RoleAssignment[]> {
+            await init()
+            return clone(tables.ROLE_ASSIGNMENTS.filter(a => a.user_id === userId && a.is_active))
+        },
+
+        async getRoleAssignmentById(assignmentId: string): Promise<RoleAssignment | null> {
+            await init()
+            const assignment = tables.ROLE_ASSIGNMENTS.find(a => a.assignment_id === assignmentId)
+            return assignment ? clone(assignment) : null
+        },
+
+        async assignRole(
+            assignment: Omit<RoleAssignment, 'assignment_id' | 'assigned_at'>
+        ): Promise<RoleAssignment> {
+            await init()
+
+            const newAssignment: RoleAssignment = {
+                ...assignment,
+                assignment_id: generateId(),
+                assigned_at: now(),
+            }
+
+            assertEntity('ROLE_ASSIGNMENTS', newAssignment)
+            await checkRoleAssignment(this, newAssignment)
+            tables.ROLE_ASSIGNMENTS.push(clone(newAssignment))
+            persist()
+            return newAssignment
+        },
+
+        async revokeRole(assignmentId: string): Promise<void> {
+            await init()
+            const assignment = tables.ROLE_ASSIGNMENTS.find(a => a.assignment_id === assignmentId)
+
+            if (!assignment) {
+                throw new NotFoundError('ROLE_ASSIGNMENTS', assignmentId, `Assignment not found: ${assignmentId}`)
+            }
+
+            assignment.is_active = false
+            persist()
+        },
+
+        async queryRoleAssignments(query?: RoleAssignmentQuery): Promise<Page<RoleAssignment>> {
+            await init()
+            return clone(runQuery(ROLE_ASSIGNMENT_QUERY, tables.ROLE_ASSIGNMENTS, query))
+        },
+
+        // ======================================================================
+        // MODULES
+        // ======================================================================
+
+        async getModules(): Promise<Module[]> {
+            await init()
+            return clone(tables.MODULES)
+        },
+
+        async getActiveModules(): Promise<Module[]> {
+            const modules = await this.getModules()
+            return modules
+                .filter(m => m.is_active)
+                .sort((a, b) => a.sort_order - b.sort_order)
+        },
+
+        async getModuleById(moduleId: string): Promise<Module | null> {
+            const modules = await this.getModules()
+            return modules.find(m => m.module_id === moduleId) || null
+        },
+
+        async createModule(module: Omit<Module, 'module_id' | 'created_at' | 'updated_at'>): Promise<Module> {
+            await init()
+
+            const newModule: Module = {
+                ...module,
+                module_id: generateId(),
+                created_at: now(),
+                updated_at: now(),
+            }
+
+            assertEntity('MODULES', newModule)
+            await checkModule(this, newModule)
+            tables.MODULES.push(clone(newModule))
+            persist()
+            return newModule
+        },
+
+        async updateModule(
+            moduleId: string,
+            updates: Partial<Omit<Module, 'module_id' | 'created_at' | 'updated_at'>>
+        ): Promise<Module> {
+            return updateRow(
+                'MODULES',
+                moduleId,
+                async module => {
+                    const updatedModule = { ...module, ...updates, updated_at: now() }
+                    await checkModule(this, updatedModule, module)
+                    return updatedModule
+                },
+                `Module not found: ${moduleId}`
+            )
+        },
+
+        async deactivateModule(moduleId: string): Promise<Module> {
+            return this.updateModule(moduleId, { is_active: false })
+        },
+
+        // ======================================================================
+        // PERMISSIONS
+        // ======================================================================
+
+        async getPermissions(roleId: string): Promise<Permission[]> {
+            await init()
+            return clone(tables.PERMISSIONS.filter(p => p.role_id === roleId && p.is_active))
+        },
+
+        async getAllPermissions(): Promise<Permission[]> {
+            await init()
+            return clone(tables.PERMISSIONS.filter(p => p.is_active))
+        },
+
+        async getPermissionById(permissionId: string): Promise<Permission | null> {
+            await init()
+            const permission = tables.PERMISSIONS.find(p => p.permission_id === permissionId)
+            return permission ? clone(permission) : null
+        },
+
+        async createPermission(
+            permission: Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>
+        ): Promise<Permission> {
+            await init()
+
+            const newPermission: Permission = {
+                ...permission,
+                permission_id: generateId(),
+                created_at: now(),
+                updated_at: now(),
+            }
+
+            assertEntity('PERMISSIONS', newPermission)
+            await checkPermission(this, newPermission)
+            tables.PERMISSIONS.push(clone(newPermission))
+            persist()
+            return newPermission
+        },
+
+        async updatePermission(
+            permissionId: string,
+            updates: Partial<Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>>
+        ): Promise<Permission> {
+            return updateRow(
+                'PERMISSIONS',
+                permissionId,
+                async permission => {
+                    const updatedPermission = { ...permission, ...updates, updated_at: now() }
+                    // Deactivating never conflicts, even on an inactive role
+                    if (updatedPermission.is_active) {
+                        await checkPermission(this, updatedPermission)
+                    }
+                    return updatedPermission
+                },
+                `Permission not found: ${permissionId}`
+            )
+        },
+
+        async deactivatePermission(permissionId: string): Promise<Permission> {
+            return this.updatePermission(permissionId, { is_active: false })
+        },
+
+        // ======================================================================
+        // USER ACCESS
+        // ======================================================================
+
+        async getUserAccess(userId: string): Promise<UserAccess> {
+            await init()
+            const assignments = tables.ROLE_ASSIGNMENTS.filter(a => a.user_id === userId && a.is_active)
+            const roleIds = new Set(assignments.map(a => a.role_id))
+
+            return clone({
+                assignments,
+                roles: tables.ROLES.filter(r => roleIds.has(r.role_id)),
+                permissions: tables.PERMISSIONS.filter(p => roleIds.has(p.role_id) && p.is_active),
+            })
+        },
+
+        // ======================================================================
+        // SITE CONFIG
+        // ======================================================================
+
+        async getSiteConfig(siteCode: string): Promise<SiteConfig[]> {
+            await init()
+            return clone(tables.SITE_CONFIG.filter(c => c.site_code === siteCode && c.is_active))
+        },
+
+        async getConfigValue(siteCode: string, key: string): Promise<string | null> {
+            const configs = await this.getSiteConfig(siteCode)
+            const config = configs.find(c => c.config_key === key)
+            return config?.config_value || null
+        },
+
+        async getAllSiteConfig(): Promise<SiteConfig[]> {
+            await init()
+            return clone(tables.SITE_CONFIG)
+        },
+
+        async getSiteConfigById(configId: string): Promise<SiteConfig | null> {
+            const configs = await this.getAllSiteConfig()
+            return configs.find(c => c.config_id === configId) || null
+        },
+
+        async createSiteConfig(
+            config: Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>
+        ): Promise<SiteConfig> {
+            await init()
+
+            const newConfig: SiteConfig = {
+                ...config,
+                config_id: generateId(),
+                created_at: now(),
+                updated_at: now(),
+            }
+
+            assertEntity('SITE_CONFIG', newConfig)
+            await checkSiteConfig(this, newConfig)
+            tables.SITE_CONFIG.push(clone(newConfig))
+            persist()
+            return newConfig
+        },
+
+        async updateSiteConfig(
+            configId: string,
+            updates: Partial<Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>>
+        ): Promise<SiteConfig> {
+            return updateRow(
+                'SITE_CONFIG',
+                configId,
+                async config => {
+                    const updatedConfig = { ...config, ...updates, updated_at: now() }
+                    await checkSiteConfig(this, updatedConfig)
+                    return updatedConfig
+                },
+                `Site config not found: ${configId}`
+            )
+        },
+
+        async deactivateSiteConfig(configId: string): Promise<SiteConfig> {
+            return this.updateSiteConfig(configId, { is_active: false })
+        },
+
+        // ======================================================================
+        // TRANSACTION LOG
+        // ======================================================================
+
+        async getTransactionLog(txId: string): Promise<TransactionLog | null> {
+            await init()
+            const log = tables.TRANSACTION_LOG.find(l => l.tx_id === txId)
+            return log ? clone(log) : null
+        },
+
+        async createTransactionLog(
+            log: Omit<TransactionLog, 'tx_id' | 'started_at'>
+        ): Promise<TransactionLog> {
+            await init()
+
+            const newLog: TransactionLog = {
+                ...log,
+                tx_id: generateId(),
+                started_at: now(),
+            }
+
+            assertEntity('TRANSACTION_LOG', newLog)
+            tables.TRANSACTION_LOG.push(clone(newLog))
+            persist()
+            return newLog
+        },
+
+        async updateTransactionLog(txId: string, updates: Partial<TransactionLog>): Promise<void> {
+            await init()
+            const index = tables.TRANSACTION_LOG.findIndex(l => l.tx_id === txId)
+
+            if (index === -1) {
+                throw new NotFoundError('TRANSACTION_LOG', txId, `Transaction log not found: ${txId}`)
+            }
+
+            const updatedLog = { ...tables.TRANSACTION_LOG[index], ...updates }
+            assertEntity('TRANSACTION_LOG', updatedLog)
+            tables.TRANSACTION_LOG[index] = clone(updatedLog)
+            persist()
+        },
+
+        async queryTransactionLogs(query?: TransactionLogQuery): Promise<Page<TransactionLog>> {
+            await init()
+            return clone(runQuery(TRANSACTION_LOG_QUERY, tables.TRANSACTION_LOG, query))
+        },
+
+        // ======================================================================
+        // SYSTEM LOG
+        // ======================================================================
+
+        async createSystemLog(log: Omit<SystemLog, 'log_id' | 'timestamp'>): Promise<void> {
+            await init()
+
+            const newLog: SystemLog = {
+                ...log,
+                log_id: generateId(),
+                timestamp: now(),
+            }
+
+            assertEntity('SYSTEM_LOG', newLog)
+            tables.SYSTEM_LOG.push(newLog)
+            persist()
+        },
+
+        async querySystemLogs(query?: SystemLogQuery): Promise<Page<SystemLog>> {
+            await init()
+            return clone(runQuery(SYSTEM_LOG_QUERY, tables.SYSTEM_LOG, query))
+        },
+
+        // ======================================================================
+        // SESSION CACHE
+        // ======================================================================
+
+        async getCacheEntry(key: string): Promise<SessionCache | null> {
+            await init()
+            const entry = tables.SESSION_CACHE.find(e => e.cache_key === key)
+
+            if (!entry || isExpired(entry)) {
+                return null
+            }
+
+            // Hit counts alone don't warrant a save; they are stored with the next write
+            entry.hit_count++
+            return clone(entry)
+        },
+
+        async setCacheEntry(key: string, value: string, ttlMs: number): Promise<SessionCache> {
+            await init()
+
+            const entry = cacheEntry(key, value, ttlMs)
+            assertEntity('SESSION_CACHE', entry)
+            tables.SESSION_CACHE = [...tables.SESSION_CACHE.filter(e => e.cache_key !== key), clone(entry)]
+            persist()
+            return entry
+        },
+
+        async deleteCacheEntry(key: string): Promise<boolean> {
+            return (await removeCacheEntries(e => e.cache_key === key)) > 0
+        },
+
+        async deleteCacheEntries(prefix: string): Promise<number> {
+            return removeCacheEntries(e => e.cache_key.startsWith(prefix))
+        },
+
+        async sweepCacheEntries(): Promise<number> {
+            return removeCacheEntries(isExpired)
+        },
+
+        // ======================================================================
+        // BULK TABLE ACCESS
+        // ======================================================================
+
+        async exportTable<T extends TableName>(table: T): Promise<DataTables[T]> {
+            await init()
+            return clone(tables[table])
+        },
+
+        async importTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void> {
+            await init()
+
+            rows.forEach(row => assertEntity(table, row))
+
+            const key = TABLE_KEYS[table] as string
+            const stored = tables[table] as unknown as Record<string, unknown>[]
+            const positions = new Map(stored.map((row, index) => [row[key], index]))
+
+            for (const row of clone(rows) as unknown as Record<string, unknown>[]) {
+                const index = positions.get(row[key])
+                if (index === undefined) {
+                    positions.set(row[key], stored.length)
+                    stored.push(row)
+                } else {
+                    stored[index] = row
+                }
+            }
+
+            persist()
+        },
+
+        async replaceTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void> {
+            await init()
+
+            rows.forEach(row => assertEntity(table, row))
+            Object.assign(tables, { [table]: clone(rows) })
+            persist()
+        },
+
+        // ======================================================================
+        // DURABILITY
+        // ======================================================================
+
+        async flush(): Promise<void> {
+            await init()
+            await save()
+        },
+    }
+}
+
+// Default instance, configured from the environment (see ./config)
+export const memoryAdapter: DataService = createMemoryAdapter(DATA_CONFIG.memory)
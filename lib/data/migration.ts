@@ -0,0 +1,338 @@
+/**
+ * Sheets → DataService Migration
+ *
+ * Copies every sheet in SHEETS_CONFIG.sheets into a target adapter:
+ * - IDs and timestamps are kept (target.importTable upserts by primary key)
+ * - Malformed rows are reported and skipped, never copied
+ * - Progress is checkpointed per batch, so an interrupted run can resume
+ * - Dry-run reads and validates without writing anything
+ *
+ * verifyMigration() compares row counts and checksums afterwards.
+ */
+
+import { createHash } from 'crypto'
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import { getSheetsClient } from '../sheets/client'
+import { buildColumnMap, rowToRecord } from '../sheets/columns'
+import { SHEETS_CONFIG } from '../sheets/config'
+import { now } from '../utils'
+import { uniqueKeyOf } from './integrity'
+import { parseEntity } from './schemas'
+import { TABLE_COLUMNS, TABLE_KEYS, TABLE_NAMES } from './tables'
+import type { DataService, DataTables, TableName } from './types'
+
+// ============================================================================
+// FIELD RULES
+// ============================================================================
+
+/** Column kinds used to canonicalize rows for checksums; validation lives in ./schemas */
+interface FieldRules {
+    booleans: string[]
+    timestamps: string[]
+    integers: string[]
+}
+
+const FIELD_RULES: Record<TableName, FieldRules> = {
+    USERS: {
+        booleans: ['is_active'],
+        timestamps: ['created_at', 'updated_at', 'last_login_at'],
+        integers: [],
+    },
+    ROLES: {
+        booleans: ['is_active'],
+        timestamps: ['created_at', 'updated_at'],
+        integers: [],
+    },
+    ROLE_ASSIGNMENTS: {
+        booleans: ['is_active'],
+        timestamps: ['assigned_at', 'expires_at'],
+        integers: [],
+    },
+    MODULES: {
+        booleans: ['is_active'],
+        timestamps: ['created_at', 'updated_at'],
+        integers: ['sort_order'],
+    },
+    PERMISSIONS: {
+        booleans: ['is_active'],
+        timestamps: ['created_at', 'updated_at'],
+        integers: [],
+    },
+    SITE_CONFIG: {
+        booleans: ['is_active'],
+        timestamps: ['created_at', 'updated_at'],
+        integers: [],
+    },
+    TRANSACTION_LOG: {
+        booleans: [],
+        timestamps: ['started_at', 'completed_at'],
+        integers: ['duration_ms'],
+    },
+    SYSTEM_LOG: {
+        booleans: [],
+        timestamps: ['timestamp'],
+        integers: [],
+    },
+    SESSION_CACHE: {
+        booleans: [],
+        timestamps: ['created_at', 'expires_at'],
+        integers: ['hit_count'],
+    },
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MalformedRow {
+    table: TableName
+    rowNumber: number // 1-indexed sheet row (header is row 1)
+    reason: string
+    conflictsWith?: number // Row kept instead, for duplicates
+}
+
+export interface TableMigrationReport {
+    table: TableName
+    sourceRows: number
+    validRows: number
+    copied: number
+    resumedFrom: number
+    malformed: MalformedRow[]
+}
+
+export interface MigrationReport {
+    dryRun: boolean
+    startedAt: string
+    completedAt: string
+    tables: TableMigrationReport[]
+}
+
+export interface MigrationOptions {
+    target: DataService
+    tables?: TableName[]
+    dryRun?: boolean
+    resume?: boolean
+    checkpointFile?: string
+    batchSize?: number
+}
+
+export interface TableVerification {
+    table: TableName
+    sourceCount: number
+    targetCount: number
+    sourceChecksum: string
+    targetChecksum: string
+    matches: boolean
+}
+
+interface Checkpoint {
+    startedAt: string
+    tables: Partial<Record<TableName, { copied: number; completed: boolean }>>
+}
+
+// ============================================================================
+// SOURCE READING
+// ============================================================================
+
+/**
+ * Read a sheet and split it into valid typed rows and malformed row reports.
+ * Rows repeating an earlier row's primary key or unique integrity key (see
+ * uniqueKeyOf) are malformed too: the first one is kept, so the copy never
+ * hits a unique constraint of the target.
+ */
+export async function readSheetTable<T extends TableName>(table: T): Promise<{
+    rows: DataTables[T]
+    sourceRows: number
+    malformed: MalformedRow[]
+}> {
+    const raw = await getSheetsClient().read(SHEETS_CONFIG.sheets[table])
+    const [header = [], ...body] = raw
+    // Throws SheetSchemaError when expected columns are missing or reordered
+    const map = buildColumnMap(table, header)
+
+    const key = TABLE_KEYS[table] as string
+    const seenKeys = new Map<string, number>()
+    const seenUnique = new Map<string, number>()
+    const rows: DataTables[T][number][] = []
+    const malformed: MalformedRow[] = []
+    let sourceRows = 0
+
+    body.forEach((row, index) => {
+        // Fully blank rows are spacing, not data
+        if (row.every(value => value === '' || value === undefined || value === null)) return
+
+        sourceRows++
+        const rowNumber = index + 2
+        const result = parseEntity(table, rowToRecord(map, row))
+
+        if (!result.ok) {
+            malformed.push({ table, rowNumber, reason: result.issues.join('; ') })
+            return
+        }
+
+        const item = result.value
+        const id = String((item as unknown as Record<string, unknown>)[key])
+
+        const keptRow = seenKeys.get(id)
+        if (keptRow !== undefined) {
+            malformed.push({
+                table,
+                rowNumber,
+                reason: `duplicate ${key} of row ${keptRow}: "${id}"`,
+                conflictsWith: keptRow,
+            })
+            return
+        }
+
+        const unique = uniqueKeyOf(table, item as unknown as Record<string, unknown>)
+        const conflictRow = unique && seenUnique.get(unique.key)
+        if (unique && conflictRow) {
+            malformed.push({
+                table,
+                rowNumber,
+                reason: `duplicate ${unique.columns.join(', ')} of row ${conflictRow}`,
+                conflictsWith: conflictRow,
+            })
+            return
+        }
+
+        seenKeys.set(id, rowNumber)
+        if (unique) seenUnique.set(unique.key, rowNumber)
+        rows.push(item)
+    })
+
+    return { rows: rows as DataTables[T], sourceRows, malformed }
+}
+
+// ============================================================================
+// CHECKPOINT
+// ============================================================================
+
+async function loadCheckpoint(file: string): Promise<Checkpoint | null> {
+    if (!existsSync(file)) return null
+    return JSON.parse(await readFile(file, 'utf8')) as Checkpoint
+}
+
+async function saveCheckpoint(file: string, checkpoint: Checkpoint): Promise<void> {
+    await writeFile(file, JSON.stringify(checkpoint, null, 2))
+}
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+export async function migrateSheets(options: MigrationOptions): Promise<MigrationReport> {
+    const {
+        target,
+        tables = TABLE_NAMES,
+        dryRun = false,
+        resume = false,
+        checkpointFile = '.migration-checkpoint.json',
+        batchSize = 500,
+    } = options
+
+    const previous = resume ? await loadCheckpoint(checkpointFile) : null
+    const checkpoint: Checkpoint = previous ?? { startedAt: now(), tables: {} }
+    const report: MigrationReport = { dryRun, startedAt: now(), completedAt: '', tables: [] }
+
+    for (const table of tables) {
+        const { rows, sourceRows, malformed } = await readSheetTable(table)
+        const progress = checkpoint.tables[table] ?? { copied: 0, completed: false }
+        const resumedFrom = progress.completed ? rows.length : progress.copied
+
+        const tableReport: TableMigrationReport = {
+            table,
+            sourceRows,
+            validRows: rows.length,
+            copied: 0,
+            resumedFrom,
+            malformed,
+        }
+        report.tables.push(tableReport)
+
+        if (dryRun) {
+            tableReport.copied = rows.length - resumedFrom
+            continue
+        }
+
+        for (let start = resumedFrom; start < rows.length; start += batchSize) {
+            const batch = rows.slice(start, start + batchSize) as DataTables[typeof table]
+            await target.importTable(table, batch)
+
+            tableReport.copied += batch.length
+            checkpoint.tables[table] = { copied: start + batch.length, completed: false }
+            await saveCheckpoint(checkpointFile, checkpoint)
+        }
+
+        checkpoint.tables[table] = { copied: rows.length, completed: true }
+        await saveCheckpoint(checkpointFile, checkpoint)
+    }
+
+    report.completedAt = now()
+    return report
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Canonical form of a row: every column present, timestamps as ISO,
+ * empty values as null, so Sheets and database rows hash identically
+ */
+function normalizeRow(table: TableName, row: Record<string, unknown>): unknown[] {
+    const rules = FIELD_RULES[table]
+    const columns = TABLE_COLUMNS[table] as string[]
+
+    return columns.map(column => {
+        const value = row[column]
+        if (value === undefined || value === null || value === '') return null
+        if (rules.timestamps.includes(column)) return new Date(String(value)).toISOString()
+        if (rules.integers.includes(column)) return Number(value)
+        if (rules.booleans.includes(column)) return value === true || String(value).toUpperCase() === 'TRUE'
+        return String(value)
+    })
+}
+
+export function checksumRows(table: TableName, rows: readonly object[]): string {
+    const key = TABLE_KEYS[table] as string
+    const sorted = [...(rows as Record<string, unknown>[])]
+        .sort((a, b) => String(a[key]).localeCompare(String(b[key])))
+
+    const hash = createHash('sha256')
+    for (const row of sorted) {
+        hash.update(JSON.stringify(normalizeRow(table, row)))
+        hash.update('\n')
+    }
+    return hash.digest('hex')
+}
+
+/**
+ * Compare row counts and checksums of the valid Sheets rows against the target
+ */
+export async function verifyMigration(
+    target: DataService,
+    tables: TableName[] = TABLE_NAMES
+): Promise<TableVerification[]> {
+    const results: TableVerification[] = []
+
+    for (const table of tables) {
+        const { rows: sourceRows } = await readSheetTable(table)
+        const targetRows = await target.exportTable(table)
+
+        const sourceChecksum = checksumRows(table, sourceRows)
+        const targetChecksum = checksumRows(table, targetRows)
+
+        results.push({
+            table,
+            sourceCount: sourceRows.length,
+            targetCount: targetRows.length,
+            sourceChecksum,
+            targetChecksum,
+            matches: sourceRows.length === targetRows.length && sourceChecksum === targetChecksum,
+        })
+    }
+
+    return results
+}
@@ -0,0 +1,302 @@
+/**
+ * Query Helpers
+ *
+ * Filtering, sorting and keyset (cursor) pagination shared by the adapters.
+ * Each QuerySpec describes one queryable table; in-memory adapters (sheets,
+ * memory) run it with runQuery(), the Postgres adapter translates it to SQL.
+ *
+ * Pages are ordered by (sortBy, primary key), and a cursor holds the last
+ * row's pair, so rows inserted between page fetches never shift later pages.
+ */
+
+import { InvalidQueryError } from './errors'
+import type {
+    Page,
+    PageQuery,
+    RoleAssignment,
+    RoleAssignmentFilter,
+    RoleAssignmentSortField,
+    SortDirection,
+    SystemLog,
+    SystemLogFilter,
+    SystemLogSortField,
+    TransactionLog,
+    TransactionLogFilter,
+    TransactionLogSortField,
+    User,
+    UserFilter,
+    UserSortField,
+} from './types'
+
+export const DEFAULT_PAGE_SIZE = 50
+export const MAX_PAGE_SIZE = 500
+
+export interface QuerySpec<T, F, S extends string> {
+    key: keyof T & string
+    sortFields: readonly S[]
+    timestampFields: readonly S[] // Compared as instants, not strings
+    defaultSort: S
+    defaultDir: SortDirection
+    matches(item: T, filter: F): boolean
+}
+
+// ============================================================================
+// QUERY SPECS
+// ============================================================================
+
+function before(value: string, bound: string | undefined): boolean {
+    return !bound || Date.parse(value) < Date.parse(bound)
+}
+
+function atOrAfter(value: string, bound: string | undefined): boolean {
+    return !bound || Date.parse(value) >= Date.parse(bound)
+}
+
+export const USER_QUERY: QuerySpec<User, UserFilter, UserSortField> = {
+    key: 'user_id',
+    sortFields: ['created_at', 'email', 'name'],
+    timestampFields: ['created_at'],
+    defaultSort: 'created_at',
+    defaultDir: 'asc',
+    matches(user, filter) {
+        return (filter.isActive === undefined || user.is_active === filter.isActive)
+            && (!filter.emailContains || user.email.toLowerCase().includes(filter.emailContains.toLowerCase()))
+            && (!filter.authProvider || user.auth_provider === filter.authProvider)
+    },
+}
+
+export const ROLE_ASSIGNMENT_QUERY: QuerySpec<RoleAssignment, RoleAssignmentFilter, RoleAssignmentSortField> = {
+    key: 'assignment_id',
+    sortFields: ['assigned_at'],
+    timestampFields: ['assigned_at'],
+    defaultSort: 'assigned_at',
+    defaultDir: 'desc',
+    matches(assignment, filter) {
+        return (!filter.userId || assignment.user_id === filter.userId)
+            && (!filter.roleId || assignment.role_id === filter.roleId)
+            && (!filter.siteCode || assignment.site_code === filter.siteCode)
+            && (filter.isActive === undefined || assignment.is_active === filter.isActive)
+    },
+}
+
+export const TRANSACTION_LOG_QUERY: QuerySpec<TransactionLog, TransactionLogFilter, TransactionLogSortField> = {
+    key: 'tx_id',
+    sortFields: ['started_at'],
+    timestampFields: ['started_at'],
+    defaultSort: 'started_at',
+    defaultDir: 'desc',
+    matches(log, filter) {
+        return (!filter.userId || log.user_id === filter.userId)
+            && (!filter.moduleCode || log.module_code === filter.moduleCode)
+            && (!filter.action || log.action === filter.action)
+            && (!filter.status || log.status === filter.status)
+            && atOrAfter(log.started_at, filter.startedAfter)
+            && before(log.started_at, filter.startedBefore)
+    },
+}
+
+export const SYSTEM_LOG_QUERY: QuerySpec<SystemLog, SystemLogFilter, SystemLogSortField> = {
+    key: 'log_id',
+    sortFields: ['timestamp'],
+    timestampFields: ['timestamp'],
+    defaultSort: 'timestamp',
+    defaultDir: 'desc',
+    matches(log, filter) {
+        return (!filter.level || log.level === filter.level)
+            && (!filter.userId || log.user_id === filter.userId)
+            && (!filter.moduleCode || log.module_code === filter.moduleCode)
+            && (!filter.correlationId || log.correlation_id === filter.correlationId)
+            && atOrAfter(log.timestamp, filter.after)
+            && before(log.timestamp, filter.before)
+    },
+}
+
+// ============================================================================
+// CURSORS
+// ============================================================================
+
+export interface Cursor {
+    value: string // Sort field value of the last row on the previous page
+    id: string // Its primary key
+}
+
+export function encodeCursor(cursor: Cursor): string {
+    return Buffer.from(JSON.stringify([cursor.value, cursor.id])).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): Cursor {
+    try {
+        const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+        if (typeof value === 'string' && typeof id === 'string') {
+            return { value, id }
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new InvalidQueryError('Invalid cursor')
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+export interface ResolvedQuery<F, S extends string> {
+    filter: F
+    sortBy: S
+    sortDir: SortDirection
+    limit: number
+    cursor: Cursor | null
+}
+
+/**
+ * Fill in defaults and validate sort field, direction and limit
+ */
+export function resolveQuery<T, F, S extends string>(
+    spec: QuerySpec<T, F, S>,
+    query: PageQuery<F, S> = {}
+): ResolvedQuery<F, S> {
+    const sortBy = query.sortBy ?? spec.defaultSort
+    const sortDir = query.sortDir ?? spec.defaultDir
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE
+
+    if (!spec.sortFields.includes(sortBy)) {
+        throw new InvalidQueryError(`Cannot sort by ${sortBy}; use one of ${spec.sortFields.join(', ')}`)
+    }
+    if (sortDir !== 'asc' && sortDir !== 'desc') {
+        throw new InvalidQueryError(`Sort direction must be asc or desc`)
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+        throw new InvalidQueryError(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`)
+    }
+
+    return {
+        filter: query.filter ?? ({} as F),
+        sortBy,
+        sortDir,
+        limit,
+        cursor: query.cursor ? decodeCursor(query.cursor) : null,
+    }
+}
+
+/**
+ * Build the page from up to limit + 1 ordered rows (the extra row only signals more)
+ */
+export function toPage<T, F, S extends string>(
+    spec: QuerySpec<T, F, S>,
+    resolved: ResolvedQuery<F, S>,
+    rows: T[]
+): Page<T> {
+    const items = rows.slice(0, resolved.limit)
+    const last = items[items.length - 1]
+
+    if (rows.length <= resolved.limit || !last) {
+        return { items, nextCursor: null }
+    }
+
+    const record = last as Record<string, unknown>
+    return {
+        items,
+        nextCursor: encodeCursor({ value: String(record[resolved.sortBy]), id: String(record[spec.key]) }),
+    }
+}
+
+// ============================================================================
+// IN-MEMORY EXECUTION
+// ============================================================================
+
+/**
+ * Filter, sort and page an in-memory list (sheets and memory adapters)
+ */
+export function runQuery<T, F, S extends string>(
+    spec: QuerySpec<T, F, S>,
+    items: T[],
+    query?: PageQuery<F, S>
+): Page<T> {
+    const resolved = resolveQuery(spec, query)
+    const isTimestamp = spec.timestampFields.includes(resolved.sortBy)
+    const direction = resolved.sortDir === 'asc' ? 1 : -1
+
+    const sortValue = (value: unknown): string | number => {
+        if (!isTimestamp) return String(value ?? '')
+        // Unparseable (e.g. blank) timestamps sort first
+        const time = Date.parse(String(value))
+        return Number.isNaN(time) ? -Infinity : time
+    }
+
+    // Plain code-point order (Postgres compares with COLLATE "C" to match)
+    const compare = (aValue: string | number, aId: string, bValue: string | number, bId: string) => {
+        if (aValue !== bValue) return (aValue < bValue ? -1 : 1) * direction
+        if (aId !== bId) return (aId < bId ? -1 : 1) * direction
+        return 0
+    }
+
+    const keyed = items
+        .filter(item => spec.matches(item, resolved.filter))
+        .map(item => {
+            const record = item as Record<string, unknown>
+            return { item, value: sortValue(record[resolved.sortBy]), id: String(record[spec.key]) }
+        })
+        .sort((a, b) => compare(a.value, a.id, b.value, b.id))
+
+    const { cursor } = resolved
+    const after = cursor
+        ? keyed.filter(row => compare(row.value, row.id, sortValue(cursor.value), cursor.id) > 0)
+        : keyed
+
+    return toPage(spec, resolved, after.slice(0, resolved.limit + 1).map(row => row.item))
+}
+
+// ============================================================================
+// URL PARAMETERS
+// ============================================================================
+
+/**
+ * sort, order, limit and cursor query parameters (admin list routes)
+ */
+export function pageParams<S extends string>(
+    params: URLSearchParams,
+    sortFields: readonly S[]
+): Pick<PageQuery<never, S>, 'sortBy' | 'sortDir' | 'limit' | 'cursor'> {
+    const limit = params.get('limit')
+
+    return {
+        sortBy: enumParam(params, 'sort', sortFields),
+        sortDir: enumParam(params, 'order', ['asc', 'desc'] as const),
+        limit: limit ? Number(limit) : undefined,
+        cursor: params.get('cursor') || undefined,
+    }
+}
+
+export function stringParam(params: URLSearchParams, name: string): string | undefined {
+    return params.get(name) || undefined
+}
+
+export function booleanParam(params: URLSearchParams, name: string): boolean | undefined {
+    const value = params.get(name)
+    if (!value) return undefined
+    if (value === 'true') return true
+    if (value === 'false') return false
+    throw new InvalidQueryError(`${name} must be true or false`)
+}
+
+export function enumParam<V extends string>(
+    params: URLSearchParams,
+    name: string,
+    allowed: readonly V[]
+): V | undefined {
+    const value = params.get(name)
+    if (!value) return undefined
+    if (!allowed.includes(value as V)) {
+        throw new InvalidQueryError(`${name} must be one of ${allowed.join(', ')}`)
+    }
+    return value as V
+}
+
+export function timestampParam(params: URLSearchParams, name: string): string | undefined {
+    const value = params.get(name)
+    if (!value) return undefined
+    if (Number.isNaN(Date.parse(value))) {
+        throw new InvalidQueryError(`${name} must be an ISO timestamp`)
+    }
+    return new Date(value).toISOString()
+}
@@ -0,0 +1,200 @@
+/**
+ * Entity Schemas
+ *
+ * Zod schemas for every table in lib/data/types.ts. The same schema checks
+ * typed objects before they are written and parses raw sheet cells on read:
+ * cells arrive as strings ('TRUE', '42', ''), typed values pass through.
+ */
+
+import { z } from 'zod'
+import { SHEETS_CONFIG } from '../sheets/config'
+import { ValidationError } from './errors'
+import type { DataTables, TableName } from './types'
+
+// ============================================================================
+// FIELD TYPES
+// ============================================================================
+
+function blankToUndefined(value: unknown): unknown {
+    return value === '' || value === null ? undefined : value
+}
+
+const id = z.string({ error: 'is required' }).trim().min(1, 'is required')
+
+const timestamp = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'is not a timestamp')
+
+const sheetBoolean = z.preprocess(value => {
+    if (typeof value !== 'string') return value
+    const normalized = value.trim().toUpperCase()
+    return normalized === 'TRUE' ? true : normalized === 'FALSE' ? false : value
+}, z.boolean({ error: 'must be TRUE or FALSE' }))
+
+const sheetInteger = z.preprocess(
+    value => (typeof value === 'string' && /^-?\d+$/.test(value.trim()) ? Number(value) : value),
+    z.number({ error: 'is not an integer' }).int('is not an integer')
+)
+
+// Blank cells become undefined
+function optional<T extends z.ZodType>(schema: T) {
+    return z.preprocess(blankToUndefined, schema.optional())
+}
+
+// Blank cells become `fallback`
+function withDefault<T extends z.ZodType>(schema: T, fallback: z.output<T>) {
+    return z.preprocess(value => blankToUndefined(value) ?? fallback, schema)
+}
+
+// ============================================================================
+// ENTITIES
+// ============================================================================
+
+export const userSchema = z.object({
+    user_id: id,
+    email: id,
+    name: z.string(),
+    auth_provider: z.enum(SHEETS_CONFIG.validations.USERS.auth_provider),
+    is_active: sheetBoolean,
+    created_at: timestamp,
+    updated_at: timestamp,
+    last_login_at: optional(timestamp),
+    metadata: optional(z.string()),
+})
+
+export const roleSchema = z.object({
+    role_id: id,
+    role_code: id,
+    role_name: id,
+    description: z.string(),
+    is_active: sheetBoolean,
+    created_at: timestamp,
+    updated_at: timestamp,
+})
+
+export const roleAssignmentSchema = z.object({
+    assignment_id: id,
+    user_id: id,
+    role_id: id,
+    site_code: optional(z.string()),
+    assigned_by: id,
+    assigned_at: timestamp,
+    expires_at: optional(timestamp),
+    is_active: sheetBoolean,
+})
+
+export const moduleSchema = z.object({
+    module_id: id,
+    module_code: id,
+    module_name: id,
+    description: z.string(),
+    icon: z.string(),
+    route: z.string(),
+    is_active: sheetBoolean,
+    sort_order: withDefault(sheetInteger, 0),
+    created_at: timestamp,
+    updated_at: timestamp,
+})
+
+export const permissionSchema = z.object({
+    permission_id: id,
+    role_id: id,
+    module_code: id,
+    action: id,
+    resource: id,
+    conditions: optional(z.string()),
+    is_active: sheetBoolean,
+    created_at: timestamp,
+    updated_at: timestamp,
+})
+
+export const siteConfigSchema = z.object({
+    config_id: id,
+    site_code: id,
+    config_key: id,
+    config_value: z.string(),
+    data_type: z.enum(SHEETS_CONFIG.validations.SITE_CONFIG.data_type),
+    description: z.string(),
+    is_active: sheetBoolean,
+    created_at: timestamp,
+    updated_at: timestamp,
+})
+
+export const transactionLogSchema = z.object({
+    tx_id: id,
+    user_id: id,
+    module_code: id,
+    action: id,
+    entity_type: id,
+    entity_id: optional(z.string()),
+    status: z.enum(SHEETS_CONFIG.validations.TRANSACTION_LOG.status),
+    payload: optional(z.string()),
+    error_message: optional(z.string()),
+    started_at: timestamp,
+    completed_at: optional(timestamp),
+    duration_ms: optional(sheetInteger),
+})
+
+export const systemLogSchema = z.object({
+    log_id: id,
+    timestamp: timestamp,
+    level: z.enum(SHEETS_CONFIG.validations.SYSTEM_LOG.level),
+    user_id: optional(z.string()),
+    module_code: optional(z.string()),
+    action: optional(z.string()),
+    message: id,
+    details: optional(z.string()),
+    correlation_id: optional(z.string()),
+    ip_address: optional(z.string()),
+    user_agent: optional(z.string()),
+})
+
+export const sessionCacheSchema = z.object({
+    cache_key: id,
+    cache_value: z.string(),
+    created_at: timestamp,
+    expires_at: timestamp,
+    hit_count: withDefault(sheetInteger, 0),
+})
+
+export const ENTITY_SCHEMAS: { [T in TableName]: z.ZodType<DataTables[T][number]> } = {
+    USERS: userSchema,
+    ROLES: roleSchema,
+    ROLE_ASSIGNMENTS: roleAssignmentSchema,
+    MODULES: moduleSchema,
+    PERMISSIONS: permissionSchema,
+    SITE_CONFIG: siteConfigSchema,
+    TRANSACTION_LOG: transactionLogSchema,
+    SYSTEM_LOG: systemLogSchema,
+    SESSION_CACHE: sessionCacheSchema,
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: string[] }
+
+/**
+ * Parse a typed object or a sheet record; issues read like "email is required"
+ */
+export function parseEntity<T extends TableName>(table: T, input: unknown): ParseResult<DataTables[T][number]> {
+    const result = ENTITY_SCHEMAS[table].safeParse(input)
+
+    if (result.success) {
+        return { ok: true, value: result.data }
+    }
+
+    return {
+        ok: false,
+        issues: result.error.issues.map(issue => `${issue.path.join('.') || 'row'} ${issue.message}`),
+    }
+}
+
+/**
+ * Throw a ValidationError unless `item` matches its table schema (before writes)
+ */
+export function assertEntity(table: TableName, item: unknown): void {
+    const result = parseEntity(table, item)
+    if (!result.ok) {
+        throw new ValidationError(table, result.issues)
+    }
+}
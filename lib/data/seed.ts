@@ -0,0 +1,163 @@
+/**
+ * Platform Seed
+ *
+ * Default roles, the standard modules and their baseline permissions, plus
+ * promoting an existing user to SUPER_ADMIN. Safe to run repeatedly: roles and
+ * modules are matched by code, grants by (role, module, action, resource), and
+ * anything already present is left as it is.
+ */
+
+import { generateId, now } from '../utils'
+import { NotFoundError } from './errors'
+import type { DataService, Module, Role } from './types'
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+type RoleSeed = Pick<Role, 'role_code' | 'role_name' | 'description'>
+type ModuleSeed = Pick<Module, 'module_code' | 'module_name' | 'description' | 'icon' | 'route' | 'is_active' | 'sort_order'>
+
+interface GrantSeed {
+    role_code: string
+    module_code: string
+    action: string
+    resource: string
+}
+
+export const SUPER_ADMIN_ROLE = 'SUPER_ADMIN'
+
+export const DEFAULT_ROLES: RoleSeed[] = [
+    { role_code: SUPER_ADMIN_ROLE, role_name: 'Super Administrator', description: 'Full system access, all modules, all sites' },
+    { role_code: 'ADMIN', role_name: 'Administrator', description: 'Site-level admin access' },
+    { role_code: 'USER', role_name: 'User', description: 'Standard access to assigned modules' },
+]
+
+// One per ModuleCard icon; business modules stay inactive until their pages exist
+export const DEFAULT_MODULES: ModuleSeed[] = [
+    { module_code: 'DASHBOARD', module_name: 'Dashboard', description: 'Main landing page and overview', icon: 'dashboard', route: '/dashboard', is_active: true, sort_order: 1 },
+    { module_code: 'HR', module_name: 'Human Resources', description: 'Employees, candidates and onboarding', icon: 'hr', route: '/modules/hr', is_active: false, sort_order: 10 },
+    { module_code: 'WMS', module_name: 'Warehouse', description: 'Inbound, outbound and stock', icon: 'wms', route: '/modules/wms', is_active: false, sort_order: 20 },
+    { module_code: 'PROCUREMENT', module_name: 'Procurement', description: 'Purchase requests and orders', icon: 'procurement', route: '/modules/procurement', is_active: false, sort_order: 30 },
+    { module_code: 'ADMIN', module_name: 'Administration', description: 'User management, roles, permissions', icon: 'settings', route: '/admin', is_active: true, sort_order: 99 },
+]
+
+export const DEFAULT_GRANTS: GrantSeed[] = [
+    { role_code: SUPER_ADMIN_ROLE, module_code: '*', action: '*', resource: '*' },
+    { role_code: 'ADMIN', module_code: 'ADMIN', action: '*', resource: '*' },
+    { role_code: 'ADMIN', module_code: 'DASHBOARD', action: 'read', resource: '*' },
+    { role_code: 'USER', module_code: 'DASHBOARD', action: 'read', resource: '*' },
+]
+
+// ============================================================================
+// SEED
+// ============================================================================
+
+export interface SeedOptions {
+    /** Email of an existing user to promote to SUPER_ADMIN */
+    adminEmail?: string
+    /** assigned_by of the promotion (default SYSTEM) */
+    assignedBy?: string
+}
+
+export interface SeedReport {
+    rolesCreated: string[]
+    modulesCreated: string[]
+    grantsCreated: string[] // ROLE:module/action/resource
+    promoted: 'assigned' | 'already-assigned' | null
+}
+
+async function seedRoles(service: DataService, report: SeedReport): Promise<Map<string, Role>> {
+    const existing = new Set((await service.getRoles()).map(role => role.role_code))
+    const missing: Role[] = DEFAULT_ROLES
+        .filter(role => !existing.has(role.role_code))
+        .map(role => ({ ...role, role_id: generateId(), is_active: true, created_at: now(), updated_at: now() }))
+
+    if (missing.length > 0) {
+        await service.importTable('ROLES', missing)
+        report.rolesCreated.push(...missing.map(role => role.role_code))
+    }
+
+    return new Map((await service.getRoles()).map(role => [role.role_code, role]))
+}
+
+async function seedModules(service: DataService, report: SeedReport): Promise<void> {
+    const existing = new Set((await service.getModules()).map(module => module.module_code))
+    const missing: Module[] = DEFAULT_MODULES
+        .filter(module => !existing.has(module.module_code))
+        .map(module => ({ ...module, module_id: generateId(), created_at: now(), updated_at: now() }))
+
+    if (missing.length > 0) {
+        await service.importTable('MODULES', missing)
+        report.modulesCreated.push(...missing.map(module => module.module_code))
+    }
+}
+
+async function seedGrants(service: DataService, roles: Map<string, Role>, report: SeedReport): Promise<void> {
+    for (const grant of DEFAULT_GRANTS) {
+        const role = roles.get(grant.role_code)
+        // A role deactivated by an admin keeps whatever grants it has
+        if (!role?.is_active) continue
+
+        const granted = (await service.getPermissions(role.role_id)).some(p =>
+            p.module_code === grant.module_code && p.action === grant.action && p.resource === grant.resource
+        )
+        if (granted) continue
+
+        await service.createPermission({
+            role_id: role.role_id,
+            module_code: grant.module_code,
+            action: grant.action,
+            resource: grant.resource,
+            conditions: '{}',
+            is_active: true,
+        })
+        report.grantsCreated.push(`${grant.role_code}:${grant.module_code}/${grant.action}/${grant.resource}`)
+    }
+}
+
+async function promoteAdmin(
+    service: DataService,
+    roles: Map<string, Role>,
+    email: string,
+    assignedBy: string
+): Promise<SeedReport['promoted']> {
+    const user = await service.getUserByEmail(email)
+    if (!user) {
+        throw new NotFoundError('USERS', email, `No user with email ${email}; sign in once to create it`)
+    }
+
+    const role = roles.get(SUPER_ADMIN_ROLE)
+    if (!role) {
+        throw new NotFoundError('ROLES', SUPER_ADMIN_ROLE, `Role not found: ${SUPER_ADMIN_ROLE}`)
+    }
+
+    const assigned = (await service.getRoleAssignments(user.user_id))
+        .some(a => a.role_id === role.role_id && !a.site_code)
+    if (assigned) return 'already-assigned'
+
+    await service.assignRole({
+        user_id: user.user_id,
+        role_id: role.role_id,
+        assigned_by: assignedBy,
+        is_active: true,
+    })
+    return 'assigned'
+}
+
+/**
+ * Seed defaults into `service`, then promote `adminEmail` if given
+ */
+export async function seedPlatform(service: DataService, options: SeedOptions = {}): Promise<SeedReport> {
+    const report: SeedReport = { rolesCreated: [], modulesCreated: [], grantsCreated: [], promoted: null }
+
+    const roles = await seedRoles(service, report)
+    await seedModules(service, report)
+    await seedGrants(service, roles, report)
+
+    if (options.adminEmail) {
+        report.promoted = await promoteAdmin(service, roles, options.adminEmail, options.assignedBy ?? 'SYSTEM')
+    }
+
+    return report
+}
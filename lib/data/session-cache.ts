@@ -0,0 +1,179 @@
+/**
+ * Session Cache
+ *
+ * Pluggable stores for server-side caches (e.g. the RBAC permission cache),
+ * selected by CACHE_BACKEND:
+ * - local:   a Map in this process (default)
+ * - session: the SESSION_CACHE table, shared by every server instance on the
+ *            same storage; a background sweeper removes expired entries
+ *
+ * On Sheets, instances don't lock each other out: two instances setting the
+ * same key at once can both append it (reads take the newest, compaction
+ * clears the other). Deletes clear only the rows they drop, so entries other
+ * instances write meanwhile survive.
+ *
+ * Values are stored as JSON. Session stores never throw: a failed read is a
+ * miss and a failed write is logged, so callers keep working when storage is down.
+ */
+
+import { DATA_CONFIG } from './config'
+import type { DataService, SessionCache } from './types'
+
+export interface CacheStore<T> {
+    get(key: string): Promise<T | null>
+    set(key: string, value: T): Promise<void>
+    delete(key: string): Promise<void>
+    clear(): Promise<void>
+    // Entries held by this process; null for the shared SESSION_CACHE store
+    size(): number | null
+}
+
+// ============================================================================
+// ENTRIES (shared by the adapters)
+// ============================================================================
+
+/**
+ * A fresh SESSION_CACHE row expiring `ttlMs` from now
+ */
+export function cacheEntry(key: string, value: string, ttlMs: number): SessionCache {
+    const createdAt = Date.now()
+    return {
+        cache_key: key,
+        cache_value: value,
+        created_at: new Date(createdAt).toISOString(),
+        expires_at: new Date(createdAt + ttlMs).toISOString(),
+        hit_count: 0,
+    }
+}
+
+export function isExpired(entry: SessionCache, at: number = Date.now()): boolean {
+    return Date.parse(entry.expires_at) <= at
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Per-process cache with a TTL
+ */
+export function createLocalCache<T>(ttlMs: number): CacheStore<T> {
+    const entries = new Map<string, { value: T; expiresAt: number }>()
+
+    return {
+        async get(key) {
+            const entry = entries.get(key)
+            if (!entry) return null
+
+            if (Date.now() > entry.expiresAt) {
+                entries.delete(key)
+                return null
+            }
+            return entry.value
+        },
+
+        async set(key, value) {
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+        },
+
+        async delete(key) {
+            entries.delete(key)
+        },
+
+        async clear() {
+            entries.clear()
+        },
+
+        size() {
+            return entries.size
+        },
+    }
+}
+
+/**
+ * Cache in SESSION_CACHE, keys prefixed with `namespace:`
+ */
+export function createSessionCache<T>(service: DataService, namespace: string, ttlMs: number): CacheStore<T> {
+    const prefix = `${namespace}:`
+    startCacheSweeper(service)
+
+    return {
+        async get(key) {
+            try {
+                const entry = await service.getCacheEntry(prefix + key)
+                return entry ? (JSON.parse(entry.cache_value) as T) : null
+            } catch (error) {
+                console.error(`❌ Session cache read failed (${prefix}${key}):`, error)
+                return null
+            }
+        },
+
+        async set(key, value) {
+            try {
+                await service.setCacheEntry(prefix + key, JSON.stringify(value), ttlMs)
+            } catch (error) {
+                console.error(`❌ Session cache write failed (${prefix}${key}):`, error)
+            }
+        },
+
+        async delete(key) {
+            try {
+                await service.deleteCacheEntry(prefix + key)
+            } catch (error) {
+                console.error(`❌ Session cache delete failed (${prefix}${key}):`, error)
+            }
+        },
+
+        async clear() {
+            try {
+                await service.deleteCacheEntries(prefix)
+            } catch (error) {
+                console.error(`❌ Session cache clear failed (${prefix}*):`, error)
+            }
+        },
+
+        size() {
+            return null
+        },
+    }
+}
+
+/**
+ * Store for `namespace` on the configured CACHE_BACKEND
+ */
+export function createCacheStore<T>(service: DataService, namespace: string, ttlMs: number): CacheStore<T> {
+    return DATA_CONFIG.cacheBackend === 'session'
+        ? createSessionCache<T>(service, namespace, ttlMs)
+        : createLocalCache<T>(ttlMs)
+}
+
+// ============================================================================
+// SWEEPER
+// ============================================================================
+
+let sweeper: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Periodically remove expired entries (once per process; SESSION_CACHE_SWEEP_MS=0 disables)
+ */
+export function startCacheSweeper(service: DataService, intervalMs: number = DATA_CONFIG.cacheSweepMs): void {
+    if (sweeper || intervalMs <= 0) return
+
+    sweeper = setInterval(() => {
+        service.sweepCacheEntries()
+            .then(removed => {
+                if (removed > 0) console.log(`🧹 Swept ${removed} expired session cache entries`)
+            })
+            .catch(error => console.error('❌ Session cache sweep failed:', error))
+    }, intervalMs)
+
+    // Never keeps a CLI script or test run alive
+    sweeper.unref()
+}
+
+export function stopCacheSweeper(): void {
+    if (sweeper) {
+        clearInterval(sweeper)
+        sweeper = null
+    }
+}
@@ -2,129 +2,404 @@
  * Sheets Data Adapter
  * 
  * Implements DataService interface using Google Sheets as storage.
- * Maps sheet rows to typed objects.
+ * Maps sheet rows to typed objects by header name (see lib/sheets/columns.ts),
+ * so inserted columns are tolerated and missing/reordered ones fail loudly.
+ * Rows are parsed with the zod schemas in ./schemas: invalid rows are skipped
+ * and reported to SYSTEM_LOG, and objects are validated before every write.
  */
 
+import { appendQueue } from '../sheets/append-queue'
 import { getSheetsClient } from '../sheets/client'
+import { headerKey, sheetCache } from '../sheets/cache'
+import { buildColumnMap, columnLetter, padRow, recordToRow, rowRange, rowToRecord } from '../sheets/columns'
+import type { ColumnMap } from '../sheets/columns'
 import { SHEETS_CONFIG } from '../sheets/config'
-import { generateId, now, parseBoolean, safeJsonParse } from '../utils'
+import { generateId, now } from '../utils'
+import { ConflictError, NotFoundError } from './errors'
+import { checkModule, checkPermission, checkRole, checkRoleAssignment, checkSiteConfig } from './integrity'
+import { ROLE_ASSIGNMENT_QUERY, SYSTEM_LOG_QUERY, TRANSACTION_LOG_QUERY, USER_QUERY, runQuery } from './query'
+import { assertEntity, parseEntity } from './schemas'
+import { cacheEntry, isExpired } from './session-cache'
+import { TABLE_KEYS } from './tables'
 import type {
     DataService,
+    DataTables,
+    TableName,
     User,
     Role,
     RoleAssignment,
     Module,
     Permission,
-    SiteConfig,
     TransactionLog,
     SystemLog,
+    SiteConfig,
+    SessionCache,
+    UserAccess,
+    Page,
+    UserQuery,
+    RoleAssignmentQuery,
+    TransactionLogQuery,
+    SystemLogQuery,
 } from './types'
 
-const sheets = getSheetsClient()
-
 // ============================================================================
-// ROW MAPPERS
+// CACHED SHEET ACCESS
 // ============================================================================
 
-function mapRowToUser(row: any[]): User {
-    return {
-        user_id: row[0],
-        email: row[1],
-        name: row[2],
-        auth_provider: row[3] as 'google' | 'email' | 'sso',
-        is_active: parseBoolean(row[4]),
-        created_at: row[5],
-        updated_at: row[6],
-        last_login_at: row[7] || undefined,
-        metadata: row[8] || undefined,
+/**
+ * Land queued appends before reading, so reads see this process's own writes.
+ * A failed append is already logged by the queue; read whatever did land.
+ */
+async function settleAppends(sheetNames: string[]): Promise<void> {
+    const queued = sheetNames.filter(name => appendQueue.hasPending(name))
+    await Promise.all(queued.map(name => appendQueue.flush(name).catch(() => undefined)))
+}
+
+/**
+ * Read a whole sheet through the snapshot cache.
+ * Lookups that precede a row write pass fresh: true so row numbers are current.
+ */
+async function readSheet(sheetName: string, options: { fresh?: boolean } = {}): Promise<any[][]> {
+    await settleAppends([sheetName])
+
+    if (options.fresh) {
+        sheetCache.invalidate(sheetName)
+    }
+    return sheetCache.get(sheetName, () => getSheetsClient().read(sheetName)) as Promise<any[][]>
+}
+
+/**
+ * Read several whole sheets; cache misses share a single batchRead
+ */
+async function readSheets(sheetNames: string[]): Promise<Record<string, any[][]>> {
+    await settleAppends(sheetNames)
+    return sheetCache.getMany(sheetNames, missing => getSheetsClient().batchRead(missing)) as Promise<Record<string, any[][]>>
+}
+
+async function writeRows(sheetName: string, range: string, values: unknown[][]): Promise<void> {
+    try {
+        await getSheetsClient().write(sheetName, range, values)
+    } finally {
+        sheetCache.invalidate(sheetName)
+    }
+}
+
+// Ranges per values.batchUpdate request
+const BATCH_WRITE_SIZE = 500
+
+/**
+ * Overwrite many ranges of one sheet, BATCH_WRITE_SIZE per request
+ */
+async function writeRanges(sheetName: string, data: { range: string; values: unknown[][] }[]): Promise<void> {
+    try {
+        for (let start = 0; start < data.length; start += BATCH_WRITE_SIZE) {
+            await getSheetsClient().batchWrite(data.slice(start, start + BATCH_WRITE_SIZE))
+        }
+    } finally {
+        sheetCache.invalidate(sheetName)
     }
 }
 
-function mapRowToRole(row: any[]): Role {
-    return {
-        role_id: row[0],
-        role_code: row[1],
-        role_name: row[2],
-        description: row[3],
-        is_active: parseBoolean(row[4]),
-        created_at: row[5],
-        updated_at: row[6],
+async function appendRows(sheetName: string, values: unknown[][]): Promise<void> {
+    try {
+        await getSheetsClient().append(sheetName, values)
+    } finally {
+        sheetCache.invalidate(sheetName)
     }
 }
 
-function mapRowToRoleAssignment(row: any[]): RoleAssignment {
-    return {
-        assignment_id: row[0],
-        user_id: row[1],
-        role_id: row[2],
-        site_code: row[3] || undefined,
-        assigned_by: row[4],
-        assigned_at: row[5],
-        expires_at: row[6] || undefined,
-        is_active: parseBoolean(row[7]),
+async function clearRows(sheetName: string, range: string): Promise<void> {
+    try {
+        await getSheetsClient().clear(sheetName, range)
+    } finally {
+        sheetCache.invalidate(sheetName)
     }
 }
 
-function mapRowToModule(row: any[]): Module {
-    return {
-        module_id: row[0],
-        module_code: row[1],
-        module_name: row[2],
-        description: row[3],
-        icon: row[4],
-        route: row[5],
-        is_active: parseBoolean(row[6]),
-        sort_order: parseInt(row[7]) || 0,
-        created_at: row[8],
-        updated_at: row[9],
+interface SheetTable<T extends TableName> {
+    table: T
+    map: ColumnMap
+    rows: unknown[][] // Raw data rows, header excluded; rows[i] is sheet row i + 2
+    items: DataTables[T] // Valid rows only
+    rowIndexes: number[] // items[i] was parsed from rows[rowIndexes[i]]
+}
+
+// Invalid rows already reported by this process, so cached re-reads don't repeat them
+const quarantined = new Set<string>()
+
+function isBlankRow(row: unknown[]): boolean {
+    return row.every(value => value === '' || value === undefined || value === null)
+}
+
+/**
+ * Report a row that failed its schema to SYSTEM_LOG (once per row content)
+ */
+function quarantineRow(table: TableName, rowNumber: number, row: unknown[], issues: string[]): void {
+    const key = `${table}:${rowNumber}:${JSON.stringify(row)}`
+    if (quarantined.has(key)) return
+    quarantined.add(key)
+
+    const message = `Skipped invalid ${table} row ${rowNumber}: ${issues.join('; ')}`
+    console.warn(`⚠️ ${message}`)
+
+    const log: SystemLog = {
+        log_id: generateId(),
+        timestamp: now(),
+        level: 'WARN',
+        action: 'quarantine_row',
+        message,
+        details: JSON.stringify({ table, rowNumber, issues, row }),
+    }
+    queueItems('SYSTEM_LOG', [log]).catch(error => console.error('❌ Failed to report invalid row:', error))
+}
+
+/**
+ * Validate the header row and parse every data row of a sheet snapshot.
+ * Blank rows are ignored; rows failing their schema are quarantined.
+ */
+function parseTable<T extends TableName>(table: T, snapshot: unknown[][]): SheetTable<T> {
+    const [header = [], ...rows] = snapshot
+    const map = buildColumnMap(table, header)
+    const items: DataTables[T][number][] = []
+    const rowIndexes: number[] = []
+
+    rows.forEach((row, index) => {
+        if (isBlankRow(row)) return
+
+        const result = parseEntity(table, rowToRecord(map, row))
+        if (result.ok) {
+            items.push(result.value)
+            rowIndexes.push(index)
+        } else {
+            // Row index + 2 (1 for header, 1 for 1-indexed)
+            quarantineRow(table, index + 2, row, result.issues)
+        }
+    })
+
+    return { table, map, rows, items: items as DataTables[T], rowIndexes }
+}
+
+async function readTable<T extends TableName>(table: T, options: { fresh?: boolean } = {}): Promise<SheetTable<T>> {
+    return parseTable(table, await readSheet(SHEETS_CONFIG.sheets[table], options))
+}
+
+/**
+ * Column map from the header row alone (cached apart from the sheet snapshot,
+ * so appending to a long log sheet doesn't re-read the whole sheet; dropped
+ * with it on invalidation)
+ */
+async function getColumnMap(table: TableName): Promise<ColumnMap> {
+    const sheetName = SHEETS_CONFIG.sheets[table]
+    const [header = []] = await sheetCache.get(headerKey(sheetName), () => getSheetsClient().read(sheetName, '1:1'))
+    return buildColumnMap(table, header)
+}
+
+/**
+ * Append typed objects, laid out by the sheet's current header
+ */
+async function appendItems(table: TableName, items: object[]): Promise<void> {
+    items.forEach(item => assertEntity(table, item))
+    const map = await getColumnMap(table)
+    await appendRows(map.sheetName, items.map(item => recordToRow(map, item)))
+}
+
+/**
+ * Like appendItems, but through the append queue: rows from calls close together
+ * share one request. Returns once queued; dataService.flush() awaits durability.
+ */
+async function queueItems(table: TableName, items: object[]): Promise<void> {
+    items.forEach(item => assertEntity(table, item))
+    const map = await getColumnMap(table)
+    // Write failures are logged by the queue; callers needing durability use flush()
+    appendQueue.enqueue(map.sheetName, items.map(item => recordToRow(map, item))).catch(() => undefined)
+}
+
+// ============================================================================
+// GUARDED ROW UPDATES
+// ============================================================================
+
+// Read-modify-write attempts before an update gives up with a ConflictError
+const UPDATE_ATTEMPTS = 3
+
+const sheetLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Serialize row writes to one sheet within this process
+ */
+async function withSheetLock<R>(sheetName: string, fn: () => Promise<R>): Promise<R> {
+    const previous = sheetLocks.get(sheetName) ?? Promise.resolve()
+    const run = previous.catch(() => undefined).then(fn)
+    const tail = run.catch(() => undefined)
+
+    sheetLocks.set(sheetName, tail)
+    try {
+        return await run
+    } finally {
+        if (sheetLocks.get(sheetName) === tail) {
+            sheetLocks.delete(sheetName)
+        }
     }
 }
 
-function mapRowToPermission(row: any[]): Permission {
-    return {
-        permission_id: row[0],
-        role_id: row[1],
-        module_code: row[2],
-        action: row[3],
-        resource: row[4],
-        conditions: row[5] || undefined,
-        is_active: parseBoolean(row[6]),
-        created_at: row[7],
-        updated_at: row[8],
+function sameRow(map: ColumnMap, a: unknown[], b: unknown[]): boolean {
+    const right = padRow(map, b)
+    return padRow(map, a).every((cell, index) => cell === right[index])
+}
+
+/**
+ * Overwrite the data row at rows[index] only if the sheet still holds the snapshot's row there.
+ * The row is re-read right before the write; returns false (nothing written) when it
+ * moved or changed, e.g. after a manual delete, sort or a concurrent edit.
+ */
+async function writeItemIfUnchanged<T extends TableName>(
+    sheet: SheetTable<T>,
+    index: number,
+    item: object
+): Promise<boolean> {
+    assertEntity(sheet.table, item)
+
+    // Row index + 2 (1 for header, 1 for 1-indexed)
+    const range = rowRange(sheet.map, index + 2)
+    const [current = []] = await getSheetsClient().read(sheet.map.sheetName, range)
+
+    if (!sameRow(sheet.map, current, sheet.rows[index])) {
+        return false
     }
+
+    // Cells of columns the app doesn't know are kept as they are
+    await writeRows(sheet.map.sheetName, range, [recordToRow(sheet.map, item, current)])
+    return true
+}
+
+/**
+ * Apply `update` to the row with primary key `id`.
+ * Re-reads and retries when the row shifts or changes before the write lands,
+ * so the update always merges into the latest row and never lands on another one.
+ * `update` runs under the sheet lock and may throw (e.g. an integrity check) to write nothing.
+ */
+async function updateItem<T extends TableName>(
+    table: T,
+    id: string,
+    update: (item: DataTables[T][number]) => DataTables[T][number] | Promise<DataTables[T][number]>,
+    notFoundMessage: string
+): Promise<DataTables[T][number]> {
+    return withSheetLock(SHEETS_CONFIG.sheets[table], () => updateLockedItem(table, id, update, notFoundMessage))
 }
 
-function mapRowToSiteConfig(row: any[]): SiteConfig {
-    return {
-        config_id: row[0],
-        site_code: row[1],
-        config_key: row[2],
-        config_value: row[3],
-        data_type: row[4] as 'string' | 'number' | 'boolean' | 'json',
-        description: row[5],
-        is_active: parseBoolean(row[6]),
-        created_at: row[7],
-        updated_at: row[8],
+/**
+ * updateItem for callers already holding the sheet lock
+ */
+async function updateLockedItem<T extends TableName>(
+    table: T,
+    id: string,
+    update: (item: DataTables[T][number]) => DataTables[T][number] | Promise<DataTables[T][number]>,
+    notFoundMessage: string
+): Promise<DataTables[T][number]> {
+    const key = TABLE_KEYS[table] as string
+
+    for (let attempt = 1; attempt <= UPDATE_ATTEMPTS; attempt++) {
+        const sheet = await readTable(table, { fresh: true })
+        const items = sheet.items as unknown as Record<string, unknown>[]
+        const index = items.findIndex(item => item[key] === id)
+
+        if (index === -1) {
+            throw new NotFoundError(table, id, notFoundMessage)
+        }
+
+        const updated = await update(sheet.items[index])
+        if (await writeItemIfUnchanged(sheet, sheet.rowIndexes[index], updated)) {
+            return updated
+        }
+
+        console.warn(`⚠️ ${table} row ${id} changed during update (attempt ${attempt}/${UPDATE_ATTEMPTS})`)
     }
+
+    throw new ConflictError(table, id, `${table} row ${id} kept changing during update; giving up`)
 }
 
-function mapRowToTransactionLog(row: any[]): TransactionLog {
-    return {
-        tx_id: row[0],
-        user_id: row[1],
-        module_code: row[2],
-        action: row[3],
-        entity_type: row[4],
-        entity_id: row[5] || undefined,
-        status: row[6] as 'PENDING' | 'SUCCESS' | 'FAILED',
-        payload: row[7] || undefined,
-        error_message: row[8] || undefined,
-        started_at: row[9],
-        completed_at: row[10] || undefined,
-        duration_ms: row[11] ? parseInt(row[11]) : undefined,
+/**
+ * Replace every data row of `sheet` with `items` (call under the sheet lock).
+ * Rows are overwritten from row 2 down, then whatever is left below is cleared,
+ * cells of unknown columns included.
+ */
+async function rewriteTable<T extends TableName>(sheet: SheetTable<T>, items: readonly object[]): Promise<void> {
+    const lastColumn = columnLetter(sheet.map.width)
+
+    if (items.length > 0) {
+        const values = items.map(item => recordToRow(sheet.map, item))
+        await writeRows(sheet.map.sheetName, `A2:${lastColumn}${items.length + 1}`, values)
+    }
+    if (sheet.rows.length > items.length) {
+        await clearRows(sheet.map.sheetName, `A${items.length + 2}:${lastColumn}${sheet.rows.length + 1}`)
     }
 }
 
+// ============================================================================
+// SESSION CACHE
+// ============================================================================
+
+// Hits counted since the last compaction; written back to hit_count by compactCache
+// so a cache hit costs no API write
+const pendingCacheHits = new Map<string, number>()
+
+/**
+ * Clear the SESSION_CACHE rows of expired entries, entries matching `drop`,
+ * older duplicates of a key and malformed rows, folding pending hits into
+ * hit_count. Returns how many entries matched `drop`.
+ *
+ * Only those rows (and hit_count cells) are written, in one batch: rows that
+ * other instances append or change meanwhile are left alone. Cleared rows
+ * stay blank until appends fill them again.
+ */
+async function compactCache(drop: (entry: SessionCache) => boolean): Promise<number> {
+    const sheetName = SHEETS_CONFIG.sheets.SESSION_CACHE
+
+    return withSheetLock(sheetName, async () => {
+        const sheet = await readTable('SESSION_CACHE', { fresh: true })
+        // Item index of each key's newest entry
+        const latest = new Map<string, number>()
+
+        sheet.items.forEach((entry, index) => {
+            const current = latest.get(entry.cache_key)
+            if (current === undefined || Date.parse(entry.created_at) >= Date.parse(sheet.items[current].created_at)) {
+                latest.set(entry.cache_key, index)
+            }
+        })
+
+        const newest = [...latest.values()]
+        const dropped = newest.filter(index => drop(sheet.items[index])).length
+        const kept = newest.filter(index => !isExpired(sheet.items[index]) && !drop(sheet.items[index]))
+        const keptRows = new Set(kept.map(index => sheet.rowIndexes[index]))
+
+        // Row index + 2 (1 for header, 1 for 1-indexed)
+        const blank = new Array<string>(sheet.map.width).fill('')
+        const updates = sheet.rows.flatMap((row, index) =>
+            keptRows.has(index) || isBlankRow(row)
+                ? []
+                : [{ range: `${sheetName}!${rowRange(sheet.map, index + 2)}`, values: [blank] }]
+        )
+
+        const hitColumn = columnLetter(sheet.map.positions.hit_count + 1)
+        for (const index of kept) {
+            const entry = sheet.items[index]
+            const hits = pendingCacheHits.get(entry.cache_key)
+            if (hits) {
+                updates.push({
+                    range: `${sheetName}!${hitColumn}${sheet.rowIndexes[index] + 2}`,
+                    values: [[String(entry.hit_count + hits)]],
+                })
+            }
+        }
+
+        if (updates.length > 0) {
+            await writeRanges(sheetName, updates)
+        }
+
+        pendingCacheHits.clear()
+        return dropped
+    })
+}
+
 // ============================================================================
 // SHEETS DATA ADAPTER
 // ============================================================================
@@ -135,9 +410,7 @@ export const sheetsAdapter: DataService = {
     // ==========================================================================
 
     async getUsers(): Promise<User[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.USERS)
-        // Skip header row
-        return rows.slice(1).map(mapRowToUser)
+        return (await readTable('USERS')).items
     },
 
     async getUserById(userId: string): Promise<User | null> {
@@ -158,53 +431,21 @@ export const sheetsAdapter: DataService = {
             updated_at: now(),
         }
 
-        const row = [
-            newUser.user_id,
-            newUser.email,
-            newUser.name,
-            newUser.auth_provider,
-            newUser.is_active ? 'TRUE' : 'FALSE',
-            newUser.created_at,
-            newUser.updated_at,
-            newUser.last_login_at || '',
-            newUser.metadata || '',
-        ]
-
-        await sheets.append(SHEETS_CONFIG.sheets.USERS, [row])
+        await appendItems('USERS', [newUser])
         return newUser
     },
 
     async updateUser(userId: string, updates: Partial<User>): Promise<User> {
-        const users = await this.getUsers()
-        const index = users.findIndex(u => u.user_id === userId)
-
-        if (index === -1) {
-            throw new Error(`User not found: ${userId}`)
-        }
-
-        const updatedUser = {
-            ...users[index],
-            ...updates,
-            updated_at: now(),
-        }
-
-        const row = [
-            updatedUser.user_id,
-            updatedUser.email,
-            updatedUser.name,
-            updatedUser.auth_provider,
-            updatedUser.is_active ? 'TRUE' : 'FALSE',
-            updatedUser.created_at,
-            updatedUser.updated_at,
-            updatedUser.last_login_at || '',
-            updatedUser.metadata || '',
-        ]
-
-        // Row index + 2 (1 for header, 1 for 1-indexed)
-        const rowNumber = index + 2
-        await sheets.write(SHEETS_CONFIG.sheets.USERS, `A${rowNumber}:I${rowNumber}`, [row])
+        return updateItem(
+            'USERS',
+            userId,
+            user => ({ ...user, ...updates, updated_at: now() }),
+            `User not found: ${userId}`
+        )
+    },
 
-        return updatedUser
+    async queryUsers(query?: UserQuery): Promise<Page<User>> {
+        return runQuery(USER_QUERY, await this.getUsers(), query)
     },
 
     // ==========================================================================
@@ -212,8 +453,7 @@ export const sheetsAdapter: DataService = {
     // ==========================================================================
 
     async getRoles(): Promise<Role[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.ROLES)
-        return rows.slice(1).map(mapRowToRole)
+        return (await readTable('ROLES')).items
     },
 
     async getRoleById(roleId: string): Promise<Role | null> {
@@ -226,14 +466,54 @@ export const sheetsAdapter: DataService = {
         return roles.find(r => r.role_code === roleCode) || null
     },
 
+    async createRole(role: Omit<Role, 'role_id' | 'created_at' | 'updated_at'>): Promise<Role> {
+        const newRole: Role = {
+            ...role,
+            role_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        await withSheetLock(SHEETS_CONFIG.sheets.ROLES, async () => {
+            await checkRole(this, newRole)
+            await appendItems('ROLES', [newRole])
+        })
+
+        return newRole
+    },
+
+    async updateRole(
+        roleId: string,
+        updates: Partial<Omit<Role, 'role_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Role> {
+        return updateItem(
+            'ROLES',
+            roleId,
+            async role => {
+                const updatedRole = { ...role, ...updates, updated_at: now() }
+                await checkRole(this, updatedRole)
+                return updatedRole
+            },
+            `Role not found: ${roleId}`
+        )
+    },
+
+    async deactivateRole(roleId: string): Promise<Role> {
+        return this.updateRole(roleId, { is_active: false })
+    },
+
     // ==========================================================================
     // ROLE ASSIGNMENTS
     // ==========================================================================
 
     async getRoleAssignments(userId: string): Promise<RoleAssignment[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.ROLE_ASSIGNMENTS)
-        const assignments = rows.slice(1).map(mapRowToRoleAssignment)
-        return assignments.filter(a => a.user_id === userId && a.is_active)
+        const { items } = await readTable('ROLE_ASSIGNMENTS')
+        return items.filter(a => a.user_id === userId && a.is_active)
+    },
+
+    async getRoleAssignmentById(assignmentId: string): Promise<RoleAssignment | null> {
+        const { items } = await readTable('ROLE_ASSIGNMENTS')
+        return items.find(a => a.assignment_id === assignmentId) || null
     },
 
     async assignRole(
@@ -245,46 +525,27 @@ export const sheetsAdapter: DataService = {
             assigned_at: now(),
         }
 
-        const row = [
-            newAssignment.assignment_id,
-            newAssignment.user_id,
-            newAssignment.role_id,
-            newAssignment.site_code || '',
-            newAssignment.assigned_by,
-            newAssignment.assigned_at,
-            newAssignment.expires_at || '',
-            newAssignment.is_active ? 'TRUE' : 'FALSE',
-        ]
-
-        await sheets.append(SHEETS_CONFIG.sheets.ROLE_ASSIGNMENTS, [row])
+        // Serialized with other writes to the sheet, so concurrent requests can't both pass the duplicate check
+        await withSheetLock(SHEETS_CONFIG.sheets.ROLE_ASSIGNMENTS, async () => {
+            await checkRoleAssignment(this, newAssignment)
+            await appendItems('ROLE_ASSIGNMENTS', [newAssignment])
+        })
+
         return newAssignment
     },
 
     async revokeRole(assignmentId: string): Promise<void> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.ROLE_ASSIGNMENTS)
-        const assignments = rows.slice(1).map(mapRowToRoleAssignment)
-        const index = assignments.findIndex(a => a.assignment_id === assignmentId)
-
-        if (index === -1) {
-            throw new Error(`Assignment not found: ${assignmentId}`)
-        }
-
-        const assignment = assignments[index]
-        assignment.is_active = false
-
-        const row = [
-            assignment.assignment_id,
-            assignment.user_id,
-            assignment.role_id,
-            assignment.site_code || '',
-            assignment.assigned_by,
-            assignment.assigned_at,
-            assignment.expires_at || '',
-            'FALSE',
-        ]
+        await updateItem(
+            'ROLE_ASSIGNMENTS',
+            assignmentId,
+            assignment => ({ ...assignment, is_active: false }),
+            `Assignment not found: ${assignmentId}`
+        )
+    },
 
-        const rowNumber = index + 2
-        await sheets.write(SHEETS_CONFIG.sheets.ROLE_ASSIGNMENTS, `A${rowNumber}:H${rowNumber}`, [row])
+    async queryRoleAssignments(query?: RoleAssignmentQuery): Promise<Page<RoleAssignment>> {
+        const { items } = await readTable('ROLE_ASSIGNMENTS')
+        return runQuery(ROLE_ASSIGNMENT_QUERY, items, query)
     },
 
     // ==========================================================================
@@ -292,8 +553,7 @@ export const sheetsAdapter: DataService = {
     // ==========================================================================
 
     async getModules(): Promise<Module[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.MODULES)
-        return rows.slice(1).map(mapRowToModule)
+        return (await readTable('MODULES')).items
     },
 
     async getActiveModules(): Promise<Module[]> {
@@ -303,19 +563,125 @@ export const sheetsAdapter: DataService = {
             .sort((a, b) => a.sort_order - b.sort_order)
     },
 
+    async getModuleById(moduleId: string): Promise<Module | null> {
+        const modules = await this.getModules()
+        return modules.find(m => m.module_id === moduleId) || null
+    },
+
+    async createModule(module: Omit<Module, 'module_id' | 'created_at' | 'updated_at'>): Promise<Module> {
+        const newModule: Module = {
+            ...module,
+            module_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        await withSheetLock(SHEETS_CONFIG.sheets.MODULES, async () => {
+            await checkModule(this, newModule)
+            await appendItems('MODULES', [newModule])
+        })
+
+        return newModule
+    },
+
+    async updateModule(
+        moduleId: string,
+        updates: Partial<Omit<Module, 'module_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Module> {
+        return updateItem(
+            'MODULES',
+            moduleId,
+            async module => {
+                const updatedModule = { ...module, ...updates, updated_at: now() }
+                await checkModule(this, updatedModule, module)
+                return updatedModule
+            },
+            `Module not found: ${moduleId}`
+        )
+    },
+
+    async deactivateModule(moduleId: string): Promise<Module> {
+        return this.updateModule(moduleId, { is_active: false })
+    },
+
     // ==========================================================================
     // PERMISSIONS
     // ==========================================================================
 
     async getPermissions(roleId: string): Promise<Permission[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.PERMISSIONS)
-        const permissions = rows.slice(1).map(mapRowToPermission)
-        return permissions.filter(p => p.role_id === roleId && p.is_active)
+        const { items } = await readTable('PERMISSIONS')
+        return items.filter(p => p.role_id === roleId && p.is_active)
     },
 
     async getAllPermissions(): Promise<Permission[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.PERMISSIONS)
-        return rows.slice(1).map(mapRowToPermission).filter(p => p.is_active)
+        const { items } = await readTable('PERMISSIONS')
+        return items.filter(p => p.is_active)
+    },
+
+    async getPermissionById(permissionId: string): Promise<Permission | null> {
+        const { items } = await readTable('PERMISSIONS')
+        return items.find(p => p.permission_id === permissionId) || null
+    },
+
+    async createPermission(
+        permission: Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>
+    ): Promise<Permission> {
+        const newPermission: Permission = {
+            ...permission,
+            permission_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        await withSheetLock(SHEETS_CONFIG.sheets.PERMISSIONS, async () => {
+            await checkPermission(this, newPermission)
+            await appendItems('PERMISSIONS', [newPermission])
+        })
+
+        return newPermission
+    },
+
+    async updatePermission(
+        permissionId: string,
+        updates: Partial<Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Permission> {
+        return updateItem(
+            'PERMISSIONS',
+            permissionId,
+            async permission => {
+                const updatedPermission = { ...permission, ...updates, updated_at: now() }
+                // Deactivating never conflicts, even on an inactive role
+                if (updatedPermission.is_active) {
+                    await checkPermission(this, updatedPermission)
+                }
+                return updatedPermission
+            },
+            `Permission not found: ${permissionId}`
+        )
+    },
+
+    async deactivatePermission(permissionId: string): Promise<Permission> {
+        return this.updatePermission(permissionId, { is_active: false })
+    },
+
+    // ==========================================================================
+    // USER ACCESS
+    // ==========================================================================
+
+    async getUserAccess(userId: string): Promise<UserAccess> {
+        const { ROLE_ASSIGNMENTS, ROLES, PERMISSIONS } = SHEETS_CONFIG.sheets
+        const sheetRows = await readSheets([ROLE_ASSIGNMENTS, ROLES, PERMISSIONS])
+
+        const assignments = parseTable('ROLE_ASSIGNMENTS', sheetRows[ROLE_ASSIGNMENTS]).items
+            .filter(a => a.user_id === userId && a.is_active)
+        const roleIds = new Set(assignments.map(a => a.role_id))
+
+        return {
+            assignments,
+            roles: parseTable('ROLES', sheetRows[ROLES]).items.filter(r => roleIds.has(r.role_id)),
+            permissions: parseTable('PERMISSIONS', sheetRows[PERMISSIONS]).items
+                .filter(p => roleIds.has(p.role_id) && p.is_active),
+        }
     },
 
     // ==========================================================================
@@ -323,9 +689,8 @@ export const sheetsAdapter: DataService = {
     // ==========================================================================
 
     async getSiteConfig(siteCode: string): Promise<SiteConfig[]> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.SITE_CONFIG)
-        const configs = rows.slice(1).map(mapRowToSiteConfig)
-        return configs.filter(c => c.site_code === siteCode && c.is_active)
+        const { items } = await readTable('SITE_CONFIG')
+        return items.filter(c => c.site_code === siteCode && c.is_active)
     },
 
     async getConfigValue(siteCode: string, key: string): Promise<string | null> {
@@ -334,10 +699,60 @@ export const sheetsAdapter: DataService = {
         return config?.config_value || null
     },
 
+    async getAllSiteConfig(): Promise<SiteConfig[]> {
+        return (await readTable('SITE_CONFIG')).items
+    },
+
+    async getSiteConfigById(configId: string): Promise<SiteConfig | null> {
+        const configs = await this.getAllSiteConfig()
+        return configs.find(c => c.config_id === configId) || null
+    },
+
+    async createSiteConfig(config: Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>): Promise<SiteConfig> {
+        const newConfig: SiteConfig = {
+            ...config,
+            config_id: generateId(),
+            created_at: now(),
+            updated_at: now(),
+        }
+
+        await withSheetLock(SHEETS_CONFIG.sheets.SITE_CONFIG, async () => {
+            await checkSiteConfig(this, newConfig)
+            await appendItems('SITE_CONFIG', [newConfig])
+        })
+
+        return newConfig
+    },
+
+    async updateSiteConfig(
+        configId: string,
+        updates: Partial<Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>>
+    ): Promise<SiteConfig> {
+        return updateItem(
+            'SITE_CONFIG',
+            configId,
+            async config => {
+                const updatedConfig = { ...config, ...updates, updated_at: now() }
+                await checkSiteConfig(this, updatedConfig)
+                return updatedConfig
+            },
+            `Site config not found: ${configId}`
+        )
+    },
+
+    async deactivateSiteConfig(configId: string): Promise<SiteConfig> {
+        return this.updateSiteConfig(configId, { is_active: false })
+    },
+
     // ==========================================================================
     // TRANSACTION LOG
     // ==========================================================================
 
+    async getTransactionLog(txId: string): Promise<TransactionLog | null> {
+        const { items } = await readTable('TRANSACTION_LOG')
+        return items.find(l => l.tx_id === txId) || null
+    },
+
     async createTransactionLog(
         log: Omit<TransactionLog, 'tx_id' | 'started_at'>
     ): Promise<TransactionLog> {
@@ -347,53 +762,22 @@ export const sheetsAdapter: DataService = {
             started_at: now(),
         }
 
-        const row = [
-            newLog.tx_id,
-            newLog.user_id,
-            newLog.module_code,
-            newLog.action,
-            newLog.entity_type,
-            newLog.entity_id || '',
-            newLog.status,
-            newLog.payload || '',
-            newLog.error_message || '',
-            newLog.started_at,
-            newLog.completed_at || '',
-            newLog.duration_ms?.toString() || '',
-        ]
-
-        await sheets.append(SHEETS_CONFIG.sheets.TRANSACTION_LOG, [row])
+        await queueItems('TRANSACTION_LOG', [newLog])
         return newLog
     },
 
     async updateTransactionLog(txId: string, updates: Partial<TransactionLog>): Promise<void> {
-        const rows = await sheets.read(SHEETS_CONFIG.sheets.TRANSACTION_LOG)
-        const logs = rows.slice(1).map(mapRowToTransactionLog)
-        const index = logs.findIndex(l => l.tx_id === txId)
-
-        if (index === -1) {
-            throw new Error(`Transaction log not found: ${txId}`)
-        }
-
-        const updatedLog = { ...logs[index], ...updates }
-
-        const row = [
-            updatedLog.tx_id,
-            updatedLog.user_id,
-            updatedLog.module_code,
-            updatedLog.action,
-            updatedLog.entity_type,
-            updatedLog.entity_id || '',
-            updatedLog.status,
-            updatedLog.payload || '',
-            updatedLog.error_message || '',
-            updatedLog.started_at,
-            updatedLog.completed_at || '',
-            updatedLog.duration_ms?.toString() || '',
-        ]
+        await updateItem(
+            'TRANSACTION_LOG',
+            txId,
+            log => ({ ...log, ...updates }),
+            `Transaction log not found: ${txId}`
+        )
+    },
 
-        const rowNumber = index + 2
-        await sheets.write(SHEETS_CONFIG.sheets.TRANSACTION_LOG, `A${rowNumber}:L${rowNumber}`, [row])
+    async queryTransactionLogs(query?: TransactionLogQuery): Promise<Page<TransactionLog>> {
+        const { items } = await readTable('TRANSACTION_LOG')
+        return runQuery(TRANSACTION_LOG_QUERY, items, query)
     },
 
     // ==========================================================================
@@ -407,20 +791,124 @@ export const sheetsAdapter: DataService = {
             timestamp: now(),
         }
 
-        const row = [
-            newLog.log_id,
-            newLog.timestamp,
-            newLog.level,
-            newLog.user_id || '',
-            newLog.module_code || '',
-            newLog.action || '',
-            newLog.message,
-            newLog.details || '',
-            newLog.correlation_id || '',
-            newLog.ip_address || '',
-            newLog.user_agent || '',
-        ]
-
-        await sheets.append(SHEETS_CONFIG.sheets.SYSTEM_LOG, [row])
+        await queueItems('SYSTEM_LOG', [newLog])
+    },
+
+    async querySystemLogs(query?: SystemLogQuery): Promise<Page<SystemLog>> {
+        const { items } = await readTable('SYSTEM_LOG')
+        return runQuery(SYSTEM_LOG_QUERY, items, query)
+    },
+
+    // ==========================================================================
+    // SESSION CACHE
+    // ==========================================================================
+
+    async getCacheEntry(key: string): Promise<SessionCache | null> {
+        // Newest match: concurrent sets from two instances can leave a duplicate until compaction
+        const entry = (await readTable('SESSION_CACHE')).items
+            .filter(e => e.cache_key === key)
+            .reduce<SessionCache | undefined>(
+                (newest, e) => (!newest || Date.parse(e.created_at) >= Date.parse(newest.created_at) ? e : newest),
+                undefined
+            )
+
+        if (!entry || isExpired(entry)) {
+            return null
+        }
+
+        const hits = (pendingCacheHits.get(key) ?? 0) + 1
+        pendingCacheHits.set(key, hits)
+        return { ...entry, hit_count: entry.hit_count + hits }
+    },
+
+    async setCacheEntry(key: string, value: string, ttlMs: number): Promise<SessionCache> {
+        const entry = cacheEntry(key, value, ttlMs)
+        pendingCacheHits.delete(key)
+
+        // Lookup and append under one lock, so concurrent sets in this process append once
+        return withSheetLock(SHEETS_CONFIG.sheets.SESSION_CACHE, async () => {
+            try {
+                return await updateLockedItem('SESSION_CACHE', key, () => entry, `Cache entry not found: ${key}`)
+            } catch (error) {
+                if (!(error instanceof NotFoundError)) throw error
+            }
+
+            await appendItems('SESSION_CACHE', [entry])
+            return entry
+        })
+    },
+
+    async deleteCacheEntry(key: string): Promise<boolean> {
+        return (await compactCache(entry => entry.cache_key === key)) > 0
+    },
+
+    async deleteCacheEntries(prefix: string): Promise<number> {
+        return compactCache(entry => entry.cache_key.startsWith(prefix))
+    },
+
+    async sweepCacheEntries(): Promise<number> {
+        return compactCache(entry => isExpired(entry))
+    },
+
+    // ==========================================================================
+    // BULK TABLE ACCESS
+    // ==========================================================================
+
+    async exportTable<T extends TableName>(table: T): Promise<DataTables[T]> {
+        return (await readTable(table)).items
+    },
+
+    async importTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void> {
+        // Reject the whole import before anything is written
+        rows.forEach(row => assertEntity(table, row))
+        const key = TABLE_KEYS[table] as string
+
+        // One fresh read, then batched row updates and a single append. Like
+        // replaceTable, rows edited by hand while the import runs are overwritten;
+        // upserts are idempotent, so the import can simply be re-run.
+        await withSheetLock(SHEETS_CONFIG.sheets[table], async () => {
+            const sheet = await readTable(table, { fresh: true })
+            // Keyed on raw rows, so imported rows also replace quarantined ones
+            const indexes = new Map(
+                sheet.rows.map((row, index) => [rowToRecord(sheet.map, row)[key], index])
+            )
+
+            const updates: { range: string; values: unknown[][] }[] = []
+            const appends: object[] = []
+            for (const item of rows as unknown as Record<string, unknown>[]) {
+                const index = indexes.get(String(item[key]))
+
+                if (index === undefined) {
+                    appends.push(item)
+                } else {
+                    // Row index + 2 (1 for header, 1 for 1-indexed); unknown columns keep their cells
+                    updates.push({
+                        range: `${sheet.map.sheetName}!${rowRange(sheet.map, index + 2)}`,
+                        values: [recordToRow(sheet.map, item, sheet.rows[index])],
+                    })
+                }
+            }
+
+            await writeRanges(sheet.map.sheetName, updates)
+            if (appends.length > 0) {
+                await appendRows(sheet.map.sheetName, appends.map(item => recordToRow(sheet.map, item)))
+            }
+        })
+    },
+
+    async replaceTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void> {
+        rows.forEach(row => assertEntity(table, row))
+
+        await withSheetLock(SHEETS_CONFIG.sheets[table], async () => {
+            await rewriteTable(await readTable(table, { fresh: true }), rows)
+        })
+    },
+
+    // ==========================================================================
+    // DURABILITY
+    // ==========================================================================
+
+    async flush(): Promise<void> {
+        await appendQueue.flush()
     },
 }
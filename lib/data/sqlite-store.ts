@@ -0,0 +1,90 @@
+/**
+ * SQLite Snapshot Store
+ *
+ * Optional persistence for the memory adapter.
+ * Each table is stored as (row_key, position, data JSON) so rows keep their
+ * insertion order, like sheet rows. Uses sql.js (WASM), so no native build.
+ */
+
+import { existsSync } from 'fs'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import type { Database } from 'sql.js'
+import { TABLE_KEYS, TABLE_NAMES } from './tables'
+import type { DataTables, TableName } from './types'
+
+export class SqliteStore {
+    private constructor(
+        private readonly db: Database,
+        private readonly filePath: string
+    ) {}
+
+    /**
+     * Open (or create) the database file
+     */
+    static async open(filePath: string): Promise<SqliteStore> {
+        // Loaded on demand so the WASM module is only pulled in when persistence is on
+        const { default: initSqlJs } = await import('sql.js')
+        const SQL = await initSqlJs()
+
+        const data = existsSync(filePath) ? await readFile(filePath) : undefined
+        const db = new SQL.Database(data)
+
+        for (const table of TABLE_NAMES) {
+            db.run(`CREATE TABLE IF NOT EXISTS ${table} (
+                row_key TEXT PRIMARY KEY,
+                position INTEGER NOT NULL,
+                data TEXT NOT NULL
+            )`)
+        }
+
+        return new SqliteStore(db, filePath)
+    }
+
+    /**
+     * Read every table (empty tables come back as [])
+     */
+    load(): DataTables {
+        const tables = {} as Record<TableName, unknown[]>
+
+        for (const table of TABLE_NAMES) {
+            const result = this.db.exec(`SELECT data FROM ${table} ORDER BY position`)
+            const rows = result[0]?.values ?? []
+            tables[table] = rows.map(([data]) => JSON.parse(String(data)))
+        }
+
+        return tables as DataTables
+    }
+
+    /**
+     * Replace all stored rows with the given tables and flush to disk
+     */
+    async save(tables: DataTables): Promise<void> {
+        this.db.run('BEGIN')
+        try {
+            for (const table of TABLE_NAMES) {
+                const key = TABLE_KEYS[table] as string
+                this.db.run(`DELETE FROM ${table}`)
+
+                const insert = this.db.prepare(
+                    `INSERT OR REPLACE INTO ${table} (row_key, position, data) VALUES (?, ?, ?)`
+                )
+                tables[table].forEach((row, position) => {
+                    const record = row as unknown as Record<string, unknown>
+                    insert.run([String(record[key]), position, JSON.stringify(row)])
+                })
+                insert.free()
+            }
+            this.db.run('COMMIT')
+        } catch (error) {
+            this.db.run('ROLLBACK')
+            throw error
+        }
+
+        // Write to a temp file first so a crash never leaves a half-written database
+        await mkdir(path.dirname(this.filePath), { recursive: true })
+        const tempPath = `${this.filePath}.tmp`
+        await writeFile(tempPath, this.db.export())
+        await rename(tempPath, this.filePath)
+    }
+}
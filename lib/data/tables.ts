@@ -0,0 +1,79 @@
+/**
+ * Table Registry
+ *
+ * Storage-agnostic list of platform tables and their primary keys.
+ * Table names match SHEETS_CONFIG.sheets.
+ */
+
+import type { DataTables, TableName } from './types'
+
+// Primary key column of each table
+export const TABLE_KEYS: { [T in TableName]: keyof DataTables[T][number] } = {
+    USERS: 'user_id',
+    ROLES: 'role_id',
+    ROLE_ASSIGNMENTS: 'assignment_id',
+    MODULES: 'module_id',
+    PERMISSIONS: 'permission_id',
+    SITE_CONFIG: 'config_id',
+    TRANSACTION_LOG: 'tx_id',
+    SYSTEM_LOG: 'log_id',
+    SESSION_CACHE: 'cache_key',
+}
+
+export const TABLE_NAMES = Object.keys(TABLE_KEYS) as TableName[]
+
+// Columns of each table, in sheet order (see SHEETS_CONFIG.columns)
+export const TABLE_COLUMNS: { [T in TableName]: (keyof DataTables[T][number])[] } = {
+    USERS: [
+        'user_id', 'email', 'name', 'auth_provider', 'is_active',
+        'created_at', 'updated_at', 'last_login_at', 'metadata',
+    ],
+    ROLES: [
+        'role_id', 'role_code', 'role_name', 'description', 'is_active',
+        'created_at', 'updated_at',
+    ],
+    ROLE_ASSIGNMENTS: [
+        'assignment_id', 'user_id', 'role_id', 'site_code', 'assigned_by',
+        'assigned_at', 'expires_at', 'is_active',
+    ],
+    MODULES: [
+        'module_id', 'module_code', 'module_name', 'description', 'icon', 'route',
+        'is_active', 'sort_order', 'created_at', 'updated_at',
+    ],
+    PERMISSIONS: [
+        'permission_id', 'role_id', 'module_code', 'action', 'resource', 'conditions',
+        'is_active', 'created_at', 'updated_at',
+    ],
+    SITE_CONFIG: [
+        'config_id', 'site_code', 'config_key', 'config_value', 'data_type', 'description',
+        'is_active', 'created_at', 'updated_at',
+    ],
+    TRANSACTION_LOG: [
+        'tx_id', 'user_id', 'module_code', 'action', 'entity_type', 'entity_id', 'status',
+        'payload', 'error_message', 'started_at', 'completed_at', 'duration_ms',
+    ],
+    SYSTEM_LOG: [
+        'log_id', 'timestamp', 'level', 'user_id', 'module_code', 'action', 'message',
+        'details', 'correlation_id', 'ip_address', 'user_agent',
+    ],
+    SESSION_CACHE: [
+        'cache_key', 'cache_value', 'created_at', 'expires_at', 'hit_count',
+    ],
+}
+
+/**
+ * A snapshot with every table present and empty
+ */
+export function emptyTables(): DataTables {
+    return {
+        USERS: [],
+        ROLES: [],
+        ROLE_ASSIGNMENTS: [],
+        MODULES: [],
+        PERMISSIONS: [],
+        SITE_CONFIG: [],
+        TRANSACTION_LOG: [],
+        SYSTEM_LOG: [],
+        SESSION_CACHE: [],
+    }
+}
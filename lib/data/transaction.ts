@@ -0,0 +1,172 @@
+/**
+ * Transactions
+ *
+ * Audit trail for user-initiated writes in TRANSACTION_LOG. withTransaction
+ * records a PENDING row, runs the work, then marks the row SUCCESS or FAILED
+ * with completed_at and duration_ms (and error_message on failure).
+ *
+ * Multi-step work is a saga: each write runs through tx.step() with an undo
+ * action. When a later step (or anything else in the work) fails, the undo
+ * actions of the completed steps run newest first. No store offers atomic
+ * multi-row writes (Sheets certainly doesn't), so this is how a half-done
+ * operation is taken back. Every failed step and compensation is written to
+ * SYSTEM_LOG with correlation_id = tx_id.
+ *
+ * Domain events published by the work carry userId as actor and the tx_id.
+ *
+ * The work runs only once its PENDING row is stored (flushed, on adapters that
+ * buffer log writes); if it can't be stored, the work never starts. Its result
+ * or error is passed through unchanged; a failure to record the outcome is
+ * logged, never thrown, so the audit trail can't turn a completed write into
+ * an error.
+ */
+
+import { now } from '../utils'
+import { runWithActor } from './events'
+import { dataService } from './index'
+import type { DataService, SystemLog } from './types'
+
+export interface TransactionEntity {
+    type: string // entity_type, e.g. 'role' or 'role_assignment'
+    id?: string
+    payload?: unknown // Stored as JSON
+}
+
+export interface TransactionScope {
+    txId: string
+    // Record the affected row once it's known (e.g. the ID of a created row)
+    setEntityId(entityId: string): void
+    /**
+     * Run one write; if the transaction later fails, `undo` gets its result.
+     * Undo actions should only take back this step (e.g. deactivate what it created).
+     */
+    step<T>(name: string, run: () => Promise<T>, undo: (result: T) => Promise<unknown>): Promise<T>
+}
+
+interface CompletedStep {
+    name: string
+    undo: () => Promise<unknown>
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Run `fn` as transaction `action` of `userId` in `moduleCode` against `entity`
+ */
+export async function withTransaction<R>(
+    userId: string,
+    moduleCode: string,
+    action: string,
+    entity: TransactionEntity,
+    fn: (tx: TransactionScope) => Promise<R>,
+    service: DataService = dataService
+): Promise<R> {
+    const log = await service.createTransactionLog({
+        user_id: userId,
+        module_code: moduleCode,
+        action,
+        entity_type: entity.type,
+        entity_id: entity.id,
+        status: 'PENDING',
+        payload: entity.payload === undefined ? undefined : JSON.stringify(entity.payload),
+    })
+    // Log writes may be buffered (Sheets); the work must not start before its PENDING row lands
+    await service.flush()
+
+    const startedAt = Date.now()
+    let entityId = entity.id
+    const completed: CompletedStep[] = []
+
+    const record = async (level: SystemLog['level'], stepAction: string, message: string, details: object) => {
+        try {
+            await service.createSystemLog({
+                level,
+                user_id: userId,
+                module_code: moduleCode,
+                action: stepAction,
+                message,
+                details: JSON.stringify(details),
+                correlation_id: log.tx_id,
+            })
+        } catch (error) {
+            console.error(`❌ Failed to log ${stepAction} for transaction ${log.tx_id}:`, error)
+        }
+    }
+
+    const scope: TransactionScope = {
+        txId: log.tx_id,
+        setEntityId(id) {
+            entityId = id
+        },
+        async step(name, run, undo) {
+            const result = await run().catch(async error => {
+                await record('WARN', 'saga_step_failed', `${action}: step ${name} failed`, {
+                    step: name,
+                    error: errorMessage(error),
+                })
+                throw error
+            })
+
+            completed.push({ name, undo: () => undo(result) })
+            return result
+        },
+    }
+
+    /**
+     * Undo completed steps newest first; a failed undo is logged and the rest still run.
+     * Returns the steps that could not be undone.
+     */
+    const compensate = async (): Promise<string[]> => {
+        const stuck: string[] = []
+
+        for (const step of [...completed].reverse()) {
+            try {
+                await step.undo()
+                await record('INFO', 'saga_step_compensated', `${action}: undid step ${step.name}`, { step: step.name })
+            } catch (error) {
+                stuck.push(step.name)
+                console.error(`❌ Could not undo step ${step.name} of transaction ${log.tx_id}:`, error)
+                await record('ERROR', 'saga_compensation_failed', `${action}: could not undo step ${step.name}`, {
+                    step: step.name,
+                    error: errorMessage(error),
+                })
+            }
+        }
+
+        return stuck
+    }
+
+    const complete = async (status: 'SUCCESS' | 'FAILED', message?: string) => {
+        try {
+            await service.updateTransactionLog(log.tx_id, {
+                status,
+                entity_id: entityId,
+                error_message: message,
+                completed_at: now(),
+                duration_ms: Date.now() - startedAt,
+            })
+        } catch (error) {
+            console.error(`❌ Failed to record ${status} for transaction ${log.tx_id}:`, error)
+        }
+    }
+
+    try {
+        const result = await runWithActor({ actor: userId, txId: log.tx_id }, () => fn(scope))
+        await complete('SUCCESS')
+        return result
+    } catch (error) {
+        let message = errorMessage(error)
+
+        if (completed.length > 0) {
+            const stuck = await runWithActor({ actor: userId, txId: log.tx_id }, compensate)
+            message += stuck.length === 0
+                ? ` (rolled back ${completed.length} step${completed.length === 1 ? '' : 's'})`
+                : ` (rollback incomplete: could not undo ${stuck.join(', ')})`
+        }
+
+        await complete('FAILED', message)
+        throw error
+    }
+}
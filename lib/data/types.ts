@@ -147,6 +147,100 @@ export interface SessionCache {
     hit_count: number
 }
 
+// ============================================================================
+// USER ACCESS (bulk RBAC read)
+// ============================================================================
+
+export interface UserAccess {
+    assignments: RoleAssignment[] // Active assignments of the user
+    roles: Role[] // Roles referenced by those assignments (active or not)
+    permissions: Permission[] // Active permissions of those roles
+}
+
+// ============================================================================
+// TABLE SNAPSHOT
+// ============================================================================
+
+/**
+ * Full contents of every table, keyed by sheet name
+ * (fixtures, embedded storage, backups)
+ */
+export interface DataTables {
+    USERS: User[]
+    ROLES: Role[]
+    ROLE_ASSIGNMENTS: RoleAssignment[]
+    MODULES: Module[]
+    PERMISSIONS: Permission[]
+    SITE_CONFIG: SiteConfig[]
+    TRANSACTION_LOG: TransactionLog[]
+    SYSTEM_LOG: SystemLog[]
+    SESSION_CACHE: SessionCache[]
+}
+
+export type TableName = keyof DataTables
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface PageQuery<F, S extends string> {
+    filter?: F
+    sortBy?: S
+    sortDir?: SortDirection
+    limit?: number // Default 50, capped at 500
+    cursor?: string // Opaque; nextCursor of the previous page
+}
+
+export interface Page<T> {
+    items: T[]
+    nextCursor: string | null // null on the last page
+}
+
+export interface UserFilter {
+    isActive?: boolean
+    emailContains?: string // Case-insensitive
+    authProvider?: User['auth_provider']
+}
+
+export type UserSortField = 'created_at' | 'email' | 'name'
+export type UserQuery = PageQuery<UserFilter, UserSortField>
+
+export interface RoleAssignmentFilter {
+    userId?: string
+    roleId?: string
+    siteCode?: string
+    isActive?: boolean
+}
+
+export type RoleAssignmentSortField = 'assigned_at'
+export type RoleAssignmentQuery = PageQuery<RoleAssignmentFilter, RoleAssignmentSortField>
+
+export interface TransactionLogFilter {
+    userId?: string
+    moduleCode?: string
+    action?: string
+    status?: TransactionLog['status']
+    startedAfter?: string // Inclusive ISO timestamp
+    startedBefore?: string // Exclusive ISO timestamp
+}
+
+export type TransactionLogSortField = 'started_at'
+export type TransactionLogQuery = PageQuery<TransactionLogFilter, TransactionLogSortField>
+
+export interface SystemLogFilter {
+    level?: SystemLog['level']
+    userId?: string
+    moduleCode?: string
+    correlationId?: string
+    after?: string // Inclusive ISO timestamp
+    before?: string // Exclusive ISO timestamp
+}
+
+export type SystemLogSortField = 'timestamp'
+export type SystemLogQuery = PageQuery<SystemLogFilter, SystemLogSortField>
+
 // ============================================================================
 // DATA SERVICE INTERFACE
 // ============================================================================
@@ -156,35 +250,93 @@ export interface DataService {
     getUsers(): Promise<User[]>
     getUserById(userId: string): Promise<User | null>
     getUserByEmail(email: string): Promise<User | null>
-    createUser(user: Omit<User, 'user_id' | 'created_at' | 'updated_at'>): Promise<User>
+    // user_id may be supplied (e.g. the auth provider's UID); generated otherwise
+    createUser(user: Omit<User, 'user_id' | 'created_at' | 'updated_at'> & Partial<Pick<User, 'user_id'>>): Promise<User>
     updateUser(userId: string, updates: Partial<User>): Promise<User>
+    queryUsers(query?: UserQuery): Promise<Page<User>>
 
     // Roles
     getRoles(): Promise<Role[]>
     getRoleById(roleId: string): Promise<Role | null>
     getRoleByCode(roleCode: string): Promise<Role | null>
+    // role_code is unique; deactivating a role keeps its assignments and permissions
+    createRole(role: Omit<Role, 'role_id' | 'created_at' | 'updated_at'>): Promise<Role>
+    updateRole(roleId: string, updates: Partial<Omit<Role, 'role_id' | 'created_at' | 'updated_at'>>): Promise<Role>
+    deactivateRole(roleId: string): Promise<Role>
 
     // Role Assignments
+    // assignRole/createPermission enforce references and uniqueness (see integrity.ts)
     getRoleAssignments(userId: string): Promise<RoleAssignment[]>
+    // By ID, revoked ones included
+    getRoleAssignmentById(assignmentId: string): Promise<RoleAssignment | null>
     assignRole(assignment: Omit<RoleAssignment, 'assignment_id' | 'assigned_at'>): Promise<RoleAssignment>
     revokeRole(assignmentId: string): Promise<void>
+    queryRoleAssignments(query?: RoleAssignmentQuery): Promise<Page<RoleAssignment>>
 
     // Modules
     getModules(): Promise<Module[]>
     getActiveModules(): Promise<Module[]>
+    getModuleById(moduleId: string): Promise<Module | null>
+    // module_code is unique and can't change while active permissions use it
+    createModule(module: Omit<Module, 'module_id' | 'created_at' | 'updated_at'>): Promise<Module>
+    updateModule(moduleId: string, updates: Partial<Omit<Module, 'module_id' | 'created_at' | 'updated_at'>>): Promise<Module>
+    deactivateModule(moduleId: string): Promise<Module>
 
     // Permissions
     getPermissions(roleId: string): Promise<Permission[]>
     getAllPermissions(): Promise<Permission[]>
+    // By ID, inactive ones included
+    getPermissionById(permissionId: string): Promise<Permission | null>
+    createPermission(permission: Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>): Promise<Permission>
+    updatePermission(
+        permissionId: string,
+        updates: Partial<Omit<Permission, 'permission_id' | 'created_at' | 'updated_at'>>
+    ): Promise<Permission>
+    deactivatePermission(permissionId: string): Promise<Permission>
+
+    // RBAC: a user's assignments, roles and permissions in one round trip
+    getUserAccess(userId: string): Promise<UserAccess>
 
     // Site Config
     getSiteConfig(siteCode: string): Promise<SiteConfig[]>
     getConfigValue(siteCode: string, key: string): Promise<string | null>
+    // Every site's entries, inactive ones included; (site_code, config_key) is unique among active entries
+    getAllSiteConfig(): Promise<SiteConfig[]>
+    getSiteConfigById(configId: string): Promise<SiteConfig | null>
+    createSiteConfig(config: Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>): Promise<SiteConfig>
+    updateSiteConfig(
+        configId: string,
+        updates: Partial<Omit<SiteConfig, 'config_id' | 'created_at' | 'updated_at'>>
+    ): Promise<SiteConfig>
+    deactivateSiteConfig(configId: string): Promise<SiteConfig>
 
     // Transaction Log
+    getTransactionLog(txId: string): Promise<TransactionLog | null>
     createTransactionLog(log: Omit<TransactionLog, 'tx_id' | 'started_at'>): Promise<TransactionLog>
     updateTransactionLog(txId: string, updates: Partial<TransactionLog>): Promise<void>
+    queryTransactionLogs(query?: TransactionLogQuery): Promise<Page<TransactionLog>>
 
     // System Log
     createSystemLog(log: Omit<SystemLog, 'log_id' | 'timestamp'>): Promise<void>
+    querySystemLogs(query?: SystemLogQuery): Promise<Page<SystemLog>>
+
+    // Session Cache (SESSION_CACHE): shared key/value entries with expiry
+    // getCacheEntry returns null for missing or expired keys and counts a hit
+    getCacheEntry(key: string): Promise<SessionCache | null>
+    setCacheEntry(key: string, value: string, ttlMs: number): Promise<SessionCache>
+    deleteCacheEntry(key: string): Promise<boolean>
+    deleteCacheEntries(prefix: string): Promise<number>
+    // Removes expired entries; returns how many
+    sweepCacheEntries(): Promise<number>
+
+    // Bulk table access (migration, backup)
+    // Rows keep their IDs and timestamps; importTable upserts by primary key,
+    // replaceTable drops every row not in `rows`
+    exportTable<T extends TableName>(table: T): Promise<DataTables[T]>
+    importTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void>
+    replaceTable<T extends TableName>(table: T, rows: DataTables[T]): Promise<void>
+
+    // Resolves once every buffered write is durable; rejects if one failed.
+    // Log writes (createTransactionLog, createSystemLog) may be buffered.
+    flush(): Promise<void>
 }
@@ -0,0 +1,91 @@
+/**
+ * PostgreSQL Client
+ *
+ * Features:
+ * - Connection pooling
+ * - Typed query helper
+ * - Transactions (BEGIN / COMMIT / ROLLBACK)
+ */
+
+import { Pool, type PoolClient, type QueryResultRow } from 'pg'
+import { DB_CONFIG, assertDbConfig } from './config'
+
+// ============================================================================
+// DB CLIENT
+// ============================================================================
+
+class DbClient {
+    private pool: Pool
+
+    constructor() {
+        assertDbConfig()
+
+        this.pool = new Pool({
+            connectionString: DB_CONFIG.connectionString,
+            max: DB_CONFIG.poolSize,
+        })
+
+        this.pool.on('error', error => {
+            console.error('PostgreSQL pool error:', error)
+        })
+    }
+
+    /**
+     * Run a query and return its rows
+     */
+    async query<T extends QueryResultRow = QueryResultRow>(
+        sql: string,
+        params: unknown[] = []
+    ): Promise<T[]> {
+        const result = await this.pool.query<T>(sql, params)
+        return result.rows
+    }
+
+    /**
+     * Run a function inside a transaction (rolled back if it throws)
+     */
+    async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+        const client = await this.pool.connect()
+
+        try {
+            await client.query('BEGIN')
+            const result = await fn(client)
+            await client.query('COMMIT')
+            return result
+        } catch (error) {
+            await client.query('ROLLBACK')
+            throw error
+        } finally {
+            client.release()
+        }
+    }
+
+    /**
+     * Close all pooled connections
+     */
+    async close(): Promise<void> {
+        await this.pool.end()
+    }
+}
+
+// Singleton instance
+let dbClient: DbClient | null = null
+
+export function getDbClient(): DbClient {
+    if (!dbClient) {
+        dbClient = new DbClient()
+    }
+    return dbClient
+}
+
+/**
+ * Close the pool if one was opened (for CLI scripts)
+ */
+export async function closeDbClient(): Promise<void> {
+    if (dbClient) {
+        await dbClient.close()
+        dbClient = null
+    }
+}
+
+export type { DbClient }
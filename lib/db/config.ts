@@ -0,0 +1,33 @@
+/**
+ * PostgreSQL Configuration
+ */
+
+export const DB_CONFIG = {
+    connectionString: process.env.DATABASE_URL!,
+    poolSize: parseInt(process.env.DATABASE_POOL_SIZE || '10'),
+
+    // Table names (match lib/db/migrations)
+    tables: {
+        USERS: 'users',
+        ROLES: 'roles',
+        ROLE_ASSIGNMENTS: 'role_assignments',
+        MODULES: 'modules',
+        PERMISSIONS: 'permissions',
+        SITE_CONFIG: 'site_config',
+        TRANSACTION_LOG: 'transaction_log',
+        SYSTEM_LOG: 'system_log',
+        SESSION_CACHE: 'session_cache',
+    },
+
+    // Applied migrations are recorded here
+    migrationsTable: 'schema_migrations',
+} as const
+
+/**
+ * Validate required environment variables
+ */
+export function assertDbConfig(): void {
+    if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL is required')
+    }
+}
@@ -0,0 +1,62 @@
+/**
+ * PostgreSQL Migration Runner
+ *
+ * Applies lib/db/migrations/*.sql in filename order.
+ * Each file runs in its own transaction and is recorded in schema_migrations,
+ * so re-running only applies new files.
+ */
+
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { getDbClient } from './client'
+import { DB_CONFIG } from './config'
+
+const MIGRATIONS_DIR = path.join(__dirname, 'migrations')
+
+export interface MigrationResult {
+    applied: string[]
+    skipped: string[]
+}
+
+export async function runMigrations(): Promise<MigrationResult> {
+    const db = getDbClient()
+
+    await db.query(`
+        CREATE TABLE IF NOT EXISTS ${DB_CONFIG.migrationsTable} (
+            name        TEXT PRIMARY KEY,
+            applied_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+    `)
+
+    const done = await db.query<{ name: string }>(
+        `SELECT name FROM ${DB_CONFIG.migrationsTable}`
+    )
+    const appliedNames = new Set(done.map(row => row.name))
+
+    const files = (await readdir(MIGRATIONS_DIR))
+        .filter(file => file.endsWith('.sql'))
+        .sort()
+
+    const result: MigrationResult = { applied: [], skipped: [] }
+
+    for (const file of files) {
+        if (appliedNames.has(file)) {
+            result.skipped.push(file)
+            continue
+        }
+
+        const sql = await readFile(path.join(MIGRATIONS_DIR, file), 'utf8')
+
+        await db.transaction(async client => {
+            await client.query(sql)
+            await client.query(
+                `INSERT INTO ${DB_CONFIG.migrationsTable} (name) VALUES ($1)`,
+                [file]
+            )
+        })
+
+        result.applied.push(file)
+    }
+
+    return result
+}
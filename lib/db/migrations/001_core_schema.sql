@@ -0,0 +1,135 @@
+-- ============================================================================
+-- CRYSTAL CORE — CORE SCHEMA (PostgreSQL)
+--
+-- Mirrors the Google Sheets schema created by docs/schema-setup.gs.
+-- Column names and order match SHEETS_CONFIG.columns.
+--
+-- Like the sheets, tables carry no foreign keys or unique constraints beyond
+-- primary keys, so both adapters accept exactly the same data.
+-- ============================================================================
+
+-- USERS — Identity table
+CREATE TABLE IF NOT EXISTS users (
+    user_id         TEXT PRIMARY KEY,
+    email           TEXT NOT NULL,
+    name            TEXT NOT NULL DEFAULT '',
+    auth_provider   TEXT NOT NULL CHECK (auth_provider IN ('google', 'email', 'sso')),
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_login_at   TIMESTAMPTZ,
+    metadata        TEXT
+);
+
+CREATE INDEX IF NOT EXISTS users_email_lower_idx ON users (LOWER(email));
+
+-- ROLES — Permission groups
+CREATE TABLE IF NOT EXISTS roles (
+    role_id         TEXT PRIMARY KEY,
+    role_code       TEXT NOT NULL,
+    role_name       TEXT NOT NULL,
+    description     TEXT NOT NULL DEFAULT '',
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ROLE_ASSIGNMENTS — User ↔ Role mapping
+CREATE TABLE IF NOT EXISTS role_assignments (
+    assignment_id   TEXT PRIMARY KEY,
+    user_id         TEXT NOT NULL,
+    role_id         TEXT NOT NULL,
+    site_code       TEXT,
+    assigned_by     TEXT NOT NULL,
+    assigned_at     TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at      TIMESTAMPTZ,
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+CREATE INDEX IF NOT EXISTS role_assignments_user_idx ON role_assignments (user_id) WHERE is_active;
+
+-- MODULES — Feature registry
+CREATE TABLE IF NOT EXISTS modules (
+    module_id       TEXT PRIMARY KEY,
+    module_code     TEXT NOT NULL,
+    module_name     TEXT NOT NULL,
+    description     TEXT NOT NULL DEFAULT '',
+    icon            TEXT NOT NULL DEFAULT '',
+    route           TEXT NOT NULL DEFAULT '',
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE,
+    sort_order      INTEGER NOT NULL DEFAULT 0,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- PERMISSIONS — Role ↔ Module ↔ Action mapping
+CREATE TABLE IF NOT EXISTS permissions (
+    permission_id   TEXT PRIMARY KEY,
+    role_id         TEXT NOT NULL,
+    module_code     TEXT NOT NULL,
+    action          TEXT NOT NULL,
+    resource        TEXT NOT NULL,
+    conditions      TEXT,
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS permissions_role_idx ON permissions (role_id) WHERE is_active;
+
+-- SITE_CONFIG — Multi-site configuration
+CREATE TABLE IF NOT EXISTS site_config (
+    config_id       TEXT PRIMARY KEY,
+    site_code       TEXT NOT NULL,
+    config_key      TEXT NOT NULL,
+    config_value    TEXT NOT NULL DEFAULT '',
+    data_type       TEXT NOT NULL CHECK (data_type IN ('string', 'number', 'boolean', 'json')),
+    description     TEXT NOT NULL DEFAULT '',
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS site_config_site_idx ON site_config (site_code, config_key);
+
+-- TRANSACTION_LOG — Intent logging (WAL pattern)
+CREATE TABLE IF NOT EXISTS transaction_log (
+    tx_id           TEXT PRIMARY KEY,
+    user_id         TEXT NOT NULL,
+    module_code     TEXT NOT NULL,
+    action          TEXT NOT NULL,
+    entity_type     TEXT NOT NULL,
+    entity_id       TEXT,
+    status          TEXT NOT NULL CHECK (status IN ('PENDING', 'SUCCESS', 'FAILED')),
+    payload         TEXT,
+    error_message   TEXT,
+    started_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at    TIMESTAMPTZ,
+    duration_ms     INTEGER
+);
+
+-- SYSTEM_LOG — Error tracking and audit trail
+CREATE TABLE IF NOT EXISTS system_log (
+    log_id          TEXT PRIMARY KEY,
+    timestamp       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    level           TEXT NOT NULL CHECK (level IN ('ERROR', 'WARN', 'INFO', 'DEBUG')),
+    user_id         TEXT,
+    module_code     TEXT,
+    action          TEXT,
+    message         TEXT NOT NULL,
+    details         TEXT,
+    correlation_id  TEXT,
+    ip_address      TEXT,
+    user_agent      TEXT
+);
+
+CREATE INDEX IF NOT EXISTS system_log_timestamp_idx ON system_log (timestamp);
+
+-- SESSION_CACHE — Permission caching
+CREATE TABLE IF NOT EXISTS session_cache (
+    cache_key       TEXT PRIMARY KEY,
+    cache_value     TEXT NOT NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at      TIMESTAMPTZ NOT NULL,
+    hit_count       INTEGER NOT NULL DEFAULT 0
+);
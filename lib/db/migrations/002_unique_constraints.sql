@@ -0,0 +1,32 @@
+-- ============================================================================
+-- CRYSTAL CORE — UNIQUE CONSTRAINTS (PostgreSQL)
+--
+-- lib/data/integrity.ts checks these rules before every write, but a check
+-- and its insert are separate statements: two concurrent requests can both
+-- pass the check. These indexes make the database reject the second write
+-- (SQLSTATE 23505, reported as DuplicateError by lib/data/db.ts).
+--
+-- Each index mirrors one integrity rule. If this migration fails on existing
+-- data, deactivate the duplicate rows it reports and run it again.
+-- ============================================================================
+
+-- role_code is unique across all roles, inactive ones included
+CREATE UNIQUE INDEX IF NOT EXISTS roles_role_code_key ON roles (role_code);
+
+-- module_code is unique across all modules
+CREATE UNIQUE INDEX IF NOT EXISTS modules_module_code_key ON modules (module_code);
+
+-- A user holds a role at most once per site (no site counts as one site)
+CREATE UNIQUE INDEX IF NOT EXISTS role_assignments_active_key
+    ON role_assignments (user_id, role_id, COALESCE(site_code, ''))
+    WHERE is_active;
+
+-- A role holds each (module_code, action, resource) grant at most once
+CREATE UNIQUE INDEX IF NOT EXISTS permissions_active_key
+    ON permissions (role_id, module_code, action, resource)
+    WHERE is_active;
+
+-- A site has at most one active entry per config_key
+CREATE UNIQUE INDEX IF NOT EXISTS site_config_active_key
+    ON site_config (site_code, config_key)
+    WHERE is_active;
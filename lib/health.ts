@@ -0,0 +1,210 @@
+/**
+ * Health and Readiness
+ *
+ * Liveness (/api/health) only says the process serves requests. Readiness
+ * (/api/ready) probes what requests depend on:
+ * - The data store of DATA_ADAPTER: Sheets (one small read outside the circuit
+ *   breakers, plus each operation's breaker and the quota buckets) or Postgres
+ *   (SELECT 1); the memory adapter is always up
+ * - Firebase Admin, which verifies every session token
+ *
+ * Both are critical: readiness fails when either is down. Cache sizes and the
+ * build version are reported for monitoring only.
+ *
+ * Probe results are reused for READINESS_CACHE_MS, so frequent polls don't
+ * spend the Sheets read quota. /api/ready shows only each dependency's status
+ * (toPublicReadiness); the full report is for admins (/api/admin/health).
+ */
+
+import packageJson from '../package.json'
+import { now } from './utils'
+import { DATA_CONFIG } from './data/config'
+import { getSheetsClient } from './sheets/client'
+import { sheetCache } from './sheets/cache'
+import { appendQueue } from './sheets/append-queue'
+import { SHEETS_CONFIG } from './sheets/config'
+import { getDbClient } from './db/client'
+import { getAdminApp } from './auth/providers/firebase-server'
+import { getPermissionCacheSize } from './rbac/permissions'
+
+// A probe slower than this counts as down
+const PROBE_TIMEOUT_MS = parseInt(process.env.READINESS_TIMEOUT_MS || '5000')
+
+// Polls within this window get the previous probe results
+const PROBE_CACHE_MS = parseInt(process.env.READINESS_CACHE_MS || '5000')
+
+const startedAt = Date.now()
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DependencyCheck {
+    status: 'up' | 'down'
+    critical: boolean
+    latencyMs?: number
+    error?: string
+    [detail: string]: unknown
+}
+
+export interface BuildInfo {
+    version: string
+    commit: string | null // BUILD_COMMIT, set by the deploy
+    node: string
+}
+
+// What unauthenticated callers (load balancers) see
+export interface PublicReadiness {
+    ready: boolean
+    checks: Record<string, { status: DependencyCheck['status'] }>
+}
+
+export interface ReadinessReport {
+    ready: boolean
+    checks: Record<string, DependencyCheck>
+    caches: {
+        sheets: { entries: number; hits: number; misses: number }
+        appendQueue: { pendingRows: number }
+        permissions: { backend: string; entries: number | null }
+    }
+    build: BuildInfo
+    checkedAt: string
+}
+
+// ============================================================================
+// PROBES
+// ============================================================================
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Time `probe`; a throw or a timeout is reported as down
+ */
+async function timed(critical: boolean, probe: () => Promise<unknown>): Promise<DependencyCheck> {
+    const started = Date.now()
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+        await Promise.race([
+            probe(),
+            new Promise((_, reject) => {
+                timer = setTimeout(() => reject(new Error(`No response within ${PROBE_TIMEOUT_MS}ms`)), PROBE_TIMEOUT_MS)
+            }),
+        ])
+        return { status: 'up', critical, latencyMs: Date.now() - started }
+    } catch (error) {
+        return { status: 'down', critical, latencyMs: Date.now() - started, error: errorMessage(error) }
+    } finally {
+        clearTimeout(timer)
+    }
+}
+
+async function checkSheets(): Promise<DependencyCheck> {
+    let client: ReturnType<typeof getSheetsClient>
+    try {
+        client = getSheetsClient()
+    } catch (error) {
+        return { status: 'down', critical: true, error: errorMessage(error) }
+    }
+
+    // Outside the read circuit breaker: failed probes never open it for user traffic
+    const check = await timed(true, () => client.probe(SHEETS_CONFIG.metadataSheet, 'A1:B1'))
+    return { ...check, circuitBreakers: client.getCircuitBreakerMetrics(), rateLimits: client.getRateLimitStats() }
+}
+
+async function checkDataStore(): Promise<DependencyCheck> {
+    switch (DATA_CONFIG.adapter) {
+        case 'sheets':
+            return checkSheets()
+        case 'postgres':
+            return timed(true, () => getDbClient().query('SELECT 1'))
+        case 'memory':
+            return { status: 'up', critical: true }
+    }
+}
+
+function checkFirebaseAdmin(): DependencyCheck {
+    try {
+        const app = getAdminApp()
+        return { status: 'up', critical: true, projectId: app.options.projectId ?? null }
+    } catch (error) {
+        return { status: 'down', critical: true, error: errorMessage(error) }
+    }
+}
+
+interface DependencyProbe {
+    checks: Record<string, DependencyCheck>
+    checkedAt: string
+}
+
+let lastProbe: { startedAt: number; result: Promise<DependencyProbe> } | null = null
+
+/**
+ * Probe every dependency, or reuse a probe started within PROBE_CACHE_MS
+ * (concurrent polls share one in-flight probe)
+ */
+function probeDependencies(): Promise<DependencyProbe> {
+    if (!lastProbe || Date.now() - lastProbe.startedAt >= PROBE_CACHE_MS) {
+        lastProbe = {
+            startedAt: Date.now(),
+            result: (async () => ({
+                checks: {
+                    [DATA_CONFIG.adapter]: await checkDataStore(),
+                    firebaseAdmin: checkFirebaseAdmin(),
+                },
+                checkedAt: now(),
+            }))(),
+        }
+    }
+    return lastProbe.result
+}
+
+// ============================================================================
+// REPORTS
+// ============================================================================
+
+export function getBuildInfo(): BuildInfo {
+    return {
+        version: packageJson.version,
+        commit: process.env.BUILD_COMMIT || null,
+        node: process.version,
+    }
+}
+
+export function getUptimeSeconds(): number {
+    return Math.round((Date.now() - startedAt) / 1000)
+}
+
+/**
+ * Probe every dependency; ready when no critical one is down
+ */
+export async function checkReadiness(): Promise<ReadinessReport> {
+    const { checks, checkedAt } = await probeDependencies()
+    const sheetStats = sheetCache.getStats()
+
+    return {
+        ready: Object.values(checks).every(check => !check.critical || check.status === 'up'),
+        checks,
+        caches: {
+            sheets: { entries: sheetStats.size, hits: sheetStats.hits, misses: sheetStats.misses },
+            appendQueue: { pendingRows: appendQueue.getStats().pendingRows },
+            permissions: { backend: DATA_CONFIG.cacheBackend, entries: getPermissionCacheSize() },
+        },
+        build: getBuildInfo(),
+        checkedAt,
+    }
+}
+
+/**
+ * Readiness without latencies, error text, metrics or build details
+ */
+export function toPublicReadiness(report: ReadinessReport): PublicReadiness {
+    return {
+        ready: report.ready,
+        checks: Object.fromEntries(
+            Object.entries(report.checks).map(([name, check]) => [name, { status: check.status }])
+        ),
+    }
+}
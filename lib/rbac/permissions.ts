@@ -3,11 +3,13 @@
  * 
  * Features:
  * - Resolve user permissions from roles
- * - Permission caching (5-minute TTL)
+ * - Permission caching (5-minute TTL, optionally shared via SESSION_CACHE)
  * - Fail closed (deny access on error)
  */
 
-import { dataService } from '../data'
+import { dataService, type TableName, type UserAccess } from '../data'
+import { domainEvents } from '../data/events'
+import { createCacheStore } from '../data/session-cache'
 import type { UserPermission, UserRole } from './types'
 import { safeJsonParse } from '../utils'
 
@@ -15,67 +17,75 @@ import { safeJsonParse } from '../utils'
 // PERMISSION CACHE
 // ============================================================================
 
-interface CacheEntry {
-    permissions: UserPermission[]
-    expiresAt: number
-}
-
-const permissionCache = new Map<string, CacheEntry>()
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 
-function getCachedPermissions(userId: string): UserPermission[] | null {
-    const entry = permissionCache.get(userId)
-    if (!entry) return null
-
-    if (Date.now() > entry.expiresAt) {
-        permissionCache.delete(userId)
-        return null
-    }
-
-    return entry.permissions
-}
+// Per process by default; CACHE_BACKEND=session shares it across instances via SESSION_CACHE
+const permissionCache = createCacheStore<UserPermission[]>(dataService, 'permissions', CACHE_TTL)
 
-function setCachedPermissions(userId: string, permissions: UserPermission[]): void {
-    permissionCache.set(userId, {
-        permissions,
-        expiresAt: Date.now() + CACHE_TTL,
-    })
+/**
+ * Users with cached permissions in this process (null with CACHE_BACKEND=session)
+ */
+export function getPermissionCacheSize(): number | null {
+    return permissionCache.size()
 }
 
-export function invalidatePermissionCache(userId?: string): void {
+export async function invalidatePermissionCache(userId?: string): Promise<void> {
     if (userId) {
-        permissionCache.delete(userId)
+        await permissionCache.delete(userId)
     } else {
-        permissionCache.clear()
+        await permissionCache.clear()
     }
 }
 
+// Kept current by data events rather than by callers: assignments affect one
+// user, role and permission edits every holder of the role
+const RBAC_TABLES: TableName[] = ['ROLES', 'ROLE_ASSIGNMENTS', 'PERMISSIONS']
+
+domainEvents.on('role.assigned', event => invalidatePermissionCache(event.data.after.user_id))
+domainEvents.on('role.revoked', event => invalidatePermissionCache(event.data.after.user_id))
+domainEvents.on('role.updated', () => invalidatePermissionCache())
+domainEvents.on('permission.created', () => invalidatePermissionCache())
+domainEvents.on('permission.updated', () => invalidatePermissionCache())
+domainEvents.on('table.imported', event => {
+    if (RBAC_TABLES.includes(event.data.table)) {
+        return invalidatePermissionCache()
+    }
+})
+
 // ============================================================================
 // PERMISSION RESOLUTION
 // ============================================================================
 
+/**
+ * Active roles of a user, one entry per active assignment
+ */
+function resolveUserRoles(access: UserAccess): UserRole[] {
+    const rolesById = new Map(access.roles.map(role => [role.role_id, role]))
+    const roles: UserRole[] = []
+
+    for (const assignment of access.assignments) {
+        const role = rolesById.get(assignment.role_id)
+        if (role && role.is_active) {
+            roles.push({
+                role_id: role.role_id,
+                role_code: role.role_code,
+                role_name: role.role_name,
+                site_code: assignment.site_code,
+            })
+        }
+    }
+
+    return roles
+}
+
 /**
  * Get all roles assigned to a user
  */
 export async function getUserRoles(userId: string): Promise<UserRole[]> {
     try {
         console.log('[RBAC] Fetching roles for user:', userId)
-        const assignments = await dataService.getRoleAssignments(userId)
-        console.log('[RBAC] Role assignments:', assignments)
-        const roles: UserRole[] = []
-
-        for (const assignment of assignments) {
-            const role = await dataService.getRoleById(assignment.role_id)
-            console.log('[RBAC] Fetched role:', role)
-            if (role && role.is_active) {
-                roles.push({
-                    role_id: role.role_id,
-                    role_code: role.role_code,
-                    role_name: role.role_name,
-                    site_code: assignment.site_code,
-                })
-            }
-        }
+        const access = await dataService.getUserAccess(userId)
+        const roles = resolveUserRoles(access)
 
         console.log('[RBAC] Final roles:', roles)
         return roles
@@ -90,17 +100,19 @@ export async function getUserRoles(userId: string): Promise<UserRole[]> {
  */
 export async function getUserPermissions(userId: string): Promise<UserPermission[]> {
     // Check cache first
-    const cached = getCachedPermissions(userId)
+    const cached = await permissionCache.get(userId)
     if (cached) {
         return cached
     }
 
     try {
-        const roles = await getUserRoles(userId)
+        // Assignments, roles and permissions in one read
+        const access = await dataService.getUserAccess(userId)
+        const roles = resolveUserRoles(access)
         const allPermissions: UserPermission[] = []
 
         for (const role of roles) {
-            const permissions = await dataService.getPermissions(role.role_id)
+            const permissions = access.permissions.filter(p => p.role_id === role.role_id)
 
             for (const perm of permissions) {
                 allPermissions.push({
@@ -113,7 +125,7 @@ export async function getUserPermissions(userId: string): Promise<UserPermission
         }
 
         // Cache the result
-        setCachedPermissions(userId, allPermissions)
+        await permissionCache.set(userId, allPermissions)
 
         return allPermissions
     } catch (error) {
@@ -1,9 +1,11 @@
 /**
  * RBAC Role Management
+ *
+ * The permission cache follows role and permission writes through data
+ * events (see ./permissions), so nothing here invalidates it by hand.
  */
 
-import { dataService } from '../data'
-import { invalidatePermissionCache } from './permissions'
+import { dataService, type RoleAssignment } from '../data'
 import type { UserRole } from './types'
 
 /**
@@ -15,8 +17,8 @@ export async function assignRole(
     assignedBy: string,
     siteCode?: string,
     expiresAt?: string
-): Promise<void> {
-    await dataService.assignRole({
+): Promise<RoleAssignment> {
+    return dataService.assignRole({
         user_id: userId,
         role_id: roleId,
         site_code: siteCode,
@@ -24,19 +26,13 @@ export async function assignRole(
         expires_at: expiresAt,
         is_active: true,
     })
-
-    // Invalidate permission cache
-    invalidatePermissionCache(userId)
 }
 
 /**
  * Revoke a role from a user
  */
-export async function revokeRole(assignmentId: string, userId: string): Promise<void> {
+export async function revokeRole(assignmentId: string): Promise<void> {
     await dataService.revokeRole(assignmentId)
-
-    // Invalidate permission cache
-    invalidatePermissionCache(userId)
 }
 
 // Re-export getUserRoles from permissions
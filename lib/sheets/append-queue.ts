@@ -0,0 +1,179 @@
+/**
+ * Sheet Append Queue
+ *
+ * Features:
+ * - Appends to one sheet within SHEETS_CONFIG.appendWindowMs share a single values.append
+ * - A full batch (SHEETS_CONFIG.appendBatchSize rows) is sent right away
+ * - Batches for the same sheet are written in order
+ * - Batches go out at low priority, behind user-facing requests, when over quota
+ * - enqueue() resolves once its rows are written, so callers can await durability
+ * - Pending rows are flushed when the process runs out of work (beforeExit).
+ *   Signals are left to the app's shutdown path, which calls flushBeforeExit()
+ *   (see instrumentation.ts)
+ */
+
+import { sheetCache } from './cache'
+import { getSheetsClient } from './client'
+import { SHEETS_CONFIG } from './config'
+
+interface Waiter {
+    resolve: () => void
+    reject: (error: unknown) => void
+}
+
+interface PendingBatch {
+    rows: unknown[][]
+    waiters: Waiter[]
+    timer: ReturnType<typeof setTimeout> | null
+}
+
+export interface AppendQueueStats {
+    pendingRows: number
+    flushes: number
+    appendedRows: number
+    failedFlushes: number
+}
+
+class AppendQueue {
+    private pending = new Map<string, PendingBatch>()
+    // Tail of each sheet's write chain, so batches land in order
+    private writing = new Map<string, Promise<void>>()
+    private exitHooked = false
+    private flushes = 0
+    private appendedRows = 0
+    private failedFlushes = 0
+
+    constructor(
+        private readonly windowMs: number,
+        private readonly batchSize: number
+    ) {}
+
+    /**
+     * Buffer rows for `sheetName`; resolves when they are written, rejects if the write fails
+     */
+    enqueue(sheetName: string, rows: unknown[][]): Promise<void> {
+        this.hookExit()
+
+        const batch = this.pending.get(sheetName) ?? { rows: [], waiters: [], timer: null }
+        this.pending.set(sheetName, batch)
+
+        const written = new Promise<void>((resolve, reject) => {
+            batch.waiters.push({ resolve, reject })
+        })
+        batch.rows.push(...rows)
+
+        if (this.windowMs <= 0 || batch.rows.length >= this.batchSize) {
+            this.flushSheet(sheetName).catch(() => undefined)
+        } else if (!batch.timer) {
+            batch.timer = setTimeout(() => this.flushSheet(sheetName).catch(() => undefined), this.windowMs)
+            // Buffered rows must not keep the process alive; beforeExit flushes them
+            batch.timer.unref?.()
+        }
+
+        return written
+    }
+
+    /**
+     * Write everything buffered for one sheet (or all sheets) now.
+     * Resolves once earlier batches for those sheets have landed too.
+     */
+    async flush(sheetName?: string): Promise<void> {
+        const names = sheetName ? [sheetName] : [...new Set([...this.pending.keys(), ...this.writing.keys()])]
+        await Promise.all(names.map(name => this.flushSheet(name)))
+    }
+
+    /**
+     * flush() bounded by `timeoutMs`, for shutdown. Never rejects; resolves
+     * false when rows failed or were still being written at the deadline.
+     */
+    async flushBeforeExit(timeoutMs = SHEETS_CONFIG.shutdownFlushMs): Promise<boolean> {
+        let timer: ReturnType<typeof setTimeout> | undefined
+        const deadline = new Promise<boolean>(resolve => {
+            timer = setTimeout(() => resolve(false), timeoutMs)
+            timer.unref?.()
+        })
+
+        try {
+            const flushed = await Promise.race([this.flush().then(() => true, () => false), deadline])
+            if (!flushed) {
+                console.error(`❌ Queued Sheets rows not written within ${timeoutMs}ms of exit; they may be lost`)
+            }
+            return flushed
+        } finally {
+            clearTimeout(timer)
+        }
+    }
+
+    hasPending(sheetName: string): boolean {
+        return this.pending.has(sheetName) || this.writing.has(sheetName)
+    }
+
+    getStats(): AppendQueueStats {
+        let pendingRows = 0
+        for (const batch of this.pending.values()) {
+            pendingRows += batch.rows.length
+        }
+
+        return {
+            pendingRows,
+            flushes: this.flushes,
+            appendedRows: this.appendedRows,
+            failedFlushes: this.failedFlushes,
+        }
+    }
+
+    private flushSheet(sheetName: string): Promise<void> {
+        const batch = this.pending.get(sheetName)
+        const previous = this.writing.get(sheetName) ?? Promise.resolve()
+
+        if (!batch) {
+            return previous
+        }
+
+        this.pending.delete(sheetName)
+        if (batch.timer) {
+            clearTimeout(batch.timer)
+        }
+
+        const run = previous
+            .catch(() => undefined)
+            .then(() => this.write(sheetName, batch))
+
+        this.writing.set(sheetName, run)
+        run.catch(() => undefined).finally(() => {
+            if (this.writing.get(sheetName) === run) {
+                this.writing.delete(sheetName)
+            }
+        })
+
+        return run
+    }
+
+    private async write(sheetName: string, batch: PendingBatch): Promise<void> {
+        this.flushes++
+
+        try {
+            await getSheetsClient().append(sheetName, batch.rows, 'low')
+            this.appendedRows += batch.rows.length
+            batch.waiters.forEach(waiter => waiter.resolve())
+        } catch (error) {
+            this.failedFlushes++
+            console.error(`❌ Failed to append ${batch.rows.length} queued row(s) to ${sheetName}:`, error)
+            batch.waiters.forEach(waiter => waiter.reject(error))
+            throw error
+        } finally {
+            sheetCache.invalidate(sheetName)
+        }
+    }
+
+    private hookExit(): void {
+        if (this.exitHooked || typeof process === 'undefined' || !process.once) return
+        this.exitHooked = true
+
+        process.once('beforeExit', () => {
+            void this.flushBeforeExit()
+        })
+    }
+}
+
+export const appendQueue = new AppendQueue(SHEETS_CONFIG.appendWindowMs, SHEETS_CONFIG.appendBatchSize)
@@ -0,0 +1,156 @@
+/**
+ * Sheet Snapshot Cache
+ *
+ * Features:
+ * - Whole-sheet snapshots with a TTL (SHEETS_CONFIG.cacheTtlMs, 0 disables)
+ * - Concurrent misses for the same sheet share one API read
+ * - Header rows cached apart (headerKey), dropped along with their sheet
+ * - Explicit invalidation (the Sheets adapter calls it on every write/append,
+ *   setupSpreadsheet once it has run)
+ * - Hit/miss counters (for monitoring)
+ */
+
+import { SHEETS_CONFIG } from './config'
+
+type SheetRows = unknown[][]
+
+interface CacheEntry {
+    rows: SheetRows
+    expiresAt: number
+}
+
+/**
+ * Cache key of a sheet's header row
+ */
+export function headerKey(sheetName: string): string {
+    return `${sheetName}!1:1`
+}
+
+export interface SheetCacheStats {
+    hits: number
+    misses: number
+    invalidations: number
+    size: number
+    sheets: string[]
+}
+
+class SheetCache {
+    private entries = new Map<string, CacheEntry>()
+    private inflight = new Map<string, Promise<SheetRows>>()
+    // Bumped on invalidation so reads started before a write don't repopulate stale rows
+    private generations = new Map<string, number>()
+    private hits = 0
+    private misses = 0
+    private invalidations = 0
+
+    constructor(private readonly ttl: number) {}
+
+    /**
+     * Return the cached snapshot, or load it with `fetch` and cache it
+     */
+    async get(sheetName: string, fetch: () => Promise<SheetRows>): Promise<SheetRows> {
+        const entry = this.entries.get(sheetName)
+        if (entry && Date.now() < entry.expiresAt) {
+            this.hits++
+            return entry.rows
+        }
+
+        const pending = this.inflight.get(sheetName)
+        if (pending) {
+            this.hits++
+            return pending
+        }
+
+        this.misses++
+        this.entries.delete(sheetName)
+
+        const generation = this.generations.get(sheetName) ?? 0
+        const request = fetch()
+            .then(rows => {
+                if (this.ttl > 0 && (this.generations.get(sheetName) ?? 0) === generation) {
+                    this.entries.set(sheetName, { rows, expiresAt: Date.now() + this.ttl })
+                }
+                return rows
+            })
+            .finally(() => {
+                if (this.inflight.get(sheetName) === request) {
+                    this.inflight.delete(sheetName)
+                }
+            })
+
+        this.inflight.set(sheetName, request)
+        return request
+    }
+
+    /**
+     * Like get() for several sheets; the misses are loaded with one `fetch`
+     * call (e.g. a batchGet) and cached individually
+     */
+    async getMany(
+        sheetNames: string[],
+        fetch: (missing: string[]) => Promise<Record<string, SheetRows>>
+    ): Promise<Record<string, SheetRows>> {
+        const result: Record<string, SheetRows> = {}
+        const missing: string[] = []
+
+        for (const name of sheetNames) {
+            const entry = this.entries.get(name)
+            if (entry && Date.now() < entry.expiresAt) {
+                this.hits++
+                result[name] = entry.rows
+            } else {
+                this.misses++
+                missing.push(name)
+            }
+        }
+
+        if (missing.length === 0) return result
+
+        const generations = new Map(missing.map(name => [name, this.generations.get(name) ?? 0]))
+        const fetched = await fetch(missing)
+
+        for (const name of missing) {
+            const rows = fetched[name] ?? []
+            if (this.ttl > 0 && (this.generations.get(name) ?? 0) === generations.get(name)) {
+                this.entries.set(name, { rows, expiresAt: Date.now() + this.ttl })
+            }
+            result[name] = rows
+        }
+
+        return result
+    }
+
+    /**
+     * Drop one sheet's snapshot and header row (or everything)
+     */
+    invalidate(sheetName?: string): void {
+        this.invalidations++
+
+        const names = sheetName
+            ? [sheetName, headerKey(sheetName)]
+            : [...new Set([...this.entries.keys(), ...this.inflight.keys()])]
+        for (const name of names) {
+            this.entries.delete(name)
+            this.inflight.delete(name)
+            this.generations.set(name, (this.generations.get(name) ?? 0) + 1)
+        }
+    }
+
+    /**
+     * Get cache statistics (for monitoring)
+     */
+    getStats(): SheetCacheStats {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            invalidations: this.invalidations,
+            size: this.entries.size,
+            sheets: Array.from(this.entries.keys()),
+        }
+    }
+}
+
+// Singleton instance
+export const sheetCache = new SheetCache(SHEETS_CONFIG.cacheTtlMs)
+
+export { SheetCache }
@@ -0,0 +1,203 @@
+/**
+ * Circuit Breaker
+ *
+ * SheetsClient keeps one breaker per operation (see SHEETS_OPERATIONS), so
+ * failing appends don't block reads:
+ * - CLOSED: requests pass; failureThreshold consecutive failures open it
+ * - OPEN: requests fail fast with CircuitOpenError for resetTimeoutMs
+ * - HALF_OPEN: a single probe request goes through; it closes the circuit on
+ *   success and reopens it on failure. Other requests fail fast meanwhile.
+ *
+ * State changes are published to onStateChange listeners; reset() closes the
+ * circuit by hand (operators, after fixing the cause).
+ */
+
+import { now } from '../utils'
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN'
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number
+    resetTimeoutMs: number
+    // Errors that don't count against the circuit (e.g. quota errors)
+    isFailure?: (error: unknown) => boolean
+}
+
+export interface CircuitStateChange {
+    breaker: string
+    from: CircuitState
+    to: CircuitState
+    reason: string
+    at: string
+}
+
+export interface CircuitBreakerMetrics {
+    state: CircuitState
+    consecutiveFailures: number
+    requests: number
+    successes: number
+    failures: number
+    rejected: number // Failed fast while OPEN or during a probe
+    opened: number // Times the circuit opened
+    lastFailure: { at: string; error: string } | null
+    stateChangedAt: string
+    retryAt: string | null // When an OPEN circuit lets the probe through
+}
+
+/**
+ * The circuit is open (or probing): the request was not sent
+ */
+export class CircuitOpenError extends Error {
+    constructor(
+        readonly breaker: string,
+        readonly state: CircuitState
+    ) {
+        super(
+            state === 'OPEN'
+                ? `Circuit breaker is OPEN for Sheets ${breaker} - Sheets API temporarily unavailable`
+                : `Circuit breaker is HALF_OPEN for Sheets ${breaker} - waiting for the probe request`
+        )
+        this.name = 'CircuitOpenError'
+    }
+}
+
+class CircuitBreaker {
+    private state: CircuitState = 'CLOSED'
+    private consecutiveFailures = 0
+    private nextAttempt = 0
+    private probing = false
+    private stateChangedAt = now()
+    private lastFailure: CircuitBreakerMetrics['lastFailure'] = null
+    private counters = { requests: 0, successes: 0, failures: 0, rejected: 0, opened: 0 }
+    private listeners = new Set<(change: CircuitStateChange) => void>()
+
+    constructor(
+        readonly name: string,
+        private readonly options: CircuitBreakerOptions
+    ) {}
+
+    async execute<T>(fn: () => Promise<T>): Promise<T> {
+        if (this.state === 'OPEN') {
+            if (Date.now() < this.nextAttempt) {
+                this.counters.rejected++
+                throw new CircuitOpenError(this.name, 'OPEN')
+            }
+            this.transition('HALF_OPEN', 'reset timeout elapsed')
+        }
+
+        const probe = this.state === 'HALF_OPEN'
+        if (probe) {
+            if (this.probing) {
+                this.counters.rejected++
+                throw new CircuitOpenError(this.name, 'HALF_OPEN')
+            }
+            this.probing = true
+        }
+
+        this.counters.requests++
+        try {
+            const result = await fn()
+            this.onSuccess(probe)
+            return result
+        } catch (error) {
+            if (this.options.isFailure?.(error) ?? true) {
+                this.onFailure(error, probe)
+            }
+            throw error
+        } finally {
+            if (probe) this.probing = false
+        }
+    }
+
+    /**
+     * Close the circuit and forget past failures
+     */
+    reset(): void {
+        this.consecutiveFailures = 0
+        this.nextAttempt = 0
+        if (this.state !== 'CLOSED') {
+            this.transition('CLOSED', 'manual reset')
+        }
+    }
+
+    /**
+     * Subscribe to state changes; returns the unsubscribe function
+     */
+    onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+
+    getState(): CircuitState {
+        return this.state
+    }
+
+    getMetrics(): CircuitBreakerMetrics {
+        return {
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            ...this.counters,
+            lastFailure: this.lastFailure,
+            stateChangedAt: this.stateChangedAt,
+            retryAt: this.state === 'OPEN' ? new Date(this.nextAttempt).toISOString() : null,
+        }
+    }
+
+    // Only the probe's outcome moves a HALF_OPEN circuit; requests sent before
+    // the circuit opened may still be settling
+    private onSuccess(probe: boolean) {
+        this.counters.successes++
+        this.consecutiveFailures = 0
+        if (probe && this.state === 'HALF_OPEN') {
+            this.transition('CLOSED', 'probe request succeeded')
+        }
+    }
+
+    private onFailure(error: unknown, probe: boolean) {
+        this.counters.failures++
+        this.consecutiveFailures++
+        this.lastFailure = {
+            at: now(),
+            error: error instanceof Error ? error.message : String(error),
+        }
+
+        if (probe && this.state === 'HALF_OPEN') {
+            this.open('probe request failed')
+        } else if (this.state === 'CLOSED' && this.consecutiveFailures >= this.options.failureThreshold) {
+            this.open(`${this.consecutiveFailures} consecutive failures`)
+        }
+    }
+
+    private open(reason: string) {
+        this.nextAttempt = Date.now() + this.options.resetTimeoutMs
+        this.counters.opened++
+        this.transition('OPEN', reason)
+    }
+
+    private transition(to: CircuitState, reason: string) {
+        const change: CircuitStateChange = {
+            breaker: this.name,
+            from: this.state,
+            to,
+            reason,
+            at: now(),
+        }
+        this.state = to
+        this.stateChangedAt = change.at
+
+        const log = to === 'OPEN' ? console.error : console.warn
+        log(`Circuit breaker ${change.from} → ${to} for Sheets ${this.name}: ${reason}`)
+
+        for (const listener of this.listeners) {
+            try {
+                listener(change)
+            } catch (error) {
+                console.error(`Circuit breaker listener failed for Sheets ${this.name}:`, error)
+            }
+        }
+    }
+}
+
+export { CircuitBreaker }
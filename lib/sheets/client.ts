@@ -3,75 +3,105 @@
  * 
  * Features:
  * - Service account authentication
- * - Retry logic with exponential backoff
- * - Circuit breaker pattern
- * - Read/write/append operations
+ * - Client-side rate limiting per quota (read/write), with request priority
+ * - Retry logic with jittered exponential backoff, honoring Retry-After
+ * - Retry and circuit breaker policy per operation (read, write, append, batch;
+ *   SHEETS_POLICIES), with a single probe in HALF_OPEN and a manual reset.
+ *   Quota errors don't count as failures.
+ * - Read/write/append operations, batch reads and writes
+ * - Spreadsheet structure (list sheets, batchUpdate) for setup and migrations
+ * - SHEETS_EMULATOR_URL points it at the local emulator (./emulator.ts)
  */
 
 import { google } from 'googleapis'
-import { SHEETS_CONFIG } from './config'
+import { sleep } from '../utils'
+import {
+    SHEETS_CONFIG,
+    SHEETS_OPERATIONS,
+    assertSheetsConfig,
+    parseSheetsPolicies,
+    type SheetsOperation,
+    type SheetsOperationPolicy,
+} from './config'
+import {
+    CircuitBreaker,
+    CircuitOpenError,
+    type CircuitBreakerMetrics,
+    type CircuitState,
+    type CircuitStateChange,
+} from './circuit-breaker'
+import { RateLimitError, TokenBucket, type RequestPriority, type TokenBucketStats } from './rate-limiter'
+
+// Failed googleapis (gaxios) response, as far as retries look at it
+interface ApiError {
+    response?: {
+        status?: number
+        headers?: { get?(name: string): string | null; [name: string]: unknown }
+    }
+}
+
+/**
+ * A 429 or a request that timed out in our own queue: the API is up, we're over quota
+ */
+function isQuotaError(error: unknown): boolean {
+    return error instanceof RateLimitError || (error as ApiError | undefined)?.response?.status === 429
+}
 
 // ============================================================================
-// CIRCUIT BREAKER
+// OPERATION POLICIES & CIRCUIT BREAKERS
 // ============================================================================
 
-class CircuitBreaker {
-    private failures = 0
-    private readonly threshold = 5
-    private readonly timeout = 60000 // 1 minute
-    private state: 'CLOSED' | 'OPEN' | 'HALF_OPEN' = 'CLOSED'
-    private nextAttempt: number | null = null
-
-    async execute<T>(fn: () => Promise<T>): Promise<T> {
-        if (this.state === 'OPEN') {
-            if (this.nextAttempt && Date.now() < this.nextAttempt) {
-                throw new Error('Circuit breaker is OPEN - Sheets API temporarily unavailable')
-            }
-            this.state = 'HALF_OPEN'
-        }
+const policies = parseSheetsPolicies()
 
-        try {
-            const result = await fn()
-            this.onSuccess()
-            return result
-        } catch (error) {
-            this.onFailure()
-            throw error
-        }
-    }
+const circuitBreakers = Object.fromEntries(
+    SHEETS_OPERATIONS.map(operation => [
+        operation,
+        new CircuitBreaker(operation, {
+            failureThreshold: policies[operation].failureThreshold,
+            resetTimeoutMs: policies[operation].resetTimeoutMs,
+            isFailure: error => !isQuotaError(error),
+        }),
+    ])
+) as Record<SheetsOperation, CircuitBreaker>
 
-    private onSuccess() {
-        this.failures = 0
-        this.state = 'CLOSED'
-    }
+const CIRCUIT_STATE_SEVERITY: Record<CircuitState, number> = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 }
 
-    private onFailure() {
-        this.failures++
-        if (this.failures >= this.threshold) {
-            this.state = 'OPEN'
-            this.nextAttempt = Date.now() + this.timeout
-            console.error(`Circuit breaker OPEN after ${this.failures} failures`)
-        }
-    }
+// ============================================================================
+// RATE LIMITING & RETRY LOGIC
+// ============================================================================
 
-    getState() {
-        return this.state
-    }
+const rateLimits = {
+    read: new TokenBucket('read', {
+        perMinute: SHEETS_CONFIG.quota.readsPerMinute,
+        maxWaitMs: SHEETS_CONFIG.quota.queueTimeoutMs,
+    }),
+    write: new TokenBucket('write', {
+        perMinute: SHEETS_CONFIG.quota.writesPerMinute,
+        maxWaitMs: SHEETS_CONFIG.quota.queueTimeoutMs,
+    }),
 }
 
-const circuitBreaker = new CircuitBreaker()
-
-// ============================================================================
-// RETRY LOGIC
-// ============================================================================
+/**
+ * Retry-After of a failed response in ms (delta seconds or HTTP date)
+ */
+function retryAfterMs(error: ApiError): number | undefined {
+    const headers = error.response?.headers
+    // gaxios gives a Headers-like object (not the global class) or a plain record, by version
+    const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']
+    if (typeof value !== 'string' || !value) return undefined
+
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+    const at = Date.parse(value)
+    return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now())
+}
 
 async function retryWithBackoff<T>(
     fn: () => Promise<T>,
-    maxRetries = 3
+    bucket: TokenBucket,
+    policy: SheetsOperationPolicy
 ): Promise<T> {
-    const delays = [200, 500, 1000] // exponential backoff
-
-    for (let i = 0; i < maxRetries; i++) {
+    for (let i = 0; i < policy.maxAttempts; i++) {
         try {
             return await fn()
         } catch (error: any) {
@@ -81,11 +111,26 @@ async function retryWithBackoff<T>(
                 (error.response?.status >= 500) ||
                 error.response?.status === 429
 
-            if (!isRetryable || i === maxRetries - 1) {
+            if (!isRetryable || i === policy.maxAttempts - 1) {
                 throw error
             }
 
-            await new Promise(resolve => setTimeout(resolve, delays[i]))
+            // Exponential backoff with jitter, so throttled callers don't retry in lockstep;
+            // maxDelayMs caps the backoff, never the API's Retry-After
+            const backoff = policy.baseDelayMs * 2 ** i
+            const jittered = backoff / 2 + Math.random() * (backoff / 2)
+            const retryAfter = retryAfterMs(error) ?? 0
+            const delay = Math.max(retryAfter, Math.min(jittered, policy.maxDelayMs))
+
+            if (error.response?.status === 429) {
+                // Everyone sharing the quota waits, not just this request
+                bucket.pause(delay)
+            }
+            // Waiting longer than the policy allows: fail now instead of retrying early
+            if (retryAfter > policy.maxDelayMs) {
+                throw error
+            }
+            await sleep(delay)
         }
     }
 
@@ -96,6 +141,11 @@ async function retryWithBackoff<T>(
 // SHEETS CLIENT
 // ============================================================================
 
+export interface SheetProperties {
+    sheetId: number
+    title: string
+}
+
 class SheetsClient {
     private sheets: any
     private auth: any
@@ -105,6 +155,15 @@ class SheetsClient {
     }
 
     private initializeAuth() {
+        assertSheetsConfig()
+
+        // retry: false - retryWithBackoff is the only retry layer (googleapis
+        // would otherwise retry idempotent requests itself, inside each attempt)
+        if (SHEETS_CONFIG.emulatorUrl) {
+            this.sheets = google.sheets({ version: 'v4', rootUrl: SHEETS_CONFIG.emulatorUrl, retry: false })
+            return
+        }
+
         const privateKey = process.env.GOOGLE_SERVICE_ACCOUNT_PRIVATE_KEY?.replace(/\\n/g, '\n')
 
         if (!privateKey || !process.env.GOOGLE_SERVICE_ACCOUNT_EMAIL) {
@@ -117,102 +176,220 @@ class SheetsClient {
             scopes: ['https://www.googleapis.com/auth/spreadsheets'],
         })
 
-        this.sheets = google.sheets({ version: 'v4', auth: this.auth })
+        this.sheets = google.sheets({ version: 'v4', auth: this.auth, retry: false })
+    }
+
+    /**
+     * Send one API request: take a token from `bucket`, retry per the operation's
+     * policy, all behind the operation's circuit breaker
+     */
+    private request<T>(
+        operation: SheetsOperation,
+        bucket: TokenBucket,
+        priority: RequestPriority,
+        send: () => Promise<T>
+    ): Promise<T> {
+        return circuitBreakers[operation].execute(() =>
+            retryWithBackoff(
+                async () => {
+                    await bucket.acquire(priority)
+                    return send()
+                },
+                bucket,
+                policies[operation]
+            )
+        )
     }
 
     /**
      * Read data from a sheet
      */
-    async read(sheetName: string, range?: string): Promise<any[][]> {
+    async read(sheetName: string, range?: string, priority: RequestPriority = 'high'): Promise<any[][]> {
         const fullRange = range ? `${sheetName}!${range}` : sheetName
 
-        return circuitBreaker.execute(() =>
-            retryWithBackoff(async () => {
-                const response = await this.sheets.spreadsheets.values.get({
-                    spreadsheetId: SHEETS_CONFIG.spreadsheetId,
-                    range: fullRange,
-                })
-
-                return response.data.values || []
+        return this.request('read', rateLimits.read, priority, async () => {
+            const response = await this.sheets.spreadsheets.values.get({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                range: fullRange,
             })
-        )
+
+            return response.data.values || []
+        })
+    }
+
+    /**
+     * Health probe: one values.get outside the read circuit breaker, quota
+     * buckets and retries, so polling never opens (or probes) the circuit for
+     * user traffic. Fails without a request while the read circuit is OPEN.
+     */
+    async probe(sheetName: string, range: string): Promise<void> {
+        if (circuitBreakers.read.getState() === 'OPEN') {
+            throw new CircuitOpenError('read', 'OPEN')
+        }
+
+        await this.sheets.spreadsheets.values.get({
+            spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+            range: `${sheetName}!${range}`,
+        })
     }
 
     /**
      * Write data to a sheet (overwrites)
      */
-    async write(sheetName: string, range: string, values: any[][]): Promise<void> {
-        return circuitBreaker.execute(() =>
-            retryWithBackoff(async () => {
-                await this.sheets.spreadsheets.values.update({
-                    spreadsheetId: SHEETS_CONFIG.spreadsheetId,
-                    range: `${sheetName}!${range}`,
-                    valueInputOption: 'RAW',
-                    requestBody: { values },
-                })
+    async write(sheetName: string, range: string, values: any[][], priority: RequestPriority = 'normal'): Promise<void> {
+        return this.request('write', rateLimits.write, priority, async () => {
+            await this.sheets.spreadsheets.values.update({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                range: `${sheetName}!${range}`,
+                valueInputOption: 'RAW',
+                requestBody: { values },
             })
-        )
+        })
     }
 
     /**
-     * Append data to a sheet
+     * Append data to a sheet (log appends pass priority 'low')
      */
-    async append(sheetName: string, values: any[][]): Promise<void> {
-        return circuitBreaker.execute(() =>
-            retryWithBackoff(async () => {
-                await this.sheets.spreadsheets.values.append({
-                    spreadsheetId: SHEETS_CONFIG.spreadsheetId,
-                    range: sheetName,
-                    valueInputOption: 'RAW',
-                    insertDataOption: 'INSERT_ROWS',
-                    requestBody: { values },
-                })
+    async append(sheetName: string, values: any[][], priority: RequestPriority = 'normal'): Promise<void> {
+        return this.request('append', rateLimits.write, priority, async () => {
+            await this.sheets.spreadsheets.values.append({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                range: sheetName,
+                valueInputOption: 'RAW',
+                insertDataOption: 'INSERT_ROWS',
+                requestBody: { values },
             })
-        )
+        })
     }
 
     /**
-     * Batch read multiple ranges
+     * Overwrite several ranges (each with its sheet name) in one request
      */
-    async batchRead(ranges: string[]): Promise<Record<string, any[][]>> {
-        return circuitBreaker.execute(() =>
-            retryWithBackoff(async () => {
-                const response = await this.sheets.spreadsheets.values.batchGet({
-                    spreadsheetId: SHEETS_CONFIG.spreadsheetId,
-                    ranges,
-                })
+    async batchWrite(data: { range: string; values: unknown[][] }[], priority: RequestPriority = 'normal'): Promise<void> {
+        if (data.length === 0) return
 
-                const result: Record<string, any[][]> = {}
-                response.data.valueRanges?.forEach((vr: any, index: number) => {
-                    result[ranges[index]] = vr.values || []
-                })
+        return this.request('batch', rateLimits.write, priority, async () => {
+            await this.sheets.spreadsheets.values.batchUpdate({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                requestBody: { valueInputOption: 'RAW', data },
+            })
+        })
+    }
 
-                return result
+    /**
+     * Batch read multiple ranges
+     */
+    async batchRead(ranges: string[], priority: RequestPriority = 'high'): Promise<Record<string, any[][]>> {
+        return this.request('batch', rateLimits.read, priority, async () => {
+            const response = await this.sheets.spreadsheets.values.batchGet({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                ranges,
             })
-        )
+
+            const result: Record<string, any[][]> = {}
+            response.data.valueRanges?.forEach((vr: any, index: number) => {
+                result[ranges[index]] = vr.values || []
+            })
+
+            return result
+        })
     }
 
     /**
      * Clear a range
      */
-    async clear(sheetName: string, range?: string): Promise<void> {
+    async clear(sheetName: string, range?: string, priority: RequestPriority = 'normal'): Promise<void> {
         const fullRange = range ? `${sheetName}!${range}` : sheetName
 
-        return circuitBreaker.execute(() =>
-            retryWithBackoff(async () => {
-                await this.sheets.spreadsheets.values.clear({
-                    spreadsheetId: SHEETS_CONFIG.spreadsheetId,
-                    range: fullRange,
-                })
+        return this.request('write', rateLimits.write, priority, async () => {
+            await this.sheets.spreadsheets.values.clear({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                range: fullRange,
             })
-        )
+        })
+    }
+
+    /**
+     * List the spreadsheet's sheets (tabs)
+     */
+    async listSheets(): Promise<SheetProperties[]> {
+        return this.request('read', rateLimits.read, 'normal', async () => {
+            const response = await this.sheets.spreadsheets.get({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                fields: 'sheets.properties(sheetId,title)',
+            })
+
+            return (response.data.sheets || []).map((sheet: { properties: SheetProperties }) => ({
+                sheetId: sheet.properties.sheetId,
+                title: sheet.properties.title,
+            }))
+        })
+    }
+
+    /**
+     * Apply structural requests (addSheet, insertDimension, setDataValidation, ...)
+     */
+    async batchUpdate(requests: object[]): Promise<void> {
+        if (requests.length === 0) return
+
+        return this.request('batch', rateLimits.write, 'normal', async () => {
+            await this.sheets.spreadsheets.batchUpdate({
+                spreadsheetId: SHEETS_CONFIG.spreadsheetId,
+                requestBody: { requests },
+            })
+        })
+    }
+
+    /**
+     * Read and write quota buckets (for monitoring)
+     */
+    getRateLimitStats(): Record<'read' | 'write', TokenBucketStats> {
+        return {
+            read: rateLimits.read.getStats(),
+            write: rateLimits.write.getStats(),
+        }
+    }
+
+    /**
+     * Most severe circuit breaker state across operations (for monitoring)
+     */
+    getCircuitBreakerState(): CircuitState {
+        return Object.values(circuitBreakers)
+            .map(breaker => breaker.getState())
+            .reduce((worst, state) => (CIRCUIT_STATE_SEVERITY[state] > CIRCUIT_STATE_SEVERITY[worst] ? state : worst))
+    }
+
+    /**
+     * State and counters of each operation's circuit breaker (for monitoring)
+     */
+    getCircuitBreakerMetrics(): Record<SheetsOperation, CircuitBreakerMetrics> {
+        return Object.fromEntries(
+            SHEETS_OPERATIONS.map(operation => [operation, circuitBreakers[operation].getMetrics()])
+        ) as Record<SheetsOperation, CircuitBreakerMetrics>
+    }
+
+    /**
+     * Retry and circuit breaker policy of each operation
+     */
+    getPolicies(): Record<SheetsOperation, SheetsOperationPolicy> {
+        return policies
+    }
+
+    /**
+     * Close one operation's circuit, or all of them (operators, once the cause is fixed)
+     */
+    resetCircuitBreakers(operation?: SheetsOperation): void {
+        for (const name of operation ? [operation] : SHEETS_OPERATIONS) {
+            circuitBreakers[name].reset()
+        }
     }
 
     /**
-     * Get circuit breaker state (for monitoring)
+     * Subscribe to state changes of every operation's circuit breaker
      */
-    getCircuitBreakerState() {
-        return circuitBreaker.getState()
+    onCircuitStateChange(listener: (change: CircuitStateChange) => void): () => void {
+        const unsubscribes = Object.values(circuitBreakers).map(breaker => breaker.onStateChange(listener))
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe())
     }
 }
 
@@ -226,4 +403,4 @@ export function getSheetsClient(): SheetsClient {
     return sheetsClient
 }
 
-export { CircuitBreaker }
+export { CircuitBreaker, CircuitOpenError } from './circuit-breaker'
@@ -0,0 +1,133 @@
+/**
+ * Header-Driven Column Mapping
+ *
+ * Sheet columns are located by their header name instead of a fixed position,
+ * so a column inserted by hand shifts nothing. The header must still contain
+ * every column in SHEETS_CONFIG.columns, in that relative order; anything else
+ * fails loudly with a SheetSchemaError instead of reading/writing the wrong cells.
+ */
+
+import { SHEETS_CONFIG } from './config'
+
+export type SheetKey = keyof typeof SHEETS_CONFIG.columns
+
+// A sheet row keyed by header name (formatted cell values)
+export type SheetRecord = Record<string, string>
+
+export class SheetSchemaError extends Error {
+    constructor(
+        public readonly sheetName: string,
+        message: string
+    ) {
+        super(`Sheet "${sheetName}" schema mismatch: ${message}`)
+        this.name = 'SheetSchemaError'
+    }
+}
+
+export interface ColumnMap {
+    sheetName: string
+    width: number // Header width, including columns the app doesn't know
+    positions: Record<string, number> // Expected column → 0-indexed position
+}
+
+/**
+ * Expected column names of a sheet, in order
+ */
+export function expectedColumns(sheetKey: SheetKey): string[] {
+    const columns: Record<string, number> = SHEETS_CONFIG.columns[sheetKey]
+    return Object.keys(columns).sort((a, b) => columns[a] - columns[b])
+}
+
+/**
+ * Build a column map from a header row (validates it against SHEETS_CONFIG)
+ */
+export function buildColumnMap(sheetKey: SheetKey, header: unknown[]): ColumnMap {
+    const sheetName = SHEETS_CONFIG.sheets[sheetKey]
+    const names = header.map(cell => String(cell ?? '').trim())
+    const expected = expectedColumns(sheetKey)
+
+    const duplicates = expected.filter(column => names.indexOf(column) !== names.lastIndexOf(column))
+    if (duplicates.length > 0) {
+        throw new SheetSchemaError(sheetName, `duplicate columns: ${duplicates.join(', ')}`)
+    }
+
+    const missing = expected.filter(column => !names.includes(column))
+    if (missing.length > 0) {
+        throw new SheetSchemaError(sheetName, `missing columns: ${missing.join(', ')}`)
+    }
+
+    const positions: Record<string, number> = {}
+    for (const column of expected) {
+        positions[column] = names.indexOf(column)
+    }
+
+    for (let i = 1; i < expected.length; i++) {
+        if (positions[expected[i]] < positions[expected[i - 1]]) {
+            throw new SheetSchemaError(
+                sheetName,
+                `columns reordered: "${expected[i - 1]}" must come before "${expected[i]}"`
+            )
+        }
+    }
+
+    return { sheetName, width: names.length, positions }
+}
+
+function toCell(value: unknown): string {
+    if (value === undefined || value === null) return ''
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+    return String(value)
+}
+
+/**
+ * Raw row → record keyed by column name
+ */
+export function rowToRecord(map: ColumnMap, row: unknown[]): SheetRecord {
+    const record: SheetRecord = {}
+    for (const [column, position] of Object.entries(map.positions)) {
+        record[column] = toCell(row[position])
+    }
+    return record
+}
+
+/**
+ * Raw row as cell strings spanning the whole header (the API drops trailing blanks)
+ */
+export function padRow(map: ColumnMap, row: unknown[]): string[] {
+    return Array.from({ length: map.width }, (_, index) => toCell(row[index]))
+}
+
+/**
+ * Record → raw row spanning the whole header.
+ * Cells of unknown columns are kept from `base` (the current row) on updates.
+ */
+export function recordToRow(map: ColumnMap, record: object, base: unknown[] = []): string[] {
+    const values = record as Record<string, unknown>
+    const row = padRow(map, base)
+
+    for (const [column, position] of Object.entries(map.positions)) {
+        row[position] = toCell(values[column])
+    }
+
+    return row
+}
+
+/**
+ * Column letter for a 1-indexed column number (1 → A, 27 → AA)
+ */
+export function columnLetter(column: number): string {
+    let letters = ''
+    while (column > 0) {
+        const remainder = (column - 1) % 26
+        letters = String.fromCharCode(65 + remainder) + letters
+        column = Math.floor((column - 1) / 26)
+    }
+    return letters
+}
+
+/**
+ * A1 range covering one full data row
+ */
+export function rowRange(map: ColumnMap, rowNumber: number): string {
+    return `A${rowNumber}:${columnLetter(map.width)}${rowNumber}`
+}
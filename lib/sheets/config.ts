@@ -1,11 +1,108 @@
 /**
  * Google Sheets Configuration
+ *
+ * The single schema definition for the spreadsheet: `npm run sheets:setup`
+ * (lib/sheets/setup.ts) creates sheets, headers and dropdowns from it.
  */
 
+import { z } from 'zod'
+
+const BOOLEAN_VALUES = ['TRUE', 'FALSE'] as const
+
+// ============================================================================
+// OPERATION POLICIES
+// ============================================================================
+
+/**
+ * SheetsClient operations with their own retry policy and circuit breaker:
+ * read (values.get, spreadsheets.get), write (update, clear), append and
+ * batch (batchGet, values.batchUpdate, batchUpdate)
+ */
+export const SHEETS_OPERATIONS = ['read', 'write', 'append', 'batch'] as const
+
+export type SheetsOperation = (typeof SHEETS_OPERATIONS)[number]
+
+const policySchema = z.object({
+    // Attempts per request, including the first (retryable errors only)
+    maxAttempts: z.number().int().min(1),
+    // Backoff before the second attempt; doubles per attempt, with jitter
+    baseDelayMs: z.number().int().min(0),
+    // Longest backoff; a Retry-After beyond it fails the request instead of waiting
+    maxDelayMs: z.number().int().min(0),
+    // Consecutive failed requests that open the circuit
+    failureThreshold: z.number().int().min(1),
+    // How long the circuit stays open before a single probe request is let through
+    resetTimeoutMs: z.number().int().min(0),
+})
+
+export type SheetsOperationPolicy = z.infer<typeof policySchema>
+
+const DEFAULT_POLICY: SheetsOperationPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 200,
+    maxDelayMs: 30000,
+    failureThreshold: 5,
+    resetTimeoutMs: 60000,
+}
+
+/**
+ * Policies per operation: the defaults, overridden field by field from
+ * SHEETS_POLICIES, e.g. {"append":{"failureThreshold":10,"maxAttempts":5}}
+ */
+export function parseSheetsPolicies(json = process.env.SHEETS_POLICIES): Record<SheetsOperation, SheetsOperationPolicy> {
+    let raw: unknown = {}
+    if (json) {
+        try {
+            raw = JSON.parse(json)
+        } catch {
+            throw new Error('Invalid SHEETS_POLICIES: not valid JSON')
+        }
+    }
+
+    const result = z.partialRecord(z.enum(SHEETS_OPERATIONS), policySchema.partial().strict()).safeParse(raw)
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`)
+        throw new Error(`Invalid SHEETS_POLICIES: ${issues.join('; ')}`)
+    }
+
+    const overrides = result.data
+    return Object.fromEntries(
+        SHEETS_OPERATIONS.map(operation => [operation, { ...DEFAULT_POLICY, ...overrides[operation] }])
+    ) as Record<SheetsOperation, SheetsOperationPolicy>
+}
+
+// ============================================================================
+// SHEETS CONFIG
+// ============================================================================
+
 export const SHEETS_CONFIG = {
     spreadsheetId: process.env.GOOGLE_SHEETS_SPREADSHEET_ID!,
 
-    // Sheet names (must match schema-setup.gs)
+    // Local emulator base URL (lib/sheets/emulator.ts); no credentials are used when set
+    emulatorUrl: process.env.SHEETS_EMULATOR_URL || undefined,
+
+    // Whole-sheet read cache TTL (0 disables caching)
+    cacheTtlMs: parseInt(process.env.SHEETS_CACHE_TTL_MS || '30000'),
+
+    // Log appends to one sheet within this window share a single request (0 disables batching)
+    appendWindowMs: parseInt(process.env.SHEETS_APPEND_WINDOW_MS || '250'),
+    appendBatchSize: 500,
+
+    // How long shutdown waits for buffered appends before giving up on them
+    shutdownFlushMs: parseInt(process.env.SHEETS_SHUTDOWN_FLUSH_MS || '5000'),
+
+    // Client-side token buckets for the per-minute API quotas (0 disables a bucket).
+    // Requests beyond the quota queue, high priority first, for up to queueTimeoutMs.
+    quota: {
+        readsPerMinute: parseInt(process.env.SHEETS_READS_PER_MINUTE || '60'),
+        writesPerMinute: parseInt(process.env.SHEETS_WRITES_PER_MINUTE || '60'),
+        queueTimeoutMs: parseInt(process.env.SHEETS_QUEUE_TIMEOUT_MS || '60000'),
+    },
+
+    // Key/Value sheet holding schema_version (see lib/sheets/migrations.ts)
+    metadataSheet: '_METADATA',
+
+    // Sheet names
     sheets: {
         USERS: 'USERS',
         ROLES: 'ROLES',
@@ -18,7 +115,9 @@ export const SHEETS_CONFIG = {
         SESSION_CACHE: 'SESSION_CACHE',
     },
 
-    // Column mappings (0-indexed)
+    // Expected columns (0-indexed, in header order).
+    // The adapter locates columns by header name; these define which headers
+    // must exist and their relative order (see lib/sheets/columns.ts).
     columns: {
         USERS: {
             user_id: 0,
@@ -111,10 +210,56 @@ export const SHEETS_CONFIG = {
             ip_address: 9,
             user_agent: 10,
         },
+        SESSION_CACHE: {
+            cache_key: 0,
+            cache_value: 1,
+            created_at: 2,
+            expires_at: 3,
+            hit_count: 4,
+        },
+    },
+
+    // Allowed values per column: enforced as dropdowns in the sheet and
+    // as enums by the entity schemas (lib/data/schemas.ts)
+    validations: {
+        USERS: {
+            auth_provider: ['google', 'email', 'sso'],
+            is_active: BOOLEAN_VALUES,
+        },
+        ROLES: {
+            is_active: BOOLEAN_VALUES,
+        },
+        ROLE_ASSIGNMENTS: {
+            is_active: BOOLEAN_VALUES,
+        },
+        MODULES: {
+            is_active: BOOLEAN_VALUES,
+        },
+        PERMISSIONS: {
+            is_active: BOOLEAN_VALUES,
+        },
+        SITE_CONFIG: {
+            data_type: ['string', 'number', 'boolean', 'json'],
+            is_active: BOOLEAN_VALUES,
+        },
+        TRANSACTION_LOG: {
+            status: ['PENDING', 'SUCCESS', 'FAILED'],
+        },
+        SYSTEM_LOG: {
+            level: ['ERROR', 'WARN', 'INFO', 'DEBUG'],
+        },
+        SESSION_CACHE: {},
     },
 } as const
 
-// Validate required environment variables
-if (!process.env.GOOGLE_SHEETS_SPREADSHEET_ID) {
-    throw new Error('GOOGLE_SHEETS_SPREADSHEET_ID is required')
+/**
+ * Validate required environment variables
+ *
+ * Called when the Sheets client is created (not at import time), so other
+ * data adapters can run without Google credentials.
+ */
+export function assertSheetsConfig(): void {
+    if (!process.env.GOOGLE_SHEETS_SPREADSHEET_ID) {
+        throw new Error('GOOGLE_SHEETS_SPREADSHEET_ID is required')
+    }
 }
@@ -0,0 +1,504 @@
+/**
+ * Google Sheets API Emulator
+ *
+ * A local HTTP server for the part of the Sheets v4 REST API that SheetsClient
+ * uses, so the Sheets adapter, retries and the circuit breaker can be tested
+ * without a spreadsheet. Point SheetsClient at it with SHEETS_EMULATOR_URL.
+ *
+ * Supported:
+ * - values.get / update / append / batchGet / batchUpdate / clear (A1 ranges:
+ *   Sheet, Sheet!1:1, Sheet!A2:H10, Sheet!A2:H, Sheet!B1)
+ * - spreadsheets.get (sheet list) and batchUpdate (addSheet, insertDimension;
+ *   other requests such as setDataValidation are accepted and ignored)
+ *
+ * Cells are stored as strings, the way FORMATTED_VALUE reads return them.
+ * Any spreadsheet ID is accepted; all IDs share one set of sheets.
+ *
+ * Faults (429/500/503 responses, latency) are injected with setFaults() or,
+ * when running standalone (npm run sheets:emulator), over HTTP:
+ *   PUT    /_emulator/faults  { errorRate?, failNext?, status?, retryAfterSeconds?, latencyMs?, operations? }
+ *   DELETE /_emulator/faults
+ *   GET    /_emulator/sheets  (all cells)
+ *   POST   /_emulator/reset   { sheets? }
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import type { AddressInfo } from 'net'
+import { sleep } from '../utils'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EmulatorOperation =
+    | 'get'
+    | 'update'
+    | 'append'
+    | 'batchGet'
+    | 'batchUpdateValues'
+    | 'clear'
+    | 'spreadsheet'
+    | 'batchUpdate'
+
+export interface SheetsEmulatorFaults {
+    errorRate?: number // Probability (0-1) that a request fails
+    failNext?: number // Fail exactly the next N requests
+    status?: number // Status of injected failures (default 500)
+    retryAfterSeconds?: number // Retry-After header on injected failures
+    latencyMs?: number // Delay before every response
+    operations?: EmulatorOperation[] // Limit faults to these operations (default all)
+}
+
+export interface SheetsEmulatorOptions {
+    port?: number // 0 (default) picks a free port
+    file?: string // JSON file the sheets are loaded from and saved to after every write
+    sheets?: Record<string, unknown[][]> // Initial cells when there is no file
+    faults?: SheetsEmulatorFaults
+}
+
+export interface EmulatorRequest {
+    operation: EmulatorOperation
+    ranges: string[]
+    status: number
+}
+
+interface Sheet {
+    sheetId: number
+    rows: string[][]
+}
+
+// Parsed A1 range; rows and columns are 0-indexed, ends inclusive, undefined = unbounded
+interface GridRange {
+    sheetName: string
+    startRow: number
+    startColumn: number
+    endRow?: number
+    endColumn?: number
+}
+
+// batchUpdate requests the emulator applies
+interface StructureRequest {
+    addSheet?: { properties?: { title?: string } }
+    insertDimension?: {
+        range: { sheetId: number; dimension: 'ROWS' | 'COLUMNS'; startIndex: number; endIndex: number }
+    }
+}
+
+class EmulatorError extends Error {
+    constructor(
+        public readonly status: number,
+        message: string
+    ) {
+        super(message)
+        this.name = 'EmulatorError'
+    }
+}
+
+const STATUS_NAMES: Record<number, string> = {
+    400: 'INVALID_ARGUMENT',
+    404: 'NOT_FOUND',
+    429: 'RESOURCE_EXHAUSTED',
+    500: 'INTERNAL',
+    503: 'UNAVAILABLE',
+}
+
+// ============================================================================
+// A1 RANGES
+// ============================================================================
+
+function columnIndex(letters: string): number {
+    let index = 0
+    for (const letter of letters) {
+        index = index * 26 + (letter.charCodeAt(0) - 64)
+    }
+    return index - 1
+}
+
+function parseRange(range: string): GridRange {
+    const separator = range.lastIndexOf('!')
+    const rawName = separator === -1 ? range : range.slice(0, separator)
+    const sheetName = rawName.replace(/^'(.*)'$/, '$1').replace(/''/g, "'")
+    const grid: GridRange = { sheetName, startRow: 0, startColumn: 0 }
+    if (separator === -1) return grid
+
+    const [start, end = start] = range.slice(separator + 1).toUpperCase().split(':')
+    const startMatch = /^([A-Z]*)(\d*)$/.exec(start)
+    const endMatch = /^([A-Z]*)(\d*)$/.exec(end)
+    if (!startMatch || !endMatch || (!startMatch[1] && !startMatch[2])) {
+        throw new EmulatorError(400, `Unable to parse range: ${range}`)
+    }
+
+    grid.startColumn = startMatch[1] ? columnIndex(startMatch[1]) : 0
+    grid.startRow = startMatch[2] ? Number(startMatch[2]) - 1 : 0
+    grid.endColumn = endMatch[1] ? columnIndex(endMatch[1]) : undefined
+    grid.endRow = endMatch[2] ? Number(endMatch[2]) - 1 : undefined
+    return grid
+}
+
+function toCell(value: unknown): string {
+    if (value === null || value === undefined) return ''
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+    return String(value)
+}
+
+// Reads omit trailing empty cells and rows, like the real API
+function trimRows(rows: string[][]): string[][] {
+    const trimmed = rows.map(row => {
+        let length = row.length
+        while (length > 0 && row[length - 1] === '') length--
+        return row.slice(0, length)
+    })
+    while (trimmed.length > 0 && trimmed[trimmed.length - 1].length === 0) trimmed.pop()
+    return trimmed
+}
+
+// ============================================================================
+// EMULATOR
+// ============================================================================
+
+export class SheetsEmulator {
+    private sheets = new Map<string, Sheet>()
+    private nextSheetId = 1
+    private faults: SheetsEmulatorFaults
+    private server: Server | null = null
+    private baseUrl: string | null = null
+
+    // Every API request served, oldest first (control requests excluded)
+    readonly requests: EmulatorRequest[] = []
+
+    constructor(private readonly options: SheetsEmulatorOptions = {}) {
+        this.faults = { ...options.faults }
+        this.load(options.sheets ?? {})
+    }
+
+    /**
+     * Listen on options.port; resolves with the URL to use as SHEETS_EMULATOR_URL
+     */
+    async start(): Promise<string> {
+        if (this.options.file && existsSync(this.options.file)) {
+            this.load(JSON.parse(await readFile(this.options.file, 'utf8')))
+        }
+
+        const server = createServer((req, res) => {
+            this.handle(req, res).catch(error => {
+                this.respond(res, 500, { error: { code: 500, message: String(error), status: 'INTERNAL' } })
+            })
+        })
+        await new Promise<void>(resolve => server.listen(this.options.port ?? 0, '127.0.0.1', resolve))
+
+        this.server = server
+        this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        return this.baseUrl
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server
+        if (!server) return
+        this.server = null
+        await new Promise<void>(resolve => {
+            server.close(() => resolve())
+            server.closeAllConnections()
+        })
+    }
+
+    get url(): string {
+        if (!this.baseUrl) {
+            throw new Error('Sheets emulator is not running')
+        }
+        return this.baseUrl
+    }
+
+    setFaults(faults: SheetsEmulatorFaults): void {
+        this.faults = { ...faults }
+    }
+
+    clearFaults(): void {
+        this.faults = {}
+    }
+
+    /**
+     * Replace every sheet (and forget the request log)
+     */
+    reset(sheets: Record<string, unknown[][]> = {}): void {
+        this.sheets.clear()
+        this.nextSheetId = 1
+        this.requests.length = 0
+        this.load(sheets)
+    }
+
+    /**
+     * Stored cells of a sheet, trimmed like a read (undefined for a missing sheet)
+     */
+    getValues(sheetName: string): string[][] | undefined {
+        const sheet = this.sheets.get(sheetName)
+        return sheet && trimRows(sheet.rows)
+    }
+
+    private load(sheets: Record<string, unknown[][]>): void {
+        for (const [name, rows] of Object.entries(sheets)) {
+            this.sheets.set(name, { sheetId: this.nextSheetId++, rows: rows.map(row => row.map(toCell)) })
+        }
+    }
+
+    private snapshot(): Record<string, string[][]> {
+        return Object.fromEntries([...this.sheets].map(([name, sheet]) => [name, trimRows(sheet.rows)]))
+    }
+
+    private async persist(): Promise<void> {
+        if (this.options.file) {
+            await writeFile(this.options.file, JSON.stringify(this.snapshot(), null, 2))
+        }
+    }
+
+    private sheet(name: string, range: string): Sheet {
+        const sheet = this.sheets.get(name)
+        if (!sheet) {
+            throw new EmulatorError(400, `Unable to parse range: ${range}`)
+        }
+        return sheet
+    }
+
+    // ------------------------------------------------------------------------
+    // HTTP
+    // ------------------------------------------------------------------------
+
+    private respond(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+        res.end(JSON.stringify(body))
+    }
+
+    private async readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+        let body = ''
+        for await (const chunk of req) body += chunk
+        return body ? JSON.parse(body) : {}
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://emulator')
+
+        if (url.pathname.startsWith('/_emulator/')) {
+            return this.handleControl(req, res, url.pathname)
+        }
+
+        const route = this.route(req.method ?? 'GET', url)
+        if (!route) {
+            this.respond(res, 404, { error: { code: 404, message: `Not found: ${url.pathname}`, status: 'NOT_FOUND' } })
+            return
+        }
+
+        const { latencyMs, operations } = this.faults
+        if (latencyMs) await sleep(latencyMs)
+
+        const entry: EmulatorRequest = { operation: route.operation, ranges: route.ranges, status: 200 }
+        this.requests.push(entry)
+
+        if (!operations || operations.includes(route.operation)) {
+            const injected = this.injectedFailure()
+            if (injected) {
+                entry.status = injected
+                const headers: Record<string, string> = this.faults.retryAfterSeconds === undefined
+                    ? {}
+                    : { 'Retry-After': String(this.faults.retryAfterSeconds) }
+                this.respond(res, injected, {
+                    error: { code: injected, message: 'Injected by the Sheets emulator', status: STATUS_NAMES[injected] ?? 'UNKNOWN' },
+                }, headers)
+                return
+            }
+        }
+
+        try {
+            const body = req.method === 'GET' ? {} : await this.readBody(req)
+            const result = this.execute(route.operation, route.ranges, body)
+            if (route.operation !== 'get' && route.operation !== 'batchGet' && route.operation !== 'spreadsheet') {
+                await this.persist()
+            }
+            this.respond(res, 200, result)
+        } catch (error) {
+            const status = error instanceof EmulatorError ? error.status : 500
+            entry.status = status
+            this.respond(res, status, {
+                error: { code: status, message: error instanceof Error ? error.message : String(error), status: STATUS_NAMES[status] ?? 'UNKNOWN' },
+            })
+        }
+    }
+
+    private injectedFailure(): number | null {
+        const { errorRate, failNext, status = 500 } = this.faults
+
+        if (failNext && failNext > 0) {
+            this.faults.failNext = failNext - 1
+            return status
+        }
+        if (errorRate && Math.random() < errorRate) {
+            return status
+        }
+        return null
+    }
+
+    /**
+     * Map a REST request to an operation and its (decoded) ranges
+     */
+    private route(method: string, url: URL): { operation: EmulatorOperation; ranges: string[] } | null {
+        const match = /^\/v4\/spreadsheets\/([^/:]+)(.*)$/.exec(url.pathname)
+        if (!match) return null
+        const rest = match[2]
+
+        if (rest === '' && method === 'GET') return { operation: 'spreadsheet', ranges: [] }
+        if (rest === ':batchUpdate' && method === 'POST') return { operation: 'batchUpdate', ranges: [] }
+        if (rest === '/values:batchGet' && method === 'GET') {
+            return { operation: 'batchGet', ranges: url.searchParams.getAll('ranges') }
+        }
+        // Ranges are in the body
+        if (rest === '/values:batchUpdate' && method === 'POST') return { operation: 'batchUpdateValues', ranges: [] }
+
+        // The range is percent-encoded; a literal ':' starts the method name
+        const values = /^\/values\/([^:]+)(?::(append|clear))?$/.exec(rest)
+        if (!values) return null
+        const range = decodeURIComponent(values[1])
+
+        if (values[2] === 'append' && method === 'POST') return { operation: 'append', ranges: [range] }
+        if (values[2] === 'clear' && method === 'POST') return { operation: 'clear', ranges: [range] }
+        if (!values[2] && method === 'GET') return { operation: 'get', ranges: [range] }
+        if (!values[2] && method === 'PUT') return { operation: 'update', ranges: [range] }
+        return null
+    }
+
+    private execute(operation: EmulatorOperation, ranges: string[], body: Record<string, unknown>): unknown {
+        switch (operation) {
+            case 'get':
+                return this.getRange(ranges[0])
+            case 'batchGet':
+                return { valueRanges: ranges.map(range => this.getRange(range)) }
+            case 'update':
+                return this.updateRange(ranges[0], (body.values as unknown[][]) ?? [])
+            case 'batchUpdateValues':
+                return this.batchUpdateRanges((body.data as { range: string; values?: unknown[][] }[]) ?? [])
+            case 'append':
+                return this.appendRange(ranges[0], (body.values as unknown[][]) ?? [])
+            case 'clear':
+                return this.clearRange(ranges[0])
+            case 'spreadsheet':
+                return {
+                    sheets: [...this.sheets].map(([title, sheet]) => ({ properties: { sheetId: sheet.sheetId, title } })),
+                }
+            case 'batchUpdate':
+                return { replies: ((body.requests as StructureRequest[]) ?? []).map(request => this.applyRequest(request)) }
+        }
+    }
+
+    private getRange(range: string): { range: string; majorDimension: 'ROWS'; values?: string[][] } {
+        const grid = parseRange(range)
+        const sheet = this.sheet(grid.sheetName, range)
+
+        const rows = sheet.rows
+            .slice(grid.startRow, grid.endRow === undefined ? undefined : grid.endRow + 1)
+            .map(row => row.slice(grid.startColumn, grid.endColumn === undefined ? undefined : grid.endColumn + 1))
+        const values = trimRows(rows)
+
+        return values.length > 0 ? { range, majorDimension: 'ROWS', values } : { range, majorDimension: 'ROWS' }
+    }
+
+    private writeCells(sheet: Sheet, startRow: number, startColumn: number, values: unknown[][]): void {
+        values.forEach((cells, offset) => {
+            const row = sheet.rows[startRow + offset] ?? []
+            while (row.length < startColumn) row.push('')
+            cells.forEach((cell, column) => {
+                row[startColumn + column] = toCell(cell)
+            })
+            sheet.rows[startRow + offset] = row
+        })
+        for (let index = 0; index < sheet.rows.length; index++) {
+            sheet.rows[index] ??= []
+        }
+    }
+
+    private updateRange(range: string, values: unknown[][]) {
+        const grid = parseRange(range)
+        const sheet = this.sheet(grid.sheetName, range)
+        this.writeCells(sheet, grid.startRow, grid.startColumn, values)
+        return { updatedRange: range, updatedRows: values.length }
+    }
+
+    private batchUpdateRanges(data: { range: string; values?: unknown[][] }[]) {
+        // All or nothing: an unknown sheet fails the request before any cell changes
+        data.forEach(({ range }) => this.sheet(parseRange(range).sheetName, range))
+        const responses = data.map(({ range, values = [] }) => this.updateRange(range, values))
+        return { totalUpdatedRows: responses.reduce((total, response) => total + response.updatedRows, 0), responses }
+    }
+
+    private appendRange(range: string, values: unknown[][]) {
+        const grid = parseRange(range)
+        const sheet = this.sheet(grid.sheetName, range)
+        const startRow = trimRows(sheet.rows).length
+        this.writeCells(sheet, startRow, grid.startColumn, values)
+        return { updates: { updatedRange: `${grid.sheetName}!A${startRow + 1}`, updatedRows: values.length } }
+    }
+
+    private clearRange(range: string) {
+        const grid = parseRange(range)
+        const sheet = this.sheet(grid.sheetName, range)
+        const lastRow = Math.min(grid.endRow ?? sheet.rows.length - 1, sheet.rows.length - 1)
+
+        for (let index = grid.startRow; index <= lastRow; index++) {
+            const row = sheet.rows[index]
+            const lastColumn = Math.min(grid.endColumn ?? row.length - 1, row.length - 1)
+            for (let column = grid.startColumn; column <= lastColumn; column++) {
+                row[column] = ''
+            }
+        }
+        return { clearedRange: range }
+    }
+
+    private applyRequest(request: StructureRequest): object {
+        if (request.addSheet) {
+            const title = request.addSheet.properties?.title
+            if (!title || this.sheets.has(title)) {
+                throw new EmulatorError(400, `Invalid addSheet: a sheet with the name "${title}" already exists`)
+            }
+            const sheet: Sheet = { sheetId: this.nextSheetId++, rows: [] }
+            this.sheets.set(title, sheet)
+            return { addSheet: { properties: { sheetId: sheet.sheetId, title } } }
+        }
+
+        if (request.insertDimension) {
+            const { sheetId, dimension, startIndex, endIndex } = request.insertDimension.range
+            const sheet = [...this.sheets.values()].find(candidate => candidate.sheetId === sheetId)
+            if (!sheet) {
+                throw new EmulatorError(400, `No grid with id: ${sheetId}`)
+            }
+            const count = endIndex - startIndex
+            if (dimension === 'ROWS') {
+                sheet.rows.splice(startIndex, 0, ...Array.from({ length: count }, () => []))
+            } else {
+                for (const row of sheet.rows) {
+                    if (row.length > startIndex) row.splice(startIndex, 0, ...Array<string>(count).fill(''))
+                }
+            }
+        }
+
+        return {}
+    }
+
+    private async handleControl(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+        if (pathname === '/_emulator/faults' && req.method === 'PUT') {
+            this.setFaults(await this.readBody(req) as SheetsEmulatorFaults)
+            return this.respond(res, 200, this.faults)
+        }
+        if (pathname === '/_emulator/faults' && req.method === 'DELETE') {
+            this.clearFaults()
+            return this.respond(res, 200, this.faults)
+        }
+        if (pathname === '/_emulator/sheets' && req.method === 'GET') {
+            return this.respond(res, 200, this.snapshot())
+        }
+        if (pathname === '/_emulator/reset' && req.method === 'POST') {
+            const body = await this.readBody(req)
+            this.reset((body.sheets as Record<string, unknown[][]>) ?? {})
+            await this.persist()
+            return this.respond(res, 200, this.snapshot())
+        }
+        this.respond(res, 404, { error: `Unknown emulator endpoint: ${req.method} ${pathname}` })
+    }
+}
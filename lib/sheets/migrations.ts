@@ -0,0 +1,42 @@
+/**
+ * Spreadsheet Schema Migrations
+ *
+ * Ordered changes to an existing spreadsheet, applied by lib/sheets/setup.ts.
+ * The last applied version is stored as schema_version in the _METADATA sheet.
+ *
+ * Migrations must be idempotent: a fresh spreadsheet is created straight from
+ * SHEETS_CONFIG, so a column added by a migration is already there.
+ *
+ * Adding a column:
+ * 1. Add it to SHEETS_CONFIG.columns, lib/data/types.ts, schemas.ts and tables.ts
+ * 2. Append { version: 2, description: 'USERS.phone', up: ctx => ctx.addColumn('USERS', 'phone') }
+ */
+
+import type { SheetKey } from './columns'
+
+export interface SheetMigrationContext {
+    /**
+     * Insert `column` right after its predecessor in SHEETS_CONFIG.columns.
+     * Returns false (nothing changed) when the header already has it.
+     */
+    addColumn(sheetKey: SheetKey, column: string): Promise<boolean>
+}
+
+export interface SheetMigration {
+    version: number
+    description: string
+    up(context: SheetMigrationContext): Promise<void>
+}
+
+// Schema created from SHEETS_CONFIG (same as docs/schema-setup.gs 1.0.0)
+export const BASELINE_VERSION = 1
+
+// Ascending versions above BASELINE_VERSION; never edit one that has shipped
+export const SHEET_MIGRATIONS: SheetMigration[] = []
+
+/**
+ * Version a spreadsheet is at once every migration has run
+ */
+export function latestSchemaVersion(): number {
+    return SHEET_MIGRATIONS.reduce((latest, migration) => Math.max(latest, migration.version), BASELINE_VERSION)
+}
@@ -0,0 +1,163 @@
+/**
+ * Sheets API Rate Limiter
+ *
+ * Google enforces per-minute read and write quotas; going over them returns
+ * 429s. SheetsClient takes a token from a bucket before every request, so a
+ * burst queues up on our side instead of being rejected by the API:
+ * - One bucket per quota (reads, writes), refilled continuously
+ * - Queued requests are served by priority, FIFO within a priority, so
+ *   user-facing reads go ahead of log appends
+ * - A 429 pauses the whole bucket for its Retry-After, not only the request
+ *   that got it
+ * - A request queued longer than maxWaitMs fails with RateLimitError
+ */
+
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 }
+
+export interface TokenBucketOptions {
+    perMinute: number // Refill rate; 0 disables limiting
+    burst?: number // Bucket size (default perMinute)
+    maxWaitMs: number
+}
+
+export interface TokenBucketStats {
+    tokens: number
+    queued: number
+    delayed: number // Requests that had to wait for a token
+    rejected: number // Requests that waited longer than maxWaitMs
+    pausedForMs: number // Remaining pause after a 429
+}
+
+interface Waiter {
+    rank: number
+    seq: number
+    deadline: number
+    resolve: () => void
+    reject: (error: Error) => void
+}
+
+/**
+ * A request waited longer than maxWaitMs for a token
+ */
+export class RateLimitError extends Error {
+    constructor(bucket: string, waitedMs: number) {
+        super(`Sheets ${bucket} quota: request queued for ${waitedMs}ms without a token`)
+        this.name = 'RateLimitError'
+    }
+}
+
+class TokenBucket {
+    private readonly burst: number
+    private readonly refillPerMs: number
+    private tokens: number
+    private lastRefill = Date.now()
+    private pausedUntil = 0
+    private waiters: Waiter[] = []
+    private seq = 0
+    private timer: ReturnType<typeof setTimeout> | null = null
+    private delayed = 0
+    private rejected = 0
+
+    constructor(
+        readonly name: string,
+        private readonly options: TokenBucketOptions
+    ) {
+        this.burst = options.burst ?? options.perMinute
+        this.refillPerMs = options.perMinute / 60_000
+        this.tokens = this.burst
+    }
+
+    /**
+     * Resolves once a request may be sent
+     */
+    acquire(priority: RequestPriority = 'normal'): Promise<void> {
+        if (this.options.perMinute <= 0) return Promise.resolve()
+
+        this.refill()
+        if (this.waiters.length === 0 && this.tokens >= 1 && Date.now() >= this.pausedUntil) {
+            this.tokens--
+            return Promise.resolve()
+        }
+
+        this.delayed++
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = {
+                rank: PRIORITY_RANK[priority],
+                seq: this.seq++,
+                deadline: Date.now() + this.options.maxWaitMs,
+                resolve,
+                reject,
+            }
+            // Keep waiters sorted by (rank, seq)
+            const index = this.waiters.findIndex(other => other.rank > waiter.rank)
+            this.waiters.splice(index === -1 ? this.waiters.length : index, 0, waiter)
+            this.schedule()
+        })
+    }
+
+    /**
+     * Hold every request for `ms` (after a 429), then resume with a single token
+     */
+    pause(ms: number): void {
+        if (this.options.perMinute <= 0 || ms <= 0) return
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+        this.tokens = Math.min(1, this.burst)
+        this.lastRefill = this.pausedUntil
+        this.schedule()
+    }
+
+    getStats(): TokenBucketStats {
+        this.refill()
+        return {
+            tokens: Math.floor(this.tokens),
+            queued: this.waiters.length,
+            delayed: this.delayed,
+            rejected: this.rejected,
+            pausedForMs: Math.max(0, this.pausedUntil - Date.now()),
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now()
+        if (now > this.lastRefill) {
+            this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.refillPerMs)
+            this.lastRefill = now
+        }
+    }
+
+    private release(): void {
+        this.timer = null
+        this.refill()
+        const now = Date.now()
+
+        for (const waiter of this.waiters.filter(waiter => waiter.deadline <= now)) {
+            this.rejected++
+            waiter.reject(new RateLimitError(this.name, this.options.maxWaitMs))
+        }
+        this.waiters = this.waiters.filter(waiter => waiter.deadline > now)
+
+        while (this.waiters.length > 0 && this.tokens >= 1 && now >= this.pausedUntil) {
+            this.tokens--
+            this.waiters.shift()!.resolve()
+        }
+
+        this.schedule()
+    }
+
+    /**
+     * Wake up when the next token arrives or the oldest waiter times out
+     */
+    private schedule(): void {
+        if (this.timer || this.waiters.length === 0) return
+
+        const now = Date.now()
+        const tokenAt = Math.max(now, this.pausedUntil) + Math.max(0, (1 - this.tokens) / this.refillPerMs)
+        const deadline = Math.min(...this.waiters.map(waiter => waiter.deadline))
+
+        this.timer = setTimeout(() => this.release(), Math.max(0, Math.ceil(Math.min(tokenAt, deadline) - now)))
+    }
+}
+
+export { TokenBucket }
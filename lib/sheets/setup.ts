@@ -0,0 +1,238 @@
+/**
+ * Spreadsheet Setup
+ *
+ * Brings a spreadsheet up to the schema in SHEETS_CONFIG. Safe to re-run:
+ * 1. Creates missing sheets (and _METADATA) and writes headers on empty ones
+ * 2. Applies pending migrations, recording schema_version after each one
+ * 3. Sets dropdown validation from SHEETS_CONFIG.validations
+ *
+ * Existing headers and data are never cleared. A header that still doesn't
+ * match SHEETS_CONFIG after migrating fails with a SheetSchemaError.
+ */
+
+import { now } from '../utils'
+import { sheetCache } from './cache'
+import { getSheetsClient } from './client'
+import { buildColumnMap, columnLetter, expectedColumns } from './columns'
+import type { SheetKey } from './columns'
+import { SHEETS_CONFIG } from './config'
+import { BASELINE_VERSION, SHEET_MIGRATIONS, latestSchemaVersion } from './migrations'
+import type { SheetMigrationContext } from './migrations'
+
+export interface SetupReport {
+    createdSheets: string[]
+    headersWritten: string[]
+    fromVersion: number // 0 when the spreadsheet had no schema_version
+    toVersion: number
+    appliedMigrations: string[]
+    validatedColumns: number
+}
+
+const SHEET_KEYS = Object.keys(SHEETS_CONFIG.sheets) as SheetKey[]
+const METADATA_HEADER = ['Key', 'Value']
+
+async function getSheetIds(): Promise<Map<string, number>> {
+    const sheets = await getSheetsClient().listSheets()
+    return new Map(sheets.map(sheet => [sheet.title, sheet.sheetId]))
+}
+
+/**
+ * Header row of each sheet, in one request
+ */
+async function readHeaders(sheetNames: string[]): Promise<Map<string, string[]>> {
+    const ranges = sheetNames.map(name => `${name}!1:1`)
+    const result = await getSheetsClient().batchRead(ranges)
+
+    return new Map(sheetNames.map((name, index) => {
+        const [header = []] = result[ranges[index]] ?? []
+        return [name, header.map(cell => String(cell ?? '').trim())]
+    }))
+}
+
+// ============================================================================
+// METADATA
+// ============================================================================
+
+/**
+ * schema_version from _METADATA ('1.0.0' from schema-setup.gs reads as 1)
+ */
+async function readSchemaVersion(): Promise<number> {
+    const rows = await getSheetsClient().read(SHEETS_CONFIG.metadataSheet)
+    const row = rows.find(cells => cells[0] === 'schema_version')
+    const version = parseInt(String(row?.[1] ?? ''), 10)
+    return Number.isNaN(version) ? 0 : version
+}
+
+async function writeMetadata(key: string, value: string): Promise<void> {
+    const client = getSheetsClient()
+    const sheetName = SHEETS_CONFIG.metadataSheet
+    const rows = await client.read(sheetName)
+    const index = rows.findIndex(cells => cells[0] === key)
+
+    if (index === -1) {
+        await client.append(sheetName, [[key, value]])
+    } else {
+        await client.write(sheetName, `A${index + 1}:B${index + 1}`, [[key, value]])
+    }
+}
+
+async function recordSchemaVersion(version: number): Promise<void> {
+    await writeMetadata('schema_version', String(version))
+    await writeMetadata('last_updated', now())
+}
+
+// ============================================================================
+// STEPS
+// ============================================================================
+
+async function ensureSheets(report: SetupReport): Promise<void> {
+    const client = getSheetsClient()
+    const expected = new Map<string, string[]>([
+        [SHEETS_CONFIG.metadataSheet, METADATA_HEADER],
+        ...SHEET_KEYS.map(key => [SHEETS_CONFIG.sheets[key], expectedColumns(key)] as [string, string[]]),
+    ])
+
+    const existing = await getSheetIds()
+    const missing = [...expected.keys()].filter(name => !existing.has(name))
+    await client.batchUpdate(missing.map(title => ({
+        addSheet: { properties: { title, gridProperties: { frozenRowCount: 1 } } },
+    })))
+    report.createdSheets.push(...missing)
+
+    const headers = await readHeaders([...expected.keys()])
+    for (const [sheetName, header] of expected) {
+        // Only empty header rows are written; anything else is left to migrations
+        if (headers.get(sheetName)?.some(Boolean)) continue
+
+        await client.write(sheetName, `A1:${columnLetter(header.length)}1`, [header])
+        report.headersWritten.push(sheetName)
+    }
+}
+
+function migrationContext(): SheetMigrationContext {
+    return {
+        async addColumn(sheetKey, column) {
+            const client = getSheetsClient()
+            const sheetName = SHEETS_CONFIG.sheets[sheetKey]
+            const expected = expectedColumns(sheetKey)
+
+            if (!expected.includes(column)) {
+                throw new Error(`Column "${column}" is not in SHEETS_CONFIG.columns.${sheetKey}`)
+            }
+
+            const header = (await readHeaders([sheetName])).get(sheetName) ?? []
+            if (header.includes(column)) return false
+
+            // Right after the nearest preceding expected column, so the order check in columns.ts holds
+            const previous = expected.slice(0, expected.indexOf(column)).reverse().find(name => header.includes(name))
+            const index = previous ? header.indexOf(previous) + 1 : 0
+            const sheetId = (await getSheetIds()).get(sheetName)
+
+            try {
+                await client.batchUpdate([{
+                    insertDimension: {
+                        range: { sheetId, dimension: 'COLUMNS', startIndex: index, endIndex: index + 1 },
+                        inheritFromBefore: index > 0,
+                    },
+                }])
+                await client.write(sheetName, `${columnLetter(index + 1)}1`, [[column]])
+            } finally {
+                // Cached rows and header no longer line up with the sheet
+                sheetCache.invalidate(sheetName)
+            }
+            return true
+        },
+    }
+}
+
+async function applyMigrations(report: SetupReport): Promise<void> {
+    const latest = latestSchemaVersion()
+    let version = await readSchemaVersion()
+    report.fromVersion = version
+
+    if (version > latest) {
+        throw new Error(`Spreadsheet schema_version ${version} is newer than this code supports (${latest})`)
+    }
+
+    if (version < BASELINE_VERSION) {
+        version = BASELINE_VERSION
+        await recordSchemaVersion(version)
+    }
+
+    const context = migrationContext()
+    const pending = SHEET_MIGRATIONS
+        .filter(migration => migration.version > version)
+        .sort((a, b) => a.version - b.version)
+
+    for (const migration of pending) {
+        await migration.up(context)
+        version = migration.version
+        await recordSchemaVersion(version)
+        report.appliedMigrations.push(`${migration.version}: ${migration.description}`)
+    }
+
+    report.toVersion = version
+}
+
+/**
+ * Validates every header and sets each sheet's dropdown rules (rows 2+)
+ */
+async function applyValidations(report: SetupReport): Promise<void> {
+    const sheetIds = await getSheetIds()
+    const headers = await readHeaders(SHEET_KEYS.map(key => SHEETS_CONFIG.sheets[key]))
+    const requests: object[] = []
+
+    for (const key of SHEET_KEYS) {
+        const sheetName = SHEETS_CONFIG.sheets[key]
+        const map = buildColumnMap(key, headers.get(sheetName) ?? [])
+        const rules: Record<string, readonly string[]> = SHEETS_CONFIG.validations[key]
+
+        for (const [column, values] of Object.entries(rules)) {
+            const position = map.positions[column]
+            requests.push({
+                setDataValidation: {
+                    range: {
+                        sheetId: sheetIds.get(sheetName),
+                        startRowIndex: 1,
+                        startColumnIndex: position,
+                        endColumnIndex: position + 1,
+                    },
+                    rule: {
+                        condition: { type: 'ONE_OF_LIST', values: values.map(value => ({ userEnteredValue: value })) },
+                        strict: true,
+                        showCustomUi: true,
+                    },
+                },
+            })
+        }
+    }
+
+    await getSheetsClient().batchUpdate(requests)
+    report.validatedColumns = requests.length
+}
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+export async function setupSpreadsheet(): Promise<SetupReport> {
+    const report: SetupReport = {
+        createdSheets: [],
+        headersWritten: [],
+        fromVersion: 0,
+        toVersion: 0,
+        appliedMigrations: [],
+        validatedColumns: 0,
+    }
+
+    try {
+        await ensureSheets(report)
+        await applyMigrations(report)
+        await applyValidations(report)
+    } finally {
+        // Headers may have been written or moved
+        sheetCache.invalidate()
+    }
+
+    return report
+}
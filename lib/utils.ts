@@ -54,3 +54,16 @@ export function sleep(ms: number): Promise<void> {
 export function cn(...classes: (string | undefined | null | false)[]): string {
     return classes.filter(Boolean).join(' ')
 }
+
+/**
+ * Copy only the listed keys that are present (e.g. the editable fields of a request body)
+ */
+export function pick<T extends object, K extends keyof T>(source: T, keys: readonly K[]): Partial<Pick<T, K>> {
+    const result: Partial<Pick<T, K>> = {}
+    for (const key of keys) {
+        if (source[key] !== undefined) {
+            result[key] = source[key]
+        }
+    }
+    return result
+}
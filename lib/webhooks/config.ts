@@ -0,0 +1,71 @@
+/**
+ * Webhook Configuration
+ *
+ * WEBHOOK_SUBSCRIPTIONS holds the subscriber registry as a JSON array:
+ *
+ *   [{ "id": "wms", "url": "https://wms.internal/hooks/crystal",
+ *      "events": ["user.created", "role.assigned"], "secret": "..." }]
+ *
+ * `events` lists webhook event types (see WEBHOOK_EVENTS), or "*" for all.
+ * The secret signs every payload (see ./signature) and is never returned by
+ * the admin API. The registry is read once at startup: changing it means
+ * editing the variable and restarting the server.
+ */
+
+import { z } from 'zod'
+
+export const WEBHOOK_EVENTS = ['user.created', 'user.deactivated', 'role.assigned', 'role.revoked'] as const
+
+export type WebhookEventType = (typeof WEBHOOK_EVENTS)[number]
+
+const subscriptionSchema = z.object({
+    id: z.string().trim().min(1),
+    url: z.url(),
+    events: z.array(z.enum([...WEBHOOK_EVENTS, '*'])).min(1),
+    secret: z.string().min(16, 'must be at least 16 characters'),
+    is_active: z.boolean().default(true),
+})
+
+export type WebhookSubscription = z.infer<typeof subscriptionSchema>
+
+export const WEBHOOK_CONFIG = {
+    // Attempts per delivery before it goes to the dead-letter list
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5'),
+
+    // Delay before the second attempt; doubles per attempt, with jitter
+    retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '1000'),
+
+    // Per-request timeout
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+
+    // How far back resumePending() looks for deliveries a restart interrupted
+    resumeWindowMs: parseInt(process.env.WEBHOOK_RESUME_WINDOW_HOURS || '24') * 60 * 60 * 1000,
+} as const
+
+/**
+ * Parse a subscription registry (WEBHOOK_SUBSCRIPTIONS by default)
+ */
+export function parseWebhookSubscriptions(json = process.env.WEBHOOK_SUBSCRIPTIONS): WebhookSubscription[] {
+    if (!json) return []
+
+    let raw: unknown
+    try {
+        raw = JSON.parse(json)
+    } catch {
+        throw new Error('Invalid WEBHOOK_SUBSCRIPTIONS: not valid JSON')
+    }
+
+    const result = z.array(subscriptionSchema).safeParse(raw)
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`)
+        throw new Error(`Invalid WEBHOOK_SUBSCRIPTIONS: ${issues.join('; ')}`)
+    }
+
+    const ids = result.data.map(subscription => subscription.id)
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index)
+    if (duplicate) {
+        throw new Error(`Invalid WEBHOOK_SUBSCRIPTIONS: duplicate id "${duplicate}"`)
+    }
+
+    return result.data
+}
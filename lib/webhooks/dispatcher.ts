@@ -0,0 +1,399 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Turns domain events into signed HTTP POSTs to the subscribed URLs:
+ * - user.created, role.assigned, role.revoked pass through; user.deactivated
+ *   is a user.updated that cleared is_active
+ * - Deliveries run in the background; the write that published the event
+ *   never waits for (or fails because of) a subscriber
+ * - Network errors, timeouts, 408, 429 and 5xx are retried with exponential
+ *   backoff and jitter (429/503 Retry-After is honored); other responses and
+ *   the last failed attempt go to the dead-letter list
+ *
+ * Every attempt is written to SYSTEM_LOG (module WEBHOOKS, correlation_id =
+ * delivery id), which is the delivery log. Queued deliveries (webhook_pending)
+ * and dead letters keep the signed body, so resumePending() can pick up what a
+ * restart interrupted and redeliver() sends the identical payload again.
+ */
+
+import { generateId, safeJsonParse, sleep } from '../utils'
+import { domainEvents, type DomainEvent, type DomainEventBus } from '../data/events'
+import { NotFoundError } from '../data/errors'
+import type { DataService, RoleAssignment, SystemLog, User } from '../data/types'
+import { WEBHOOK_CONFIG, type WebhookEventType, type WebhookSubscription } from './config'
+import { DELIVERY_HEADER, EVENT_HEADER, SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhookPayload } from './signature'
+
+export const WEBHOOK_MODULE = 'WEBHOOKS'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookDataMap {
+    'user.created': User
+    'user.deactivated': User
+    'role.assigned': RoleAssignment
+    'role.revoked': RoleAssignment
+}
+
+// JSON body of a delivery
+export interface WebhookPayload<K extends WebhookEventType = WebhookEventType> {
+    id: string // Delivery id, stable across retries and redelivery
+    event: K
+    occurred_at: string
+    actor: string
+    data: WebhookDataMap[K]
+}
+
+// Subscription as shown to admins
+export type WebhookSubscriptionInfo = Omit<WebhookSubscription, 'secret'>
+
+export interface WebhookDeliveryLog {
+    deliveries: SystemLog[] // Every attempt, newest first
+    deadLetters: SystemLog[] // Dead letters not delivered since
+}
+
+export interface WebhookDispatcherOptions {
+    maxAttempts: number
+    retryBaseMs: number
+    timeoutMs: number
+}
+
+interface Delivery {
+    id: string
+    subscription: WebhookSubscription
+    event: WebhookEventType
+    actor: string
+    body: string
+}
+
+interface AttemptResult {
+    ok: boolean
+    status?: number
+    error?: string
+    retryable: boolean
+    retryAfterMs?: number
+}
+
+// Details stored on webhook_pending and webhook_dead_letter log rows
+interface StoredDeliveryDetails {
+    subscription_id: string
+    url: string
+    event: WebhookEventType
+    body: string
+}
+
+const MAX_BACKOFF_MS = 5 * 60 * 1000
+
+// Actions that end a delivery; every webhook_pending row is followed by one
+const FINAL_ACTIONS = new Set(['webhook_delivered', 'webhook_dead_letter'])
+
+function isRetryableStatus(status: number): boolean {
+    return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Retry-After as milliseconds (delta seconds or HTTP date)
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined
+    if (/^\d+$/.test(value.trim())) return Number(value) * 1000
+    const at = Date.parse(value)
+    return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now())
+}
+
+// ============================================================================
+// DISPATCHER
+// ============================================================================
+
+export class WebhookDispatcher {
+    private service: DataService | null = null
+    private inFlight = new Set<Promise<void>>()
+
+    constructor(
+        private readonly subscriptions: WebhookSubscription[],
+        private readonly options: WebhookDispatcherOptions = WEBHOOK_CONFIG
+    ) {}
+
+    /**
+     * Deliver the webhook events of `bus`, logging to `service`; returns the unsubscribe function
+     */
+    attach(service: DataService, bus: DomainEventBus = domainEvents): () => void {
+        this.service = service
+
+        const unsubscribe = [
+            bus.on('user.created', event => this.emit('user.created', event, event.data.after)),
+            bus.on('user.updated', event => {
+                if (event.data.before?.is_active && !event.data.after.is_active) {
+                    this.emit('user.deactivated', event, event.data.after)
+                }
+            }),
+            bus.on('role.assigned', event => this.emit('role.assigned', event, event.data.after)),
+            bus.on('role.revoked', event => this.emit('role.revoked', event, event.data.after)),
+        ]
+
+        return () => unsubscribe.forEach(off => off())
+    }
+
+    getSubscriptions(): WebhookSubscriptionInfo[] {
+        return this.subscriptions.map(({ id, url, events, is_active }) => ({ id, url, events, is_active }))
+    }
+
+    /**
+     * Resolves once every queued delivery (including its retries) has finished
+     */
+    async drain(): Promise<void> {
+        while (this.inFlight.size > 0) {
+            await Promise.allSettled([...this.inFlight])
+        }
+    }
+
+    /**
+     * Recent delivery attempts and the dead letters still undelivered
+     */
+    async getDeliveryLog(limit = 200): Promise<WebhookDeliveryLog> {
+        const page = await this.requireService().querySystemLogs({
+            filter: { moduleCode: WEBHOOK_MODULE },
+            limit,
+        })
+
+        const delivered = new Set(
+            page.items.filter(log => log.action === 'webhook_delivered').map(log => log.correlation_id)
+        )
+
+        return {
+            deliveries: page.items,
+            deadLetters: page.items.filter(
+                log => log.action === 'webhook_dead_letter' && !delivered.has(log.correlation_id)
+            ),
+        }
+    }
+
+    /**
+     * Queue a dead-lettered delivery again with its original body and delivery id
+     */
+    async redeliver(deliveryId: string): Promise<void> {
+        const page = await this.requireService().querySystemLogs({
+            filter: { moduleCode: WEBHOOK_MODULE, correlationId: deliveryId, level: 'ERROR' },
+            limit: 1,
+        })
+
+        const deadLetter = page.items.find(log => log.action === 'webhook_dead_letter')
+        const details = safeJsonParse<StoredDeliveryDetails | null>(deadLetter?.details, null)
+        if (!deadLetter || !details) {
+            throw new NotFoundError('SYSTEM_LOG', deliveryId, `No dead-lettered webhook delivery ${deliveryId}`)
+        }
+
+        const subscription = this.subscriptions.find(candidate => candidate.id === details.subscription_id)
+        if (!subscription) {
+            throw new NotFoundError(
+                'SYSTEM_LOG',
+                deliveryId,
+                `Webhook subscription ${details.subscription_id} is no longer configured`
+            )
+        }
+
+        this.enqueue({
+            id: deliveryId,
+            subscription,
+            event: details.event,
+            actor: deadLetter.user_id ?? 'SYSTEM',
+            body: details.body,
+        })
+    }
+
+    /**
+     * Queue again the deliveries a restart interrupted: webhook_pending rows of
+     * the last `windowMs` with no final (delivered / dead letter) row since.
+     * Their retries start over. Deliveries whose subscription is gone are
+     * dead-lettered. Returns the number of deliveries picked up.
+     */
+    async resumePending(windowMs = WEBHOOK_CONFIG.resumeWindowMs): Promise<number> {
+        const service = this.requireService()
+        const after = new Date(Date.now() - windowMs).toISOString()
+
+        // Per delivery: queued minus finished, and the latest pending row
+        const open = new Map<string, { count: number; pending?: SystemLog }>()
+        let cursor: string | undefined
+        do {
+            const page = await service.querySystemLogs({
+                filter: { moduleCode: WEBHOOK_MODULE, after },
+                limit: 500,
+                cursor,
+            })
+            for (const log of page.items) {
+                if (!log.correlation_id) continue
+                const entry = open.get(log.correlation_id) ?? { count: 0 }
+                if (log.action === 'webhook_pending') {
+                    entry.count++
+                    if (!entry.pending || log.timestamp > entry.pending.timestamp) entry.pending = log
+                } else if (FINAL_ACTIONS.has(log.action ?? '')) {
+                    entry.count--
+                }
+                open.set(log.correlation_id, entry)
+            }
+            cursor = page.nextCursor ?? undefined
+        } while (cursor)
+
+        let resumed = 0
+        for (const [id, { count, pending }] of open) {
+            const details = safeJsonParse<StoredDeliveryDetails | null>(pending?.details, null)
+            if (count <= 0 || !pending || !details) continue
+
+            const actor = pending.user_id ?? 'SYSTEM'
+            const subscription = this.subscriptions.find(candidate => candidate.id === details.subscription_id)
+            if (!subscription?.is_active) {
+                const target = subscription ?? { id: details.subscription_id, url: details.url }
+                await this.record(
+                    { id, subscription: target, event: details.event, actor },
+                    'ERROR',
+                    'webhook_dead_letter',
+                    'dead-lettered on restart: subscription no longer active',
+                    { attempt: 0, body: details.body }
+                )
+                continue
+            }
+
+            // Already logged as pending; don't log it again
+            this.enqueue({ id, subscription, event: details.event, actor, body: details.body }, false)
+            resumed++
+        }
+
+        return resumed
+    }
+
+    private requireService(): DataService {
+        if (!this.service) {
+            throw new Error('WebhookDispatcher is not attached to a data service')
+        }
+        return this.service
+    }
+
+    private emit<K extends WebhookEventType>(event: K, source: DomainEvent, data: WebhookDataMap[K]): void {
+        for (const subscription of this.subscriptions) {
+            if (!subscription.is_active) continue
+            if (!subscription.events.includes('*') && !subscription.events.includes(event)) continue
+
+            const payload: WebhookPayload<K> = {
+                id: generateId(),
+                event,
+                occurred_at: source.occurredAt,
+                actor: source.actor,
+                data,
+            }
+            this.enqueue({ id: payload.id, subscription, event, actor: source.actor, body: JSON.stringify(payload) })
+        }
+    }
+
+    private enqueue(delivery: Delivery, persist = true): void {
+        const task: Promise<void> = (persist ? this.persist(delivery) : Promise.resolve())
+            .then(() => this.deliver(delivery))
+            .catch(error => console.error(`❌ Webhook delivery ${delivery.id} failed:`, error))
+            .finally(() => this.inFlight.delete(task))
+        this.inFlight.add(task)
+    }
+
+    /**
+     * Log the delivery as pending (with its body) so a restart can resume it
+     */
+    private async persist(delivery: Delivery): Promise<void> {
+        await this.record(delivery, 'INFO', 'webhook_pending', 'queued', { body: delivery.body })
+    }
+
+    private async deliver(delivery: Delivery): Promise<void> {
+        const { maxAttempts, retryBaseMs } = this.options
+
+        for (let attempt = 1; ; attempt++) {
+            const result = await this.attempt(delivery)
+
+            if (result.ok) {
+                await this.record(delivery, 'INFO', 'webhook_delivered', `delivered (${result.status})`, {
+                    attempt,
+                    status: result.status,
+                })
+                return
+            }
+
+            if (!result.retryable || attempt >= maxAttempts) {
+                await this.record(delivery, 'ERROR', 'webhook_dead_letter', `dead-lettered after ${attempt} attempt(s)`, {
+                    attempt,
+                    status: result.status,
+                    error: result.error,
+                    body: delivery.body,
+                })
+                return
+            }
+
+            await this.record(delivery, 'WARN', 'webhook_attempt_failed', `attempt ${attempt} failed`, {
+                attempt,
+                status: result.status,
+                error: result.error,
+            })
+
+            const backoff = Math.min(retryBaseMs * 2 ** (attempt - 1), MAX_BACKOFF_MS)
+            const jittered = backoff / 2 + Math.random() * (backoff / 2)
+            await sleep(Math.max(jittered, Math.min(result.retryAfterMs ?? 0, MAX_BACKOFF_MS)))
+        }
+    }
+
+    private async attempt(delivery: Delivery): Promise<AttemptResult> {
+        const timestamp = Math.floor(Date.now() / 1000)
+
+        try {
+            const response = await fetch(delivery.subscription.url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    [EVENT_HEADER]: delivery.event,
+                    [DELIVERY_HEADER]: delivery.id,
+                    [TIMESTAMP_HEADER]: String(timestamp),
+                    [SIGNATURE_HEADER]: signWebhookPayload(delivery.subscription.secret, timestamp, delivery.body),
+                },
+                body: delivery.body,
+                signal: AbortSignal.timeout(this.options.timeoutMs),
+            })
+            // Drain the body so the connection can be reused
+            await response.arrayBuffer().catch(() => undefined)
+
+            if (response.ok) {
+                return { ok: true, status: response.status, retryable: false }
+            }
+            return {
+                ok: false,
+                status: response.status,
+                error: `HTTP ${response.status}`,
+                retryable: isRetryableStatus(response.status),
+                retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+            }
+        } catch (error) {
+            return { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true }
+        }
+    }
+
+    private async record(
+        delivery: Pick<Delivery, 'id' | 'event' | 'actor'> & { subscription: Pick<WebhookSubscription, 'id' | 'url'> },
+        level: SystemLog['level'],
+        action: string,
+        outcome: string,
+        details: object
+    ): Promise<void> {
+        try {
+            await this.requireService().createSystemLog({
+                level,
+                user_id: delivery.actor,
+                module_code: WEBHOOK_MODULE,
+                action,
+                message: `${delivery.event} → ${delivery.subscription.id}: ${outcome}`,
+                details: JSON.stringify({
+                    subscription_id: delivery.subscription.id,
+                    event: delivery.event,
+                    url: delivery.subscription.url,
+                    ...details,
+                }),
+                correlation_id: delivery.id,
+            })
+        } catch (error) {
+            console.error(`❌ Failed to log ${action} for webhook delivery ${delivery.id}:`, error)
+        }
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Outbound Webhooks
+ *
+ * Notifies other internal systems (WMS, HR, ...) when a user is created or
+ * deactivated and when a role is assigned or revoked. Subscribers come from
+ * WEBHOOK_SUBSCRIPTIONS (see ./config); lib/data attaches the dispatcher to
+ * dataService, so every write path fires the hooks.
+ */
+
+import { parseWebhookSubscriptions } from './config'
+import { WebhookDispatcher } from './dispatcher'
+
+export const webhookDispatcher = new WebhookDispatcher(parseWebhookSubscriptions())
+
+export * from './config'
+export * from './dispatcher'
+export * from './signature'
@@ -0,0 +1,47 @@
+/**
+ * Webhook Signatures
+ *
+ * Every delivery carries
+ *   X-Crystal-Timestamp: <unix seconds>
+ *   X-Crystal-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * keyed with the subscription secret. Receivers recompute the HMAC over the
+ * raw body and reject stale timestamps, so a captured request can't be replayed.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const SIGNATURE_HEADER = 'X-Crystal-Signature'
+export const TIMESTAMP_HEADER = 'X-Crystal-Timestamp'
+export const EVENT_HEADER = 'X-Crystal-Event'
+export const DELIVERY_HEADER = 'X-Crystal-Delivery'
+
+// Default replay window for verifyWebhookSignature
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60
+
+/**
+ * Signature header value for `body` sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+    return `sha256=${digest}`
+}
+
+/**
+ * Check a received delivery; false for a wrong signature or a timestamp outside the tolerance
+ */
+export function verifyWebhookSignature(
+    secret: string,
+    body: string,
+    signature: string | null,
+    timestamp: string | null,
+    toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+    if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false
+
+    const sentAt = Number(timestamp)
+    if (Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) return false
+
+    const expected = Buffer.from(signWebhookPayload(secret, sentAt, body))
+    const received = Buffer.from(signature)
+    return expected.length === received.length && timingSafeEqual(expected, received)
+}
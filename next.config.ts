@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  // sql.js loads its WASM binary from node_modules at runtime
+  serverExternalPackages: ["sql.js"],
 };
 
 export default nextConfig;
@@ -0,0 +1,67 @@
+/**
+ * Export platform tables to a backup bundle
+ *
+ * Usage:
+ *   npm run data:backup -- [options]
+ *
+ * Options:
+ *   --adapter <name>       Source adapter (default: DATA_ADAPTER)
+ *   --format <json|csv>    json file or csv directory (default: json)
+ *   --out <path>           Destination (default: backups/crystal-core-<timestamp>[.json])
+ *   --tables <A,B,...>     Only these tables (default: all nine)
+ */
+
+import './env'
+import { parseArgs } from 'util'
+import { getDataAdapter } from '../lib/data'
+import { createBackup, writeBackup, type BackupLayout } from '../lib/data/backup'
+import { DATA_ADAPTERS, DATA_CONFIG, type DataAdapterName } from '../lib/data/config'
+import { TABLE_NAMES } from '../lib/data/tables'
+import type { TableName } from '../lib/data/types'
+import { closeDbClient } from '../lib/db/client'
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            adapter: { type: 'string', default: DATA_CONFIG.adapter },
+            format: { type: 'string', default: 'json' },
+            out: { type: 'string' },
+            tables: { type: 'string' },
+        },
+    })
+
+    const adapterName = values.adapter as DataAdapterName
+    if (!DATA_ADAPTERS.includes(adapterName)) {
+        throw new Error(`Invalid --adapter "${values.adapter}"`)
+    }
+
+    const layout = values.format as BackupLayout
+    if (layout !== 'json' && layout !== 'csv') {
+        throw new Error(`Invalid --format "${values.format}" (expected json or csv)`)
+    }
+
+    const tables = values.tables
+        ? (values.tables.split(',').map(t => t.trim()) as TableName[])
+        : TABLE_NAMES
+    const unknown = tables.filter(t => !TABLE_NAMES.includes(t))
+    if (unknown.length > 0) {
+        throw new Error(`Unknown tables: ${unknown.join(', ')}`)
+    }
+
+    const bundle = await createBackup(getDataAdapter(adapterName), { source: adapterName, tables })
+    const stamp = bundle.manifest.createdAt.replace(/[:.]/g, '-')
+    const out = values.out ?? `backups/crystal-core-${stamp}${layout === 'json' ? '.json' : ''}`
+    await writeBackup(bundle, out, layout)
+
+    for (const [table, info] of Object.entries(bundle.manifest.tables)) {
+        console.log(`  ✅ ${table}: ${info.rows} rows`)
+    }
+    console.log(`💾 Backup written to ${out}`)
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Backup failed:', error)
+        process.exitCode = 1
+    })
+    .finally(closeDbClient)
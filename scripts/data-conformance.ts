@@ -0,0 +1,91 @@
+/**
+ * Run the DataService conformance suite
+ *
+ * Usage: npm test
+ *
+ * Runs against a fresh memory adapter per case. When DATABASE_URL is set, it
+ * also runs against the Postgres adapter: lib/db/migrations are applied in a
+ * throwaway schema (dropped afterwards), emptied and seeded before each case.
+ * Other adapters can reuse runConformanceSuite() with their own seeding factory.
+ */
+
+import { randomUUID } from 'crypto'
+import { Client } from 'pg'
+import type { ConformanceResult } from '../lib/data/conformance'
+import type { TableName } from '../lib/data/types'
+
+/**
+ * Route every pooled connection to `schema` (libpq startup options)
+ */
+function withSearchPath(connectionString: string, schema: string): string {
+    const url = new URL(connectionString)
+    url.searchParams.set('options', `-c search_path=${schema}`)
+    return url.toString()
+}
+
+function report(label: string, result: ConformanceResult): void {
+    console.log(`\n${label}`)
+    for (const name of result.passed) {
+        console.log(`  ✅ ${name}`)
+    }
+    for (const { name, error } of result.failed) {
+        console.log(`  ❌ ${name}`)
+        console.log(`     ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    console.log(`\n${result.passed.length} passed, ${result.failed.length} failed`)
+
+    if (result.failed.length > 0) {
+        process.exitCode = 1
+    }
+}
+
+async function main() {
+    const databaseUrl = process.env.DATABASE_URL
+    const schema = `conformance_${randomUUID().replace(/-/g, '')}`
+    const admin = databaseUrl ? new Client({ connectionString: databaseUrl }) : null
+
+    if (databaseUrl && admin) {
+        await admin.connect()
+        await admin.query(`CREATE SCHEMA ${schema}`)
+        // Config modules read process.env at import time
+        process.env.DATABASE_URL = withSearchPath(databaseUrl, schema)
+    }
+
+    const { runConformanceSuite } = await import('../lib/data/conformance')
+    const { createMemoryAdapter } = await import('../lib/data/memory')
+
+    report('memory adapter', await runConformanceSuite(async seed => createMemoryAdapter({ seed })))
+
+    if (!admin) {
+        console.log('\npostgres adapter skipped (set DATABASE_URL to run it)')
+        return
+    }
+
+    const { runMigrations } = await import('../lib/db/migrate')
+    const { getDbClient, closeDbClient } = await import('../lib/db/client')
+    const { DB_CONFIG } = await import('../lib/db/config')
+    const { dbAdapter } = await import('../lib/data/db')
+
+    try {
+        await runMigrations()
+
+        const result = await runConformanceSuite(async seed => {
+            await getDbClient().query(`TRUNCATE ${Object.values(DB_CONFIG.tables).join(', ')}`)
+            for (const [table, rows] of Object.entries(seed)) {
+                await dbAdapter.importTable(table as TableName, rows)
+            }
+            return dbAdapter
+        })
+        report(`postgres adapter (schema ${schema})`, result)
+    } finally {
+        await closeDbClient()
+        await admin.query(`DROP SCHEMA ${schema} CASCADE`)
+        await admin.end()
+    }
+}
+
+main().catch(error => {
+    console.error('❌ Conformance run failed:', error)
+    process.exitCode = 1
+})
@@ -0,0 +1,33 @@
+/**
+ * Apply PostgreSQL migrations
+ *
+ * Usage: npm run db:migrate
+ */
+
+import './env'
+import { getDbClient } from '../lib/db/client'
+import { runMigrations } from '../lib/db/migrate'
+
+async function main() {
+    const db = getDbClient()
+
+    try {
+        const result = await runMigrations()
+
+        for (const file of result.skipped) {
+            console.log(`  ⏭️  ${file} (already applied)`)
+        }
+        for (const file of result.applied) {
+            console.log(`  ✅ ${file}`)
+        }
+
+        console.log(`Applied ${result.applied.length} migration(s)`)
+    } finally {
+        await db.close()
+    }
+}
+
+main().catch(error => {
+    console.error('❌ Migration failed:', error)
+    process.exitCode = 1
+})
@@ -0,0 +1,11 @@
+/**
+ * Load .env.local for CLI scripts (Next.js does this for the app)
+ *
+ * Import this first: config modules read process.env at import time.
+ */
+
+import { existsSync } from 'fs'
+
+if (existsSync('.env.local')) {
+    process.loadEnvFile('.env.local')
+}
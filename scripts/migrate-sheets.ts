@@ -0,0 +1,96 @@
+/**
+ * Copy Google Sheets data into another DataService adapter
+ *
+ * Usage:
+ *   npm run data:migrate-sheets -- [options]
+ *
+ * Options:
+ *   --target <adapter>     Destination adapter (default: postgres)
+ *   --tables <A,B,...>     Only these sheets (default: all nine)
+ *   --dry-run              Read and validate only, write nothing
+ *   --resume               Continue from the checkpoint file
+ *   --checkpoint <file>    Checkpoint path (default: .migration-checkpoint.json)
+ *   --verify-only          Skip copying, just compare counts and checksums
+ */
+
+import './env'
+import { parseArgs } from 'util'
+import { getDataAdapter } from '../lib/data'
+import { closeDbClient } from '../lib/db/client'
+import { DATA_ADAPTERS, type DataAdapterName } from '../lib/data/config'
+import { migrateSheets, verifyMigration } from '../lib/data/migration'
+import { TABLE_NAMES } from '../lib/data/tables'
+import type { TableName } from '../lib/data/types'
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            target: { type: 'string', default: 'postgres' },
+            tables: { type: 'string' },
+            'dry-run': { type: 'boolean', default: false },
+            resume: { type: 'boolean', default: false },
+            checkpoint: { type: 'string', default: '.migration-checkpoint.json' },
+            'verify-only': { type: 'boolean', default: false },
+        },
+    })
+
+    const targetName = values.target as DataAdapterName
+    if (targetName === 'sheets' || !DATA_ADAPTERS.includes(targetName)) {
+        throw new Error(`Invalid --target "${values.target}" (expected a non-Sheets adapter)`)
+    }
+
+    const tables = values.tables
+        ? (values.tables.split(',').map(t => t.trim()) as TableName[])
+        : TABLE_NAMES
+    const unknown = tables.filter(t => !TABLE_NAMES.includes(t))
+    if (unknown.length > 0) {
+        throw new Error(`Unknown tables: ${unknown.join(', ')}`)
+    }
+
+    const target = getDataAdapter(targetName)
+
+    if (!values['verify-only']) {
+        const report = await migrateSheets({
+            target,
+            tables,
+            dryRun: values['dry-run'],
+            resume: values.resume,
+            checkpointFile: values.checkpoint,
+        })
+
+        console.log(report.dryRun ? '🧪 Dry run (nothing written)' : `📦 Migrated into ${targetName}`)
+        for (const table of report.tables) {
+            const resumed = table.resumedFrom > 0 ? ` (resumed at ${table.resumedFrom})` : ''
+            console.log(
+                `  ${table.table}: ${table.copied} copied${resumed}, ` +
+                `${table.validRows}/${table.sourceRows} valid, ${table.malformed.length} malformed`
+            )
+            for (const row of table.malformed) {
+                console.log(`    ⚠️  row ${row.rowNumber}: ${row.reason}`)
+            }
+        }
+
+        if (report.dryRun) return
+    }
+
+    const verification = await verifyMigration(target, tables)
+    console.log('\n🔍 Verification')
+    for (const result of verification) {
+        console.log(
+            `  ${result.matches ? '✅' : '❌'} ${result.table}: ` +
+            `${result.sourceCount} → ${result.targetCount} rows, ` +
+            `checksum ${result.sourceChecksum.slice(0, 12)} / ${result.targetChecksum.slice(0, 12)}`
+        )
+    }
+
+    if (verification.some(result => !result.matches)) {
+        process.exitCode = 1
+    }
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Migration failed:', error)
+        process.exitCode = 1
+    })
+    .finally(closeDbClient)
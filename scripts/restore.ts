@@ -0,0 +1,78 @@
+/**
+ * Restore a backup bundle into a DataService adapter
+ *
+ * Usage:
+ *   npm run data:restore -- <bundle> [options]
+ *
+ * Options:
+ *   --target <adapter>     Destination adapter (default: DATA_ADAPTER)
+ *   --mode <merge|replace> merge upserts by primary key; replace drops rows
+ *                          missing from the bundle (default: merge)
+ *   --tables <A,B,...>     Only these tables (default: every table in the bundle)
+ *
+ * Running servers keep cached permissions for up to 5 minutes; restart them
+ * after restoring RBAC tables.
+ */
+
+import './env'
+import { parseArgs } from 'util'
+import { getDataAdapter } from '../lib/data'
+import { readBackup, restoreBackup, type RestoreMode } from '../lib/data/backup'
+import { DATA_ADAPTERS, DATA_CONFIG, type DataAdapterName } from '../lib/data/config'
+import { TABLE_NAMES } from '../lib/data/tables'
+import type { TableName } from '../lib/data/types'
+import { closeDbClient } from '../lib/db/client'
+
+async function main() {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            target: { type: 'string', default: DATA_CONFIG.adapter },
+            mode: { type: 'string', default: 'merge' },
+            tables: { type: 'string' },
+        },
+    })
+
+    const [source] = positionals
+    if (!source) {
+        throw new Error('Usage: npm run data:restore -- <bundle> [--target <adapter>] [--mode merge|replace]')
+    }
+
+    const targetName = values.target as DataAdapterName
+    if (!DATA_ADAPTERS.includes(targetName)) {
+        throw new Error(`Invalid --target "${values.target}"`)
+    }
+
+    const mode = values.mode as RestoreMode
+    if (mode !== 'merge' && mode !== 'replace') {
+        throw new Error(`Invalid --mode "${values.mode}" (expected merge or replace)`)
+    }
+
+    const tables = values.tables
+        ? (values.tables.split(',').map(t => t.trim()) as TableName[])
+        : undefined
+    const unknown = (tables ?? []).filter(t => !TABLE_NAMES.includes(t))
+    if (unknown.length > 0) {
+        throw new Error(`Unknown tables: ${unknown.join(', ')}`)
+    }
+
+    const bundle = await readBackup(source)
+    console.log(`📦 ${source}: backup of ${bundle.manifest.source} from ${bundle.manifest.createdAt}`)
+
+    const report = await restoreBackup(getDataAdapter(targetName), bundle, { mode, tables })
+    for (const table of report) {
+        const check = table.verified === undefined ? '' : table.verified ? ', verified' : ', ❌ checksum mismatch'
+        console.log(`  ✅ ${table.table}: ${table.rows} rows (${mode}${check})`)
+    }
+
+    if (report.some(table => table.verified === false)) {
+        process.exitCode = 1
+    }
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Restore failed:', error)
+        process.exitCode = 1
+    })
+    .finally(closeDbClient)
@@ -0,0 +1,53 @@
+/**
+ * Seed default roles, modules and permissions; optionally promote the first admin
+ *
+ * Usage:
+ *   npm run data:seed -- [--admin <email>]
+ *
+ * Options:
+ *   --admin <email>    Existing user (signed in at least once) to make SUPER_ADMIN
+ *
+ * Writes to the DATA_ADAPTER adapter. Safe to re-run.
+ */
+
+import './env'
+import { parseArgs } from 'util'
+import { dataService } from '../lib/data'
+import { closeDbClient } from '../lib/db/client'
+import { seedPlatform } from '../lib/data/seed'
+
+async function main() {
+    const { values } = parseArgs({
+        options: {
+            admin: { type: 'string' },
+        },
+    })
+
+    const report = await seedPlatform(dataService, { adminEmail: values.admin })
+    await dataService.flush()
+
+    const created = [
+        ...report.rolesCreated.map(code => `role ${code}`),
+        ...report.modulesCreated.map(code => `module ${code}`),
+        ...report.grantsCreated.map(grant => `permission ${grant}`),
+    ]
+    for (const item of created) {
+        console.log(`  ✅ Created ${item}`)
+    }
+    if (created.length === 0) {
+        console.log('  ⏭️  Roles, modules and permissions already seeded')
+    }
+
+    if (report.promoted === 'assigned') {
+        console.log(`  ✅ ${values.admin} is now SUPER_ADMIN`)
+    } else if (report.promoted === 'already-assigned') {
+        console.log(`  ⏭️  ${values.admin} is already SUPER_ADMIN`)
+    }
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Seed failed:', error)
+        process.exitCode = 1
+    })
+    .finally(closeDbClient)
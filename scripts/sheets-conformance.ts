@@ -0,0 +1,387 @@
+/**
+ * Run the conformance suite against the Sheets adapter, offline
+ *
+ * Usage: npm run test:sheets
+ *
+ * Starts the Sheets API emulator, creates the schema with setupSpreadsheet()
+ * and runs every DataService case through sheetsAdapter → SheetsClient →
+ * googleapis. Then checks the quota buckets, SheetsClient retries, the
+ * operation policies and circuit breakers with injected faults.
+ */
+
+import assert from 'assert/strict'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { CircuitBreaker, CircuitOpenError, type CircuitStateChange } from '../lib/sheets/circuit-breaker'
+import { SheetsEmulator } from '../lib/sheets/emulator'
+import { RateLimitError, TokenBucket, type RequestPriority } from '../lib/sheets/rate-limiter'
+
+const emulator = new SheetsEmulator()
+
+async function main() {
+    // Config modules read process.env at import time
+    process.env.SHEETS_EMULATOR_URL = await emulator.start()
+    process.env.GOOGLE_SHEETS_SPREADSHEET_ID = 'emulator'
+    // The emulator has no quota; keep the buckets out of the suite's way
+    process.env.SHEETS_READS_PER_MINUTE = '6000'
+    process.env.SHEETS_WRITES_PER_MINUTE = '6000'
+    // Reads wait at most 1.5s between attempts (see the Retry-After cases)
+    process.env.SHEETS_POLICIES = '{"read":{"maxDelayMs":1500}}'
+
+    const { setupSpreadsheet } = await import('../lib/sheets/setup')
+    const { parseSheetsPolicies } = await import('../lib/sheets/config')
+    const { getSheetsClient } = await import('../lib/sheets/client')
+    const { SheetCache, headerKey } = await import('../lib/sheets/cache')
+    const { migrateSheets } = await import('../lib/data/migration')
+    const { uniqueKeyOf } = await import('../lib/data/integrity')
+    const { createMemoryAdapter } = await import('../lib/data/memory')
+    const { DuplicateError } = await import('../lib/data/errors')
+    const { generateId } = await import('../lib/utils')
+    const { appendQueue } = await import('../lib/sheets/append-queue')
+    const { sheetsAdapter } = await import('../lib/data/sheets')
+    const { runConformanceSuite } = await import('../lib/data/conformance')
+    await setupSpreadsheet()
+
+    const result = await runConformanceSuite(async seed => {
+        for (const [table, rows] of Object.entries(seed)) {
+            await sheetsAdapter.importTable(table as keyof typeof seed, rows)
+        }
+        return sheetsAdapter
+    })
+
+    const clientCases: { name: string; run(): Promise<void> }[] = [
+        {
+            name: 'SheetsClient retries 500 and 429 responses',
+            async run() {
+                emulator.setFaults({ failNext: 1, status: 500 })
+                await getSheetsClient().read('USERS', '1:1')
+                emulator.setFaults({ failNext: 2, status: 429, retryAfterSeconds: 1 })
+                const [header] = await getSheetsClient().read('USERS', '1:1')
+                assert.equal(header[0], 'user_id')
+            },
+        },
+        {
+            name: 'SheetsClient gives up after 3 attempts and on non-retryable errors',
+            async run() {
+                const before = emulator.requests.length
+                emulator.setFaults({ failNext: 3, status: 503 })
+                await assert.rejects(getSheetsClient().read('USERS'))
+                assert.equal(emulator.requests.length - before, 3)
+
+                emulator.clearFaults()
+                const unknownSheet = emulator.requests.length
+                await assert.rejects(getSheetsClient().read('NO_SUCH_SHEET'))
+                assert.equal(emulator.requests.length - unknownSheet, 1)
+            },
+        },
+        {
+            name: 'TokenBucket serves queued requests by priority, FIFO within a priority',
+            async run() {
+                const bucket = new TokenBucket('test', { perMinute: 1200, burst: 1, maxWaitMs: 5000 })
+                await bucket.acquire()
+
+                const order: string[] = []
+                const queue = (label: string, priority: RequestPriority) =>
+                    bucket.acquire(priority).then(() => {
+                        order.push(label)
+                    })
+                await Promise.all([queue('low', 'low'), queue('normal', 'normal'), queue('high-1', 'high'), queue('high-2', 'high')])
+
+                assert.deepEqual(order, ['high-1', 'high-2', 'normal', 'low'])
+                assert.equal(bucket.getStats().delayed, 4)
+            },
+        },
+        {
+            name: 'TokenBucket rejects a request queued longer than maxWaitMs',
+            async run() {
+                const bucket = new TokenBucket('test', { perMinute: 1, maxWaitMs: 50 })
+                await bucket.acquire()
+                await assert.rejects(bucket.acquire('high'), RateLimitError)
+                assert.equal(bucket.getStats().rejected, 1)
+            },
+        },
+        {
+            name: 'SheetsClient waits out Retry-After on 429s, which never open the circuit',
+            async run() {
+                emulator.setFaults({ failNext: 1, status: 429, retryAfterSeconds: 1, operations: ['get'] })
+                const started = Date.now()
+                await getSheetsClient().read('USERS', '1:1')
+                assert.ok(Date.now() - started >= 1000, 'the retry waited for Retry-After')
+
+                emulator.setFaults({ errorRate: 1, status: 429, retryAfterSeconds: 0 })
+                for (let call = 0; call < 5; call++) {
+                    await assert.rejects(getSheetsClient().read('USERS'))
+                }
+                assert.equal(getSheetsClient().getCircuitBreakerState(), 'CLOSED')
+            },
+        },
+        {
+            name: 'SheetsClient fails at once when Retry-After exceeds maxDelayMs, holding the quota for it',
+            async run() {
+                const before = emulator.requests.length
+                emulator.setFaults({ failNext: 1, status: 429, retryAfterSeconds: 2, operations: ['get'] })
+                const started = Date.now()
+                await assert.rejects(getSheetsClient().read('USERS', '1:1'), (error: { response?: { status?: number } }) => {
+                    return error.response?.status === 429
+                })
+                assert.ok(Date.now() - started < 1000, 'no early retry within Retry-After')
+                assert.equal(emulator.requests.length - before, 1)
+                assert.ok(getSheetsClient().getRateLimitStats().read.pausedForMs > 1000, 'the read bucket waits out Retry-After')
+            },
+        },
+        {
+            name: 'importTable merges with one read, one batched update and one append',
+            async run() {
+                const existing = (await sheetsAdapter.exportTable('USERS')).slice(0, 3)
+                assert.equal(existing.length, 3)
+                const renamed = existing.map(user => ({ ...user, name: `${user.name} (imported)` }))
+                const added = [1, 2].map(n => ({ ...renamed[0], user_id: `import-${n}`, email: `import-${n}@example.com` }))
+
+                const before = emulator.requests.length
+                await sheetsAdapter.importTable('USERS', [...renamed, ...added])
+                const operations = emulator.requests.slice(before).map(request => request.operation)
+                assert.deepEqual(operations.filter(operation => operation !== 'get'), ['batchUpdateValues', 'append'])
+                assert.ok(operations.filter(operation => operation === 'get').length <= 2, 'the sheet is read once')
+
+                for (const user of [...renamed, ...added]) {
+                    assert.equal((await sheetsAdapter.getUserById(user.user_id))?.name, user.name)
+                }
+            },
+        },
+        {
+            name: 'session cache: concurrent sets append a key once; deletes clear only the dropped rows',
+            async run() {
+                const prefix = `cc-${generateId()}:`
+                await Promise.all([1, 2, 3].map(n => sheetsAdapter.setCacheEntry(`${prefix}a`, `v${n}`, 60000)))
+                await sheetsAdapter.setCacheEntry(`${prefix}b`, 'kept', 60000)
+
+                const stored = await sheetsAdapter.exportTable('SESSION_CACHE')
+                assert.equal(stored.filter(entry => entry.cache_key === `${prefix}a`).length, 1)
+
+                const before = emulator.requests.length
+                assert.equal(await sheetsAdapter.deleteCacheEntry(`${prefix}a`), true)
+                const writes = emulator.requests.slice(before).filter(request => request.operation !== 'get')
+                assert.deepEqual(writes.map(request => request.operation), ['batchUpdateValues'])
+
+                assert.equal(await sheetsAdapter.getCacheEntry(`${prefix}a`), null)
+                assert.equal((await sheetsAdapter.getCacheEntry(`${prefix}b`))?.cache_value, 'kept')
+            },
+        },
+        {
+            name: 'appendQueue.flushBeforeExit gives up on queued rows at its deadline',
+            async run() {
+                const log = { level: 'INFO' as const, message: 'queued before exit', correlation_id: generateId() }
+                await sheetsAdapter.createSystemLog(log)
+                assert.equal(await appendQueue.flushBeforeExit(5000), true)
+
+                emulator.setFaults({ errorRate: 1, status: 503, operations: ['append'] })
+                await sheetsAdapter.createSystemLog(log)
+                const started = Date.now()
+                assert.equal(await appendQueue.flushBeforeExit(50), false)
+                assert.ok(Date.now() - started < 1000, 'the deadline bounds the wait')
+
+                emulator.clearFaults()
+                await appendQueue.flush().catch(() => undefined)
+            },
+        },
+        {
+            name: 'migrateSheets reports rows breaking a unique rule instead of failing on the target',
+            async run() {
+                const assignment = {
+                    user_id: generateId(),
+                    role_id: generateId(),
+                    assigned_by: 'SYSTEM',
+                    assigned_at: new Date().toISOString(),
+                    is_active: true,
+                }
+                const [kept, duplicate] = [generateId(), generateId()]
+                await sheetsAdapter.importTable('ROLE_ASSIGNMENTS', [
+                    { ...assignment, assignment_id: kept },
+                    { ...assignment, assignment_id: duplicate },
+                ])
+
+                // Rejects what the Postgres unique indexes reject
+                const stored = createMemoryAdapter()
+                const taken = new Set<string>()
+                const target: typeof stored = {
+                    ...stored,
+                    async importTable(table, rows) {
+                        for (const row of rows as unknown as Record<string, unknown>[]) {
+                            const unique = uniqueKeyOf(table, row)
+                            if (unique && taken.has(unique.key)) throw new DuplicateError(table, '', unique.key)
+                            if (unique) taken.add(unique.key)
+                        }
+                        return stored.importTable(table, rows)
+                    },
+                }
+
+                const report = await migrateSheets({
+                    target,
+                    tables: ['ROLE_ASSIGNMENTS'],
+                    checkpointFile: join(tmpdir(), `migration-${generateId()}.json`),
+                })
+                const copied = (await target.exportTable('ROLE_ASSIGNMENTS')).filter(row => row.user_id === assignment.user_id)
+                assert.deepEqual(copied.map(row => row.assignment_id), [kept])
+
+                const [reported, ...others] = report.tables[0].malformed.filter(row => row.conflictsWith !== undefined)
+                assert.equal(others.length, 0)
+                assert.match(reported.reason, /^duplicate user_id, role_id, site_code of row \d+$/)
+                assert.ok(reported.rowNumber > (reported.conflictsWith ?? Infinity), 'the first row is kept')
+            },
+        },
+        {
+            name: 'SheetCache drops a sheet\'s header row along with its snapshot',
+            async run() {
+                const cache = new SheetCache(60000)
+                let reads = 0
+                const readHeader = async () => [[`user_id ${++reads}`]]
+
+                await cache.get(headerKey('USERS'), readHeader)
+                await cache.get(headerKey('USERS'), readHeader)
+                assert.equal(reads, 1)
+
+                cache.invalidate('USERS')
+                assert.deepEqual(await cache.get(headerKey('USERS'), readHeader), [['user_id 2']])
+                cache.invalidate()
+                assert.deepEqual(await cache.get(headerKey('USERS'), readHeader), [['user_id 3']])
+            },
+        },
+        {
+            name: 'parseSheetsPolicies overrides defaults per operation and rejects unknown fields',
+            async run() {
+                const policies = parseSheetsPolicies('{"append":{"failureThreshold":10,"maxAttempts":5}}')
+                assert.equal(policies.append.failureThreshold, 10)
+                assert.equal(policies.append.maxAttempts, 5)
+                assert.equal(policies.append.resetTimeoutMs, 60000)
+                assert.equal(policies.read.failureThreshold, 5)
+
+                assert.throws(() => parseSheetsPolicies('{"append":{"threshold":10}}'), /Invalid SHEETS_POLICIES/)
+                assert.throws(() => parseSheetsPolicies('{"delete":{}}'), /Invalid SHEETS_POLICIES/)
+                assert.throws(() => parseSheetsPolicies('{"read":{"maxAttempts":0}}'), /Invalid SHEETS_POLICIES/)
+            },
+        },
+        {
+            name: 'CircuitBreaker lets a single probe through in HALF_OPEN and publishes state changes',
+            async run() {
+                const breaker = new CircuitBreaker('test', { failureThreshold: 1, resetTimeoutMs: 20 })
+                const changes: CircuitStateChange[] = []
+                breaker.onStateChange(change => changes.push(change))
+
+                await assert.rejects(breaker.execute(() => Promise.reject(new Error('down'))))
+                assert.equal(breaker.getState(), 'OPEN')
+                await assert.rejects(breaker.execute(async () => 'sent'), CircuitOpenError)
+                await new Promise(resolve => setTimeout(resolve, 30))
+
+                let finishProbe: (value: string) => void = () => {}
+                const probe = breaker.execute(() => new Promise<string>(resolve => (finishProbe = resolve)))
+                await assert.rejects(breaker.execute(async () => 'sent'), /HALF_OPEN/)
+                finishProbe('ok')
+                assert.equal(await probe, 'ok')
+
+                assert.deepEqual(
+                    changes.map(change => `${change.from}→${change.to}`),
+                    ['CLOSED→OPEN', 'OPEN→HALF_OPEN', 'HALF_OPEN→CLOSED']
+                )
+                const metrics = breaker.getMetrics()
+                assert.equal(metrics.state, 'CLOSED')
+                assert.equal(metrics.opened, 1)
+                assert.equal(metrics.rejected, 2)
+                assert.equal(metrics.lastFailure?.error, 'down')
+            },
+        },
+        {
+            name: 'CircuitBreaker reopens when the probe fails and closes on a manual reset',
+            async run() {
+                const breaker = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 20 })
+                const fail = () => Promise.reject(new Error('down'))
+
+                await assert.rejects(breaker.execute(fail))
+                assert.equal(breaker.getState(), 'CLOSED')
+                await assert.rejects(breaker.execute(fail))
+                await new Promise(resolve => setTimeout(resolve, 30))
+                await assert.rejects(breaker.execute(fail), /down/)
+                assert.equal(breaker.getState(), 'OPEN', 'a failed probe reopens at once')
+
+                const changes: CircuitStateChange[] = []
+                breaker.onStateChange(change => changes.push(change))
+                breaker.reset()
+                assert.equal(breaker.getState(), 'CLOSED')
+                assert.equal(changes[0]?.reason, 'manual reset')
+                assert.equal(await breaker.execute(async () => 'sent'), 'sent')
+            },
+        },
+        {
+            name: 'SheetsClient.probe never counts against the read circuit breaker',
+            async run() {
+                const client = getSheetsClient()
+                const { failures } = client.getCircuitBreakerMetrics().read
+                emulator.setFaults({ errorRate: 1, status: 400, operations: ['get'] })
+                for (let call = 0; call < 10; call++) {
+                    await assert.rejects(client.probe('_METADATA', 'A1:B1'))
+                }
+                assert.equal(client.getCircuitBreakerMetrics().read.state, 'CLOSED')
+                assert.equal(client.getCircuitBreakerMetrics().read.failures, failures)
+
+                emulator.clearFaults()
+                await client.probe('_METADATA', 'A1:B1')
+            },
+        },
+        {
+            name: 'SheetsClient opens only the failing operation\'s circuit, until it is reset',
+            async run() {
+                const client = getSheetsClient()
+                emulator.setFaults({ errorRate: 1, status: 500, operations: ['get'] })
+                for (let call = 0; call < 5; call++) {
+                    await assert.rejects(client.read('USERS'))
+                }
+                assert.equal(client.getCircuitBreakerMetrics().read.state, 'OPEN')
+                assert.equal(client.getCircuitBreakerState(), 'OPEN')
+
+                const before = emulator.requests.length
+                await assert.rejects(client.read('USERS'), /Circuit breaker is OPEN/)
+                assert.equal(emulator.requests.length, before, 'an open circuit sends no requests')
+
+                await client.batchRead(['USERS!1:1'])
+                assert.equal(client.getCircuitBreakerMetrics().batch.state, 'CLOSED')
+
+                emulator.clearFaults()
+                client.resetCircuitBreakers('read')
+                assert.equal(client.getCircuitBreakerState(), 'CLOSED')
+                const [header] = await client.read('USERS', '1:1')
+                assert.equal(header[0], 'user_id')
+            },
+        },
+    ]
+
+    for (const testCase of clientCases) {
+        try {
+            await testCase.run()
+            result.passed.push(testCase.name)
+        } catch (error) {
+            result.failed.push({ name: testCase.name, error })
+        } finally {
+            emulator.clearFaults()
+        }
+    }
+
+    for (const name of result.passed) {
+        console.log(`  ✅ ${name}`)
+    }
+    for (const { name, error } of result.failed) {
+        console.log(`  ❌ ${name}`)
+        console.log(`     ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    console.log(`\n${result.passed.length} passed, ${result.failed.length} failed`)
+
+    if (result.failed.length > 0) {
+        process.exitCode = 1
+    }
+}
+
+main()
+    .catch(error => {
+        console.error('❌ Sheets conformance run failed:', error)
+        process.exitCode = 1
+    })
+    .finally(() => emulator.stop())
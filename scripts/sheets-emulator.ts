@@ -0,0 +1,37 @@
+/**
+ * Run the Google Sheets API emulator
+ *
+ * Usage: npm run sheets:emulator -- [--port 8085] [--file .data/sheets.json]
+ *
+ * Then start the app with SHEETS_EMULATOR_URL=http://127.0.0.1:8085 and run
+ * `npm run sheets:setup` once to create the sheets. Faults are injected over
+ * HTTP, e.g.
+ *   curl -X PUT localhost:8085/_emulator/faults -d '{"failNext":3,"status":429}'
+ */
+
+import { SheetsEmulator } from '../lib/sheets/emulator'
+
+function option(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`)
+    return index === -1 ? undefined : process.argv[index + 1]
+}
+
+async function main() {
+    const emulator = new SheetsEmulator({
+        port: parseInt(option('port') || '8085'),
+        file: option('file'),
+    })
+    const url = await emulator.start()
+
+    console.log(`Sheets emulator listening on ${url}`)
+    console.log(`  SHEETS_EMULATOR_URL=${url}`)
+
+    process.on('SIGINT', () => {
+        emulator.stop().then(() => process.exit(0))
+    })
+}
+
+main().catch(error => {
+    console.error('❌ Sheets emulator failed:', error)
+    process.exitCode = 1
+})
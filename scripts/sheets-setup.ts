@@ -0,0 +1,35 @@
+/**
+ * Create or upgrade the Google Sheets schema
+ *
+ * Usage: npm run sheets:setup
+ *
+ * Creates missing sheets, headers and dropdowns from SHEETS_CONFIG and
+ * applies pending migrations (lib/sheets/migrations.ts). Safe to re-run.
+ */
+
+import './env'
+import { setupSpreadsheet } from '../lib/sheets/setup'
+
+async function main() {
+    const report = await setupSpreadsheet()
+
+    for (const sheet of report.createdSheets) {
+        console.log(`  ✅ Created sheet ${sheet}`)
+    }
+    for (const sheet of report.headersWritten) {
+        console.log(`  ✅ Wrote ${sheet} header`)
+    }
+    for (const migration of report.appliedMigrations) {
+        console.log(`  ✅ Migration ${migration}`)
+    }
+
+    console.log(
+        `Schema version ${report.fromVersion} → ${report.toVersion}, ` +
+        `${report.validatedColumns} dropdown column(s) set`
+    )
+}
+
+main().catch(error => {
+    console.error('❌ Sheets setup failed:', error)
+    process.exitCode = 1
+})